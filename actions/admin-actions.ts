@@ -0,0 +1,86 @@
+"use server";
+
+import { createServiceClient, getSessionUser, getUserRole } from "@/utils/supabase/server";
+import { revalidatePath } from "next/cache";
+import { can, PERMISSION_DENIED, Role, ROLES } from "@/utils/permissions";
+
+export type Profile = {
+    id: string;
+    email: string;
+    full_name?: string;
+    role: Role;
+    created_at: string;
+};
+
+export async function listUsers() {
+    const user = await getSessionUser();
+    if (!user) return { error: "Not signed in" };
+    if (!can(await getUserRole(user.id), "manageUsers")) return { error: PERMISSION_DENIED };
+
+    const supabase = await createServiceClient();
+
+    const { data, error } = await supabase
+        .from("profiles")
+        .select("*")
+        .order("email");
+
+    if (error) return { error: error.message };
+
+    return { success: true, data: data as Profile[] };
+}
+
+export async function setUserRole(userId: string, role: Role) {
+    const user = await getSessionUser();
+    if (!user) return { error: "Not signed in" };
+    if (!can(await getUserRole(user.id), "manageUsers")) return { error: PERMISSION_DENIED };
+
+    if (!ROLES.some((r) => r.role === role)) {
+        return { error: "Unknown role" };
+    }
+    // Keeps at least one admin around
+    if (userId === user.id && role !== "admin") {
+        return { error: "You cannot remove your own admin role" };
+    }
+
+    const supabase = await createServiceClient();
+
+    const { error } = await supabase
+        .from("profiles")
+        .update({ role })
+        .eq("id", userId);
+
+    if (error) return { error: error.message };
+
+    revalidatePath("/admin/users");
+    return { success: true };
+}
+
+// Sends a Supabase invite email; the profile row is created by the auth trigger
+export async function inviteUser(email: string, role: Role) {
+    const user = await getSessionUser();
+    if (!user) return { error: "Not signed in" };
+    if (!can(await getUserRole(user.id), "manageUsers")) return { error: PERMISSION_DENIED };
+
+    if (!email || email.trim() === "") {
+        return { error: "Email is required" };
+    }
+
+    if (!ROLES.some((r) => r.role === role)) {
+        return { error: "Unknown role" };
+    }
+
+    const supabase = await createServiceClient();
+
+    const { data, error } = await supabase.auth.admin.inviteUserByEmail(email.trim());
+    if (error) return { error: error.message };
+
+    const { error: roleError } = await supabase
+        .from("profiles")
+        .update({ role })
+        .eq("id", data.user.id);
+
+    if (roleError) return { error: roleError.message };
+
+    revalidatePath("/admin/users");
+    return { success: true };
+}
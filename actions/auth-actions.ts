@@ -0,0 +1,49 @@
+"use server";
+
+import { createClient, getSessionUser } from "@/utils/supabase/server";
+import { redirect } from "next/navigation";
+import { SessionUser } from "@/utils/session";
+
+export async function signIn(email: string, password: string) {
+    const supabase = await createClient();
+
+    if (!email.trim() || !password) {
+        return { error: "Email and password are required" };
+    }
+
+    const { error } = await supabase.auth.signInWithPassword({
+        email: email.trim(),
+        password,
+    });
+
+    if (error) return { error: error.message };
+
+    return { success: true };
+}
+
+export async function signOut() {
+    const supabase = await createClient();
+    await supabase.auth.signOut();
+    redirect("/login");
+}
+
+export async function getCurrentUser() {
+    const user = await getSessionUser();
+    if (!user) return { error: "Not signed in" };
+
+    const supabase = await createClient();
+    const { data: profile } = await supabase
+        .from("profiles")
+        .select("full_name, role")
+        .eq("id", user.id)
+        .single();
+
+    const data: SessionUser = {
+        id: user.id,
+        email: user.email ?? "",
+        full_name: profile?.full_name ?? undefined,
+        role: profile?.role ?? "technician",
+    };
+
+    return { success: true, data };
+}
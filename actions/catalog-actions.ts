@@ -0,0 +1,145 @@
+"use server";
+
+import { createServiceClient, getSessionUser, getUserRole } from "@/utils/supabase/server";
+import { can, PERMISSION_DENIED } from "@/utils/permissions";
+import { revalidatePath } from "next/cache";
+
+export type CatalogEntry = {
+    id: string;
+    part_number: string;
+    barcode: string;
+    alt_barcodes: string[];
+    description?: string;
+    brand?: string;
+    unit_cost?: number;
+    created_at: string;
+    updated_at: string;
+};
+
+const CATALOG_PAGE_SIZE = 1000; // PostgREST default max rows
+
+// A part number deleted (or renamed) on the server
+export type CatalogDeletion = {
+    part_number: string;
+    deleted_at: string;
+};
+
+// Devices pass the updated_at of their last pull to only fetch what changed, and the deleted_at of the
+// last tombstone they applied to learn which parts to drop. Each list is ordered by its own cursor.
+export async function getCatalog(since?: string, deletedSince?: string) {
+    const user = await getSessionUser();
+    if (!user) return { error: "Not signed in" };
+
+    const supabase = await createServiceClient();
+    const entries: CatalogEntry[] = [];
+    const deleted: CatalogDeletion[] = [];
+
+    // Without a cursor the device copy is empty, there is nothing to drop
+    if (deletedSince) {
+        for (let from = 0; ; from += CATALOG_PAGE_SIZE) {
+            const { data, error } = await supabase
+                .from("parts_catalog_deletions")
+                .select("part_number, deleted_at")
+                .gt("deleted_at", deletedSince)
+                .order("deleted_at", { ascending: true })
+                .order("id", { ascending: true })
+                .range(from, from + CATALOG_PAGE_SIZE - 1);
+
+            if (error) return { error: error.message };
+
+            deleted.push(...(data as CatalogDeletion[]));
+            if (data.length < CATALOG_PAGE_SIZE) break;
+        }
+    }
+
+    for (let from = 0; ; from += CATALOG_PAGE_SIZE) {
+        let query = supabase
+            .from("parts_catalog")
+            .select("*")
+            .order("updated_at", { ascending: true })
+            .order("id", { ascending: true })
+            .range(from, from + CATALOG_PAGE_SIZE - 1);
+
+        if (since) {
+            query = query.gt("updated_at", since);
+        }
+
+        const { data, error } = await query;
+
+        if (error) return { error: error.message };
+
+        entries.push(...(data as CatalogEntry[]));
+        if (data.length < CATALOG_PAGE_SIZE) break;
+    }
+
+    return { success: true, data: entries, deleted };
+}
+
+export type CatalogImportRow = {
+    part_number: string;
+    barcode: string;
+    description?: string;
+    brand?: string;
+    unit_cost?: number;
+};
+
+// Insert or update by part number in a single statement, so a file is applied all or nothing.
+// alt_barcodes is left out so existing alternates survive an update.
+export async function importCatalog(rows: CatalogImportRow[]) {
+    const user = await getSessionUser();
+    if (!user) return { error: "Not signed in" };
+    if (!can(await getUserRole(user.id), "manageCatalog")) return { error: PERMISSION_DENIED };
+
+    const supabase = await createServiceClient();
+
+    if (rows.length === 0) {
+        return { error: "Nothing to import" };
+    }
+
+    const now = new Date().toISOString();
+    const { data, error } = await supabase
+        .from("parts_catalog")
+        .upsert(
+            rows.map((r) => ({
+                part_number: r.part_number,
+                barcode: r.barcode,
+                description: r.description ?? null,
+                brand: r.brand ?? null,
+                unit_cost: r.unit_cost ?? null,
+                updated_at: now,
+            })),
+            { onConflict: "part_number" }
+        )
+        .select();
+
+    if (error) {
+        if (error.code === "23505") {
+            return { error: "A barcode in the file is already used by another part" };
+        }
+        return { error: error.message };
+    }
+
+    revalidatePath("/catalog/import");
+    return { success: true, data: data as CatalogEntry[] };
+}
+
+// Catalog rows for the given barcodes, matched on the main or an alternate barcode
+export async function lookupCatalog(barcodes: string[]) {
+    const user = await getSessionUser();
+    if (!user) return { error: "Not signed in" };
+
+    if (barcodes.length === 0) return { success: true, data: [] as CatalogEntry[] };
+
+    const supabase = await createServiceClient();
+
+    const [main, alt] = await Promise.all([
+        supabase.from("parts_catalog").select("*").in("barcode", barcodes),
+        supabase.from("parts_catalog").select("*").overlaps("alt_barcodes", barcodes),
+    ]);
+
+    if (main.error) return { error: main.error.message };
+    if (alt.error) return { error: alt.error.message };
+
+    const byId = new Map([...(main.data || []), ...(alt.data || [])].map((e) => [e.id, e as CatalogEntry]));
+    return { success: true, data: [...byId.values()] };
+}
@@ -0,0 +1,64 @@
+"use server";
+
+import { createServiceClient, getSessionUser, getUserRole } from "@/utils/supabase/server";
+import { can, PERMISSION_DENIED } from "@/utils/permissions";
+import { deliverDMS, DMSDeliveryStatus } from "@/utils/dms";
+import { revalidatePath } from "next/cache";
+
+export type DMSDelivery = {
+    final_entry_id: string;
+    status: DMSDeliveryStatus;
+    attempts: number;
+    next_attempt_at?: string | null;
+    last_error?: string | null;
+    last_response_status?: number | null;
+    delivered_at?: string | null;
+    created_at: string;
+    updated_at: string;
+    final_entry: { ro_number: string; version: number; finalized_at: string } | null;
+};
+
+const DELIVERIES_LIMIT = 100;
+
+// Newest deliveries first, optionally one status; dead ones are the dead-letter list
+export async function listDMSDeliveries(status?: DMSDeliveryStatus) {
+    const user = await getSessionUser();
+    if (!user) return { error: "Not signed in" };
+    if (!can(await getUserRole(user.id), "manageIntegrations")) return { error: PERMISSION_DENIED };
+
+    const supabase = await createServiceClient();
+
+    let query = supabase
+        .from("dms_deliveries")
+        .select("*, final_entry:ro_final_entries(ro_number, version, finalized_at)")
+        .order("created_at", { ascending: false })
+        .limit(DELIVERIES_LIMIT);
+    if (status) query = query.eq("status", status);
+
+    const { data, error } = await query;
+    if (error) return { error: error.message };
+
+    return { success: true, data: data as unknown as DMSDelivery[] };
+}
+
+// Puts a delivery back in the queue with fresh retries and sends it now
+export async function resendDMSDelivery(finalEntryId: string) {
+    const user = await getSessionUser();
+    if (!user) return { error: "Not signed in" };
+    if (!can(await getUserRole(user.id), "manageIntegrations")) return { error: PERMISSION_DENIED };
+
+    const supabase = await createServiceClient();
+
+    const { error } = await supabase
+        .from("dms_deliveries")
+        .update({ status: "pending", attempts: 0, next_attempt_at: new Date().toISOString(), updated_at: new Date().toISOString() })
+        .eq("final_entry_id", finalEntryId);
+
+    if (error) return { error: error.message };
+
+    const result = await deliverDMS(finalEntryId);
+    revalidatePath("/admin/dms");
+
+    if (!result.ok && !result.skipped) return { error: result.error || "Delivery failed, it will be retried" };
+    return { success: true };
+}
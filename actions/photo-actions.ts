@@ -0,0 +1,128 @@
+"use server";
+
+import { createServiceClient, getSessionUser, getUserRole } from "@/utils/supabase/server";
+import { can, PERMISSION_DENIED } from "@/utils/permissions";
+import type { UserRef } from "@/actions/ro-actions";
+
+const PHOTO_BUCKET = "ro-photos";
+const SIGNED_URL_SECONDS = 60 * 60;
+const MAX_PHOTO_BYTES = 2 * 1024 * 1024; // devices send downscaled JPEGs well under this
+
+export type Photo = {
+    id: string;
+    ro_id: string;
+    barcode_value?: string | null;
+    storage_path: string;
+    content_type: string;
+    taken_by?: string;
+    taken_by_profile?: UserRef | null;
+    device_id?: string;
+    taken_at: string;
+    url?: string; // signed, added by getPhotos
+};
+
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Form fields: id, ro_id, barcode_value (optional), device_id, taken_at and the image as file.
+// The id comes from the device. The row is written first and claims the id for this user and device,
+// so a retry finds its own row and an upload that already landed; anyone else gets an error and
+// can't replace the image behind the id.
+export async function uploadPhoto(form: FormData) {
+    const user = await getSessionUser();
+    if (!user) return { error: "Not signed in" };
+    if (!can(await getUserRole(user.id), "scan")) return { error: PERMISSION_DENIED };
+
+    const id = String(form.get("id") || "");
+    const roId = String(form.get("ro_id") || "");
+    const deviceId = form.get("device_id") ? String(form.get("device_id")) : null;
+    const file = form.get("file");
+
+    if (!id || !roId || !(file instanceof Blob)) return { error: "Incomplete photo upload" };
+    if (!UUID.test(id)) return { error: "Invalid photo id" };
+    if (!file.type.startsWith("image/")) return { error: "Only images can be attached" };
+    if (file.size > MAX_PHOTO_BYTES) return { error: "Photo is too large" };
+
+    const supabase = await createServiceClient();
+
+    // No draft check: a photo taken before finalizing may only get online afterwards
+    const { data: ro, error: roError } = await supabase
+        .from("ro")
+        .select("id")
+        .eq("id", roId)
+        .single();
+
+    if (roError || !ro) return { error: "RO not found" };
+
+    const storagePath = `${roId}/${id}.jpg`;
+    const { error: insertError } = await supabase
+        .from("ro_photos")
+        .insert({
+            id,
+            ro_id: roId,
+            barcode_value: form.get("barcode_value") || null,
+            storage_path: storagePath,
+            content_type: file.type,
+            taken_by: user.id,
+            device_id: deviceId,
+            taken_at: form.get("taken_at") || new Date().toISOString(),
+        });
+
+    const inserted = !insertError;
+    if (insertError) {
+        if (insertError.code !== "23505") return { error: insertError.message };
+
+        // Already there: only a retry from the same user and device may continue
+        const { data: existing, error } = await supabase
+            .from("ro_photos")
+            .select("ro_id, taken_by, device_id")
+            .eq("id", id)
+            .single();
+
+        if (error) return { error: error.message };
+        if (existing.ro_id !== roId || existing.taken_by !== user.id || existing.device_id !== deviceId) {
+            return { error: "A different photo already uses this id" };
+        }
+    }
+
+    const { error: uploadError } = await supabase.storage
+        .from(PHOTO_BUCKET)
+        .upload(storagePath, file, { contentType: file.type, upsert: false });
+
+    if (uploadError) {
+        // The earlier attempt stored the image and the row above is ours
+        if ((uploadError as { statusCode?: string }).statusCode === "409") return { success: true };
+
+        if (inserted) await supabase.from("ro_photos").delete().eq("id", id);
+        return { error: uploadError.message };
+    }
+
+    return { success: true };
+}
+
+// Photos of an RO with short-lived signed URLs, oldest first
+export async function getPhotos(roId: string) {
+    const user = await getSessionUser();
+    if (!user) return { error: "Not signed in" };
+
+    const supabase = await createServiceClient();
+
+    const { data, error } = await supabase
+        .from("ro_photos")
+        .select("*, taken_by_profile:profiles!taken_by(email, full_name)")
+        .eq("ro_id", roId)
+        .order("taken_at");
+
+    if (error) return { error: error.message };
+
+    const photos = (data || []) as Photo[];
+    if (photos.length === 0) return { success: true, data: photos };
+
+    const { data: urls, error: urlError } = await supabase.storage
+        .from(PHOTO_BUCKET)
+        .createSignedUrls(photos.map((p) => p.storage_path), SIGNED_URL_SECONDS);
+
+    if (urlError) return { error: urlError.message };
+
+    const byPath = new Map((urls || []).map((u) => [u.path, u.signedUrl]));
+    return { success: true, data: photos.map((p) => ({ ...p, url: byPath.get(p.storage_path) })) };
+}
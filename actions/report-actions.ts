@@ -0,0 +1,48 @@
+"use server";
+
+import { createServiceClient, getSessionUser, getUserRole } from "@/utils/supabase/server";
+import { can, PERMISSION_DENIED } from "@/utils/permissions";
+import { lookupCatalog } from "@/actions/catalog-actions";
+import type { CatalogEntry } from "@/actions/catalog-actions";
+import { buildUsageReport, FinalPartLine } from "@/utils/usage-report";
+
+const LINES_PAGE_SIZE = 1000; // PostgREST default max rows
+const LOOKUP_CHUNK_SIZE = 200; // barcodes per catalog query, keeps the filter in the URL short
+const DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+// Parts usage over an inclusive date range, from the latest final snapshot of each RO (see final_part_lines in schema.sql)
+export async function getPartsUsage(from: string, to: string) {
+    const user = await getSessionUser();
+    if (!user) return { error: "Not signed in" };
+    if (!can(await getUserRole(user.id), "viewReports")) return { error: PERMISSION_DENIED };
+
+    if (!DATE.test(from) || !DATE.test(to)) return { error: "Invalid date range" };
+    if (from > to) return { error: "The start date is after the end date" };
+
+    const supabase = await createServiceClient();
+    const end = new Date(`${to}T00:00:00Z`);
+    end.setUTCDate(end.getUTCDate() + 1);
+
+    const lines: FinalPartLine[] = [];
+    for (let start = 0; ; start += LINES_PAGE_SIZE) {
+        const { data, error } = await supabase
+            .rpc("final_part_lines", { p_from: `${from}T00:00:00Z`, p_to: end.toISOString() })
+            .range(start, start + LINES_PAGE_SIZE - 1);
+
+        if (error) return { error: error.message };
+
+        lines.push(...((data || []) as FinalPartLine[]));
+        if (!data || data.length < LINES_PAGE_SIZE) break;
+    }
+
+    // An entry can match in two chunks, once on its main and once on an alternate barcode
+    const barcodes = [...new Set(lines.map((l) => l.barcode_value))];
+    const catalog = new Map<string, CatalogEntry>();
+    for (let start = 0; start < barcodes.length; start += LOOKUP_CHUNK_SIZE) {
+        const catalogRes = await lookupCatalog(barcodes.slice(start, start + LOOKUP_CHUNK_SIZE));
+        if (catalogRes.error) return { error: catalogRes.error };
+        catalogRes.data?.forEach((entry) => catalog.set(entry.id, entry));
+    }
+
+    return { success: true, data: buildUsageReport(lines, [...catalog.values()], from, to) };
+}
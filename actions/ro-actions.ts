@@ -1,8 +1,23 @@
 "use server";
 
-import { createServiceClient } from "@/utils/supabase/server";
+import { randomUUID } from "crypto";
+import { createServiceClient, getSessionUser, getUserRole } from "@/utils/supabase/server";
+import { can, PERMISSION_DENIED } from "@/utils/permissions";
 import { revalidatePath } from "next/cache";
 import { redirect } from "next/navigation";
+import { after } from "next/server";
+import { ExpectedPart, reconcile, Reconciliation, RECONCILIATION_CHANGED, sameReconciliation } from "@/utils/reconcile";
+import type { ROEventType, ROEventValues } from "@/utils/db";
+import type { GS1Fields } from "@/utils/gs1";
+import { FINALS_PAGE_SIZE, FinalsFilters } from "@/utils/finals-filters";
+import { deliverDueDMS } from "@/utils/dms";
+import { emitWebhookEvent } from "@/utils/webhooks";
+
+// Embedded from profiles for display
+export type UserRef = {
+    email: string;
+    full_name?: string;
+};
 
 export type RO = {
     id: string;
@@ -10,15 +25,27 @@ export type RO = {
     status: "draft" | "finalized";
     created_at: string;
     finalized_at?: string;
+    amend_reason?: string;
+    amended_at?: string;
+    created_by?: string;
+    finalized_by?: string;
+    created_by_profile?: UserRef | null;
+    finalized_by_profile?: UserRef | null;
 };
 
+const RO_SELECT = "*, created_by_profile:profiles!created_by(email, full_name), finalized_by_profile:profiles!finalized_by(email, full_name)";
+
 export type ScannedPart = {
     id: string;
     ro_id: string;
     barcode_value: string;
-    quantity: number;
+    device_id: string;
+    quantity: number; // this device's increments, the line total is the sum over devices
     created_at: string;
     updated_at: string;
+    scanned_by?: string; // last user to change this device's row
+    scanned_by_profile?: UserRef | null;
+    gs1?: GS1Fields | null; // last GS1 label scanned on this device
 };
 
 export type FinalEntry = {
@@ -26,9 +53,43 @@ export type FinalEntry = {
     ro_id: string;
     ro_number: string;
     finalized_at: string;
+    override_reason?: string;
+    version: number;
+    previous_entry_id?: string;
+    amend_reason?: string;
+    finalized_by?: string;
+    finalized_by_profile?: UserRef | null;
+};
+
+export type ROEvent = {
+    id: string;
+    ro_id: string;
+    event_type: ROEventType;
+    barcode_value?: string;
+    before?: ROEventValues | null;
+    after?: ROEventValues | null;
+    reason?: string;
+    user_id?: string;
+    user?: UserRef | null;
+    device_id?: string;
+    occurred_at: string;
+    recorded_at: string;
+};
+
+// What a device uploads; the user comes from the session
+export type ROEventInput = Pick<ROEvent, "id" | "event_type" | "barcode_value" | "before" | "after" | "reason" | "device_id" | "occurred_at">;
+
+export type FinalPart = {
+    id: string;
+    final_entry_id: string;
+    barcode_value: string;
+    quantity: number;
 };
 
 export async function createRO(roNumber: string) {
+    const user = await getSessionUser();
+    if (!user) return { error: "Not signed in" };
+
     const supabase = await createServiceClient();
 
     if (!roNumber || roNumber.trim() === "") {
@@ -37,7 +98,7 @@ export async function createRO(roNumber: string) {
 
     const { data, error } = await supabase
         .from("ro")
-        .insert({ ro_number: roNumber.trim().toUpperCase() })
+        .insert({ ro_number: roNumber.trim().toUpperCase(), created_by: user.id })
         .select()
         .single();
 
@@ -48,16 +109,25 @@ export async function createRO(roNumber: string) {
         return { error: error.message };
     }
 
+    after(() => emitWebhookEvent("ro.created", {
+        ro_id: data.id,
+        ro_number: data.ro_number,
+        created_by: user.email,
+    }));
+
     revalidatePath("/");
     return { success: true, data };
 }
 
 export async function searchRO(query: string) {
+    const user = await getSessionUser();
+    if (!user) return { error: "Not signed in" };
+
     const supabase = await createServiceClient();
 
     const { data, error } = await supabase
         .from("ro")
-        .select("*")
+        .select(RO_SELECT)
         .ilike("ro_number", `%${query}%`)
         .order("created_at", { ascending: false })
         .limit(10);
@@ -70,11 +140,14 @@ export async function searchRO(query: string) {
 }
 
 export async function getRO(roNumber: string) {
+    const user = await getSessionUser();
+    if (!user) return { error: "Not signed in" };
+
     const supabase = await createServiceClient();
 
     const { data, error } = await supabase
         .from("ro")
-        .select("*")
+        .select(RO_SELECT)
         .eq("ro_number", roNumber)
         .single();
 
@@ -86,11 +159,14 @@ export async function getRO(roNumber: string) {
 }
 
 export async function getScannedParts(roId: string) {
+    const user = await getSessionUser();
+    if (!user) return { error: "Not signed in" };
+
     const supabase = await createServiceClient();
 
     const { data, error } = await supabase
         .from("ro_scanned_parts")
-        .select("*")
+        .select("*, scanned_by_profile:profiles!scanned_by(email, full_name)")
         .eq("ro_id", roId)
         .order("updated_at", { ascending: false });
 
@@ -101,10 +177,59 @@ export async function getScannedParts(roId: string) {
     return { success: true, data: data as ScannedPart[] };
 }
 
-export async function scanPart(roId: string, barcode: string) {
+// mutationId: set by the device outbox, a replay the server already applied changes nothing
+export async function scanPart(roId: string, barcode: string, deviceId: string, quantity: number = 1, gs1?: GS1Fields, mutationId?: string) {
+    const user = await getSessionUser();
+    if (!user) return { error: "Not signed in" };
+    if (!can(await getUserRole(user.id), "scan")) return { error: PERMISSION_DENIED };
+
+    const supabase = await createServiceClient();
+
+    if (!Number.isInteger(quantity) || quantity < 1) {
+        return { error: "Quantity must be at least 1" };
+    }
+
+    // Draft check and increment happen in one statement, see increment_scanned_part in schema.sql
+    const { data, error } = await supabase.rpc("increment_scanned_part", {
+        p_ro_id: roId,
+        p_barcode_value: barcode,
+        p_device_id: deviceId,
+        p_quantity: quantity,
+        p_user_id: user.id,
+        p_gs1: gs1 ?? null,
+        p_mutation_id: mutationId ?? null,
+    });
+
+    if (error) return { error: error.message };
+
+    const part = data as ScannedPart | null;
+    if (!part?.id) return { success: true }; // Already applied
+    after(() => emitWebhookEvent("part.scanned", async () => {
+        const { data: ro } = await supabase.from("ro").select("ro_number").eq("id", roId).single();
+        return {
+            ro_id: roId,
+            ro_number: ro?.ro_number,
+            barcode_value: barcode,
+            quantity, // added by this scan
+            device_quantity: part.quantity, // this device's running total on the line
+            device_id: deviceId,
+            scanned_by: user.email,
+            gs1: gs1 ?? null,
+        };
+    }));
+
+    revalidatePath(`/ro/[ro_number]`); // We'll need to pass ro_number or just revalidate generic
+    return { success: true, data: part };
+}
+
+// Take back one scan made on this device; its row goes away when it reaches zero
+export async function undoScan(roId: string, barcode: string, deviceId: string, quantity: number = 1) {
+    const user = await getSessionUser();
+    if (!user) return { error: "Not signed in" };
+    if (!can(await getUserRole(user.id), "scan")) return { error: PERMISSION_DENIED };
+
     const supabase = await createServiceClient();
 
-    // Check if RO is draft
     const { data: ro, error: roError } = await supabase
         .from("ro")
         .select("status")
@@ -114,78 +239,196 @@ export async function scanPart(roId: string, barcode: string) {
     if (roError || !ro) return { error: "RO not found" };
     if (ro.status !== "draft") return { error: "RO is already finalized" };
 
-    // Upsert part (increment if exists)
-    // We can't use simple upsert for incrementing without a function or two steps.
-    // Two steps is safer for now without custom SQL functions.
-
-    const { data: existing, error: fetchError } = await supabase
+    const { data: own, error: fetchError } = await supabase
         .from("ro_scanned_parts")
         .select("*")
         .eq("ro_id", roId)
         .eq("barcode_value", barcode)
-        .single();
+        .eq("device_id", deviceId)
+        .maybeSingle();
 
-    if (fetchError && fetchError.code !== "PGRST116") { // PGRST116 is not found
-        return { error: fetchError.message };
-    }
+    if (fetchError) return { error: fetchError.message };
+    if (!own) return { success: true }; // Nothing left to take back
 
-    let result;
-    if (existing) {
-        result = await supabase
+    const { error } = own.quantity > quantity
+        ? await supabase
             .from("ro_scanned_parts")
-            .update({ quantity: existing.quantity + 1, updated_at: new Date().toISOString() })
-            .eq("id", existing.id)
-            .select()
-            .single();
-    } else {
-        result = await supabase
+            .update({ quantity: own.quantity - quantity, scanned_by: user.id, updated_at: new Date().toISOString() })
+            .eq("id", own.id)
+        : await supabase
             .from("ro_scanned_parts")
-            .insert({ ro_id: roId, barcode_value: barcode, quantity: 1 })
-            .select()
-            .single();
-    }
+            .delete()
+            .eq("id", own.id);
 
-    if (result.error) {
-        return { error: result.error.message };
-    }
+    if (error) return { error: error.message };
 
-    revalidatePath(`/ro/[ro_number]`); // We'll need to pass ro_number or just revalidate generic
-    return { success: true, data: result.data };
+    revalidatePath(`/ro/[ro_number]`);
+    return { success: true };
 }
 
-export async function updatePartQuantity(scanId: string, quantity: number) {
+// Set the merged total of a line by adjusting only this device's row, in one statement (set_part_total
+// in schema.sql). If other devices changed the line since baseQuantity was read, or scanned more than
+// total, nothing is written and the current total is returned as a conflict for the user to resolve.
+export async function setPartTotal(roId: string, barcode: string, deviceId: string, total: number, baseQuantity: number) {
+    const user = await getSessionUser();
+    if (!user) return { error: "Not signed in" };
+    if (!can(await getUserRole(user.id), "editQuantity")) return { error: PERMISSION_DENIED };
+
     const supabase = await createServiceClient();
 
-    if (quantity < 1) {
+    if (!Number.isInteger(total) || total < 1) {
         return { error: "Quantity must be at least 1" };
     }
 
-    const { error } = await supabase
-        .from("ro_scanned_parts")
-        .update({ quantity, updated_at: new Date().toISOString() })
-        .eq("id", scanId);
+    const { data, error } = await supabase
+        .rpc("set_part_total", {
+            p_ro_id: roId,
+            p_barcode_value: barcode,
+            p_device_id: deviceId,
+            p_total: total,
+            p_base_quantity: baseQuantity,
+            p_user_id: user.id,
+        })
+        .single();
 
     if (error) return { error: error.message };
 
+    const result = data as { conflict: boolean; line_total: number };
+    if (result.conflict) return { conflict: true, remoteQuantity: result.line_total };
+
+    // No conflict means the line stood at baseQuantity
+    await logServerEvent(
+        supabase,
+        user.id,
+        { ro_id: roId, barcode_value: barcode },
+        "quantity",
+        { quantity: baseQuantity },
+        { quantity: result.line_total },
+        deviceId
+    );
+
     revalidatePath(`/ro/[ro_number]`);
     return { success: true };
 }
 
-export async function deletePart(scanId: string) {
+type ServiceClient = Awaited<ReturnType<typeof createServiceClient>>;
+
+// Audit event recorded by the server for an edit it applied, so the trail holds even if the device
+// never uploads its own. Written after the change succeeded; a failure here is logged, not returned.
+async function logServerEvent(
+    supabase: ServiceClient,
+    userId: string,
+    part: Pick<ScannedPart, "ro_id" | "barcode_value">,
+    eventType: ROEventType,
+    before: ROEventValues,
+    afterValues: ROEventValues | null,
+    deviceId?: string
+) {
+    const { error } = await supabase.from("ro_events").insert({
+        id: randomUUID(),
+        ro_id: part.ro_id,
+        event_type: eventType,
+        barcode_value: part.barcode_value,
+        before,
+        after: afterValues,
+        user_id: userId,
+        device_id: deviceId,
+        occurred_at: new Date().toISOString(),
+    });
+    if (error) console.error(`RO event ${eventType} not recorded:`, error.message);
+}
+
+// Removes a barcode from the RO for every device
+export async function deletePartLine(roId: string, barcode: string) {
+    const user = await getSessionUser();
+    if (!user) return { error: "Not signed in" };
+    if (!can(await getUserRole(user.id), "deletePart")) return { error: PERMISSION_DENIED };
+
     const supabase = await createServiceClient();
 
-    const { error } = await supabase
+    const { data: deleted, error } = await supabase
         .from("ro_scanned_parts")
         .delete()
-        .eq("id", scanId);
+        .eq("ro_id", roId)
+        .eq("barcode_value", barcode)
+        .select("quantity");
 
     if (error) return { error: error.message };
 
+    // A replayed delete finds nothing left, only the first one is recorded
+    if (deleted.length > 0) {
+        const quantity = deleted.reduce((sum, row) => sum + row.quantity, 0);
+        await logServerEvent(supabase, user.id, { ro_id: roId, barcode_value: barcode }, "delete", { quantity }, null);
+    }
+
+    revalidatePath(`/ro/[ro_number]`);
+    return { success: true };
+}
+
+export async function getExpectedParts(roId: string) {
+    const user = await getSessionUser();
+    if (!user) return { error: "Not signed in" };
+
+    const supabase = await createServiceClient();
+
+    const { data, error } = await supabase
+        .from("ro_expected_parts")
+        .select("barcode_value, expected_quantity")
+        .eq("ro_id", roId)
+        .order("barcode_value");
+
+    if (error) return { error: error.message };
+
+    return { success: true, data: data as ExpectedPart[] };
+}
+
+// Replaces the whole expected list of a draft RO
+export async function setExpectedParts(roId: string, expected: ExpectedPart[]) {
+    const user = await getSessionUser();
+    if (!user) return { error: "Not signed in" };
+    if (!can(await getUserRole(user.id), "setExpected")) return { error: PERMISSION_DENIED };
+
+    const supabase = await createServiceClient();
+
+    if (expected.some((e) => !e.barcode_value.trim() || !Number.isInteger(e.expected_quantity) || e.expected_quantity < 1)) {
+        return { error: "Every expected part needs a barcode and a quantity of at least 1" };
+    }
+
+    const { data: ro, error: roError } = await supabase
+        .from("ro")
+        .select("status")
+        .eq("id", roId)
+        .single();
+
+    if (roError || !ro) return { error: "RO not found" };
+    if (ro.status !== "draft") return { error: "RO is already finalized" };
+
+    const { error: deleteError } = await supabase
+        .from("ro_expected_parts")
+        .delete()
+        .eq("ro_id", roId);
+
+    if (deleteError) return { error: deleteError.message };
+
+    if (expected.length > 0) {
+        const { error } = await supabase
+            .from("ro_expected_parts")
+            .insert(expected.map((e) => ({ ro_id: roId, barcode_value: e.barcode_value, expected_quantity: e.expected_quantity })));
+
+        if (error) return { error: error.message };
+    }
+
     revalidatePath(`/ro/[ro_number]`);
     return { success: true };
 }
 
-export async function finalizeRO(roId: string, roNumber: string) {
+// deviceReconciliation: what the device showed when it was finalized offline. The server always
+// reconciles its own rows; when they no longer match what the user signed off on, nothing is finalized.
+export async function finalizeRO(roId: string, roNumber: string, overrideReason?: string, deviceReconciliation?: Reconciliation) {
+    const user = await getSessionUser();
+    if (!user) return { error: "Not signed in" };
+    if (!can(await getUserRole(user.id), "finalize")) return { error: PERMISSION_DENIED };
+
     const supabase = await createServiceClient();
 
     // 1. Verify RO is draft
@@ -207,6 +450,20 @@ export async function finalizeRO(roId: string, roNumber: string) {
     if (partsError) return { error: partsError.message };
     if (!parts || parts.length === 0) return { error: "Cannot finalize empty RO" };
 
+    // 2b. Discrepancies against the expected list need a written reason
+    const expectedRes = await getExpectedParts(roId);
+    if (expectedRes.error) return { error: expectedRes.error };
+
+    const reconciliation = reconcile(expectedRes.data, parts);
+    if (deviceReconciliation && !sameReconciliation(deviceReconciliation, reconciliation)) {
+        return { error: RECONCILIATION_CHANGED };
+    }
+
+    const reason = overrideReason?.trim() || null;
+    if (reconciliation.hasDiscrepancies && !reason) {
+        return { error: "Scanned parts do not match the expected list. An override reason is required." };
+    }
+
     // 3. Perform Transaction (Simulated via sequential operations as Supabase JS doesn't support explicit transactions easily without RPC)
     // Ideally we use an RPC function for this to be atomic.
     // For this task, I will create an RPC function in the schema if I could, but I already wrote the schema.
@@ -227,24 +484,262 @@ export async function finalizeRO(roId: string, roNumber: string) {
 
     const { data, error } = await supabase.rpc('finalize_ro', {
         p_ro_id: roId,
-        p_ro_number: roNumber
+        p_ro_number: roNumber,
+        p_override_reason: reason,
+        p_user_id: user.id
+    });
+
+    if (error) return { error: error.message };
+
+    // finalize_ro queued the snapshot for the DMS; send it and the webhooks once the response is out
+    after(() => Promise.all([
+        deliverDueDMS(),
+        emitWebhookEvent("ro.finalized", async () => {
+            const { data: entry } = await supabase
+                .from("ro_final_entries")
+                .select("id, version, finalized_at, override_reason")
+                .eq("ro_id", roId)
+                .order("version", { ascending: false })
+                .limit(1)
+                .single();
+            return {
+                ro_id: roId,
+                ro_number: roNumber,
+                final_entry_id: entry?.id,
+                version: entry?.version,
+                finalized_at: entry?.finalized_at,
+                override_reason: entry?.override_reason ?? null,
+                finalized_by: user.email,
+            };
+        }),
+    ]));
+
+    revalidatePath("/");
+    return { success: true };
+}
+
+export async function amendRO(roId: string, reason: string) {
+    const user = await getSessionUser();
+    if (!user) return { error: "Not signed in" };
+    if (!can(await getUserRole(user.id), "amend")) return { error: PERMISSION_DENIED };
+
+    const supabase = await createServiceClient();
+
+    if (!reason || reason.trim() === "") {
+        return { error: "An amend reason is required" };
+    }
+
+    const { error } = await supabase.rpc("amend_ro", {
+        p_ro_id: roId,
+        p_reason: reason.trim(),
+        p_user_id: user.id,
     });
 
     if (error) return { error: error.message };
 
+    after(() => emitWebhookEvent("ro.amended", async () => {
+        const { data: ro } = await supabase.from("ro").select("ro_number").eq("id", roId).single();
+        return { ro_id: roId, ro_number: ro?.ro_number, reason: reason.trim(), amended_by: user.email };
+    }));
+
     revalidatePath("/");
+    revalidatePath("/finals");
     return { success: true };
 }
 
-export async function getFinalizedEntries() {
+export async function getFinalEntry(finalEntryId: string) {
+    const user = await getSessionUser();
+    if (!user) return { error: "Not signed in" };
+
     const supabase = await createServiceClient();
 
     const { data, error } = await supabase
         .from("ro_final_entries")
+        .select("*, finalized_by_profile:profiles!finalized_by(email, full_name)")
+        .eq("id", finalEntryId)
+        .maybeSingle();
+
+    if (error) return { error: error.message };
+    if (!data) return { error: "Final entry not found" };
+
+    return { success: true, data: data as FinalEntry };
+}
+
+export async function getFinalParts(finalEntryId: string) {
+    const user = await getSessionUser();
+    if (!user) return { error: "Not signed in" };
+
+    const supabase = await createServiceClient();
+
+    const { data, error } = await supabase
+        .from("ro_final_parts")
         .select("*")
-        .order("finalized_at", { ascending: false });
+        .eq("final_entry_id", finalEntryId)
+        .order("barcode_value");
+
+    if (error) return { error: error.message };
+
+    return { success: true, data: data as FinalPart[] };
+}
+
+const FINAL_ENTRY_SELECT = "*, finalized_by_profile:profiles!finalized_by(email, full_name)";
+
+// One page of final entries matching the filters, plus every version of the ROs on that page for the history view
+export async function getFinalizedEntries(filters: FinalsFilters = { sort: "newest", page: 1 }) {
+    const user = await getSessionUser();
+    if (!user) return { error: "Not signed in" };
+
+    const supabase = await createServiceClient();
+
+    // "Contains barcode" joins the snapshot lines, !inner drops entries without a match
+    let query = supabase
+        .from("ro_final_entries")
+        .select(filters.barcode ? `${FINAL_ENTRY_SELECT}, ro_final_parts!inner(barcode_value)` : FINAL_ENTRY_SELECT, { count: "exact" });
+
+    if (filters.barcode) query = query.eq("ro_final_parts.barcode_value", filters.barcode);
+    if (filters.from) query = query.gte("finalized_at", filters.from);
+    if (filters.to) {
+        const end = new Date(`${filters.to}T00:00:00Z`);
+        end.setUTCDate(end.getUTCDate() + 1);
+        query = query.lt("finalized_at", end.toISOString());
+    }
+    if (filters.ro) query = query.ilike("ro_number", `%${filters.ro.replace(/[%_\\]/g, "")}%`);
+    if (filters.finalizedBy) query = query.eq("finalized_by", filters.finalizedBy);
+
+    query = filters.sort === "ro"
+        ? query.order("ro_number").order("version", { ascending: false })
+        : query.order("finalized_at", { ascending: filters.sort === "oldest" });
+    query = query.order("id"); // Tie-breaker, so equal sort keys can't shift between pages
+
+    const from = (filters.page - 1) * FINALS_PAGE_SIZE;
+    const { data, count, error } = await query.range(from, from + FINALS_PAGE_SIZE - 1);
+
+    if (error) return { error: error.message };
+
+    const entries = (data || []) as unknown as FinalEntry[];
+    const roIds = [...new Set(entries.map((e) => e.ro_id))];
+
+    const { data: versions, error: versionsError } = roIds.length > 0
+        ? await supabase.from("ro_final_entries").select(FINAL_ENTRY_SELECT).in("ro_id", roIds)
+        : { data: [], error: null };
+
+    if (versionsError) return { error: versionsError.message };
+
+    return {
+        success: true,
+        data: entries,
+        versions: (versions || []) as FinalEntry[],
+        total: count ?? entries.length,
+    };
+}
+
+const EXPORT_PAGE_SIZE = 1000; // PostgREST default max rows
+
+// Every final entry in an inclusive date range with its snapshot lines, oldest first, for the batch export
+export async function getFinalsForExport(from: string, to: string) {
+    const user = await getSessionUser();
+    if (!user) return { error: "Not signed in" };
+    if (!can(await getUserRole(user.id), "export")) return { error: PERMISSION_DENIED };
+
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(from) || !/^\d{4}-\d{2}-\d{2}$/.test(to)) return { error: "Invalid date range" };
+    if (from > to) return { error: "The start date is after the end date" };
+
+    const supabase = await createServiceClient();
+    const end = new Date(`${to}T00:00:00Z`);
+    end.setUTCDate(end.getUTCDate() + 1);
+
+    const entries: (FinalEntry & { parts: Pick<FinalPart, "barcode_value" | "quantity">[] })[] = [];
+    for (let start = 0; ; start += EXPORT_PAGE_SIZE) {
+        const { data, error } = await supabase
+            .from("ro_final_entries")
+            .select(`${FINAL_ENTRY_SELECT}, parts:ro_final_parts(barcode_value, quantity)`)
+            .gte("finalized_at", `${from}T00:00:00Z`)
+            .lt("finalized_at", end.toISOString())
+            .order("finalized_at")
+            .order("id") // Tie-breaker, so no entry is skipped or repeated across pages
+            .range(start, start + EXPORT_PAGE_SIZE - 1);
+
+        if (error) return { error: error.message };
+
+        entries.push(...((data || []) as unknown as typeof entries));
+        if (!data || data.length < EXPORT_PAGE_SIZE) break;
+    }
+
+    return { success: true, data: entries };
+}
+
+// Names for the finalizer filter
+export async function listProfiles() {
+    const user = await getSessionUser();
+    if (!user) return { error: "Not signed in" };
+
+    const supabase = await createServiceClient();
+
+    const { data, error } = await supabase
+        .from("profiles")
+        .select("id, email, full_name")
+        .order("email");
+
+    if (error) return { error: error.message };
+
+    return { success: true, data: data as (UserRef & { id: string })[] };
+}
+
+// Append events recorded on a device; ids already on the server are skipped, so retries are safe.
+// Only the input fields are copied, the user always comes from the session.
+export async function recordEvents(roId: string, events: ROEventInput[]) {
+    const user = await getSessionUser();
+    if (!user) return { error: "Not signed in" };
+    if (!can(await getUserRole(user.id), "scan")) return { error: PERMISSION_DENIED };
+
+    if (events.length === 0) return { success: true };
+
+    const supabase = await createServiceClient();
+
+    const { data: ro, error: roError } = await supabase
+        .from("ro")
+        .select("id")
+        .eq("id", roId)
+        .single();
+
+    if (roError || !ro) return { error: "RO not found" };
+
+    const { error } = await supabase
+        .from("ro_events")
+        .upsert(
+            events.map((e) => ({
+                id: e.id,
+                ro_id: roId,
+                event_type: e.event_type,
+                barcode_value: e.barcode_value,
+                before: e.before,
+                after: e.after,
+                reason: e.reason,
+                user_id: user.id,
+                device_id: e.device_id,
+                occurred_at: e.occurred_at,
+            })),
+            { onConflict: "id", ignoreDuplicates: true }
+        );
+
+    if (error) return { error: error.message };
+
+    return { success: true };
+}
+
+export async function getEvents(roId: string) {
+    const user = await getSessionUser();
+    if (!user) return { error: "Not signed in" };
+
+    const supabase = await createServiceClient();
+
+    const { data, error } = await supabase
+        .from("ro_events")
+        .select("*, user:profiles!user_id(email, full_name)")
+        .eq("ro_id", roId)
+        .order("occurred_at");
 
     if (error) return { error: error.message };
 
-    return { success: true, data: data as FinalEntry[] };
+    return { success: true, data: data as ROEvent[] };
 }
@@ -0,0 +1,62 @@
+"use server";
+
+import { createServiceClient, getSessionUser, getUserRole } from "@/utils/supabase/server";
+import { can, PERMISSION_DENIED } from "@/utils/permissions";
+import { revalidatePath } from "next/cache";
+import { BarcodeRules, DEFAULT_BARCODE_RULES, SYMBOLOGIES, validatePattern } from "@/utils/barcode-rules";
+
+export async function getScannerRules() {
+    const user = await getSessionUser();
+    if (!user) return { error: "Not signed in" };
+
+    const supabase = await createServiceClient();
+
+    const { data, error } = await supabase
+        .from("scanner_rules")
+        .select("rules")
+        .eq("id", 1)
+        .maybeSingle();
+
+    if (error) return { error: error.message };
+
+    // Nothing saved yet: everyone uses the defaults
+    return { success: true, data: { ...DEFAULT_BARCODE_RULES, ...(data?.rules || {}) } as BarcodeRules };
+}
+
+export async function saveScannerRules(rules: BarcodeRules) {
+    const user = await getSessionUser();
+    if (!user) return { error: "Not signed in" };
+    if (!can(await getUserRole(user.id), "manageCatalog")) return { error: PERMISSION_DENIED };
+
+    if (rules.symbologies.length === 0) {
+        return { error: "Allow at least one barcode type" };
+    }
+    if (rules.symbologies.some((s) => !SYMBOLOGIES.some((known) => known.symbology === s))) {
+        return { error: "Unknown barcode type" };
+    }
+    if (!Number.isInteger(rules.minLength) || rules.minLength < 1) {
+        return { error: "Minimum length must be at least 1" };
+    }
+    if (rules.roPattern) {
+        const invalid = validatePattern(rules.roPattern);
+        if (invalid) return { error: `Invalid RO number pattern: ${invalid}` };
+    }
+    for (const { supplier, pattern } of rules.supplierPatterns) {
+        if (!supplier.trim() || !pattern.trim()) {
+            return { error: "Every supplier pattern needs a supplier name and a pattern" };
+        }
+        const invalid = validatePattern(pattern);
+        if (invalid) return { error: `Invalid pattern for ${supplier}: ${invalid}` };
+    }
+
+    const supabase = await createServiceClient();
+
+    const { error } = await supabase
+        .from("scanner_rules")
+        .upsert({ id: 1, rules, updated_at: new Date().toISOString(), updated_by: user.id });
+
+    if (error) return { error: error.message };
+
+    revalidatePath("/admin/barcode-rules");
+    return { success: true };
+}
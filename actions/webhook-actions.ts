@@ -0,0 +1,236 @@
+"use server";
+
+import { createServiceClient, getSessionUser, getUserRole } from "@/utils/supabase/server";
+import { can, PERMISSION_DENIED } from "@/utils/permissions";
+import { deliverWebhook, generateWebhookSecret, queueWebhookDeliveries } from "@/utils/webhooks";
+import { WEBHOOK_EVENTS, WebhookDeliveryStatus, WebhookEvent, WebhookPayload } from "@/utils/webhook-events";
+import { revalidatePath } from "next/cache";
+
+export type Webhook = {
+    id: string;
+    url: string;
+    description?: string | null;
+    events: WebhookEvent[];
+    secret: string;
+    active: boolean;
+    created_at: string;
+};
+
+export type WebhookDelivery = {
+    id: string;
+    webhook_id: string;
+    event: WebhookPayload["event"];
+    payload: WebhookPayload;
+    status: WebhookDeliveryStatus;
+    attempts: number;
+    next_attempt_at?: string | null;
+    last_error?: string | null;
+    last_response_status?: number | null;
+    delivered_at?: string | null;
+    created_at: string;
+};
+
+export type WebhookInput = Pick<Webhook, "url" | "description" | "events" | "active">;
+
+const DELIVERIES_LIMIT = 100;
+
+function validate(input: WebhookInput): string | null {
+    try {
+        const url = new URL(input.url.trim());
+        if (url.protocol !== "https:" && url.protocol !== "http:") return "The URL must start with http:// or https://";
+    } catch {
+        return "Enter a valid URL";
+    }
+    if (input.events.length === 0) return "Pick at least one event";
+    if (input.events.some((e) => !WEBHOOK_EVENTS.some((w) => w.event === e))) return "Unknown event";
+    return null;
+}
+
+export async function listWebhooks() {
+    const user = await getSessionUser();
+    if (!user) return { error: "Not signed in" };
+    if (!can(await getUserRole(user.id), "manageIntegrations")) return { error: PERMISSION_DENIED };
+
+    const supabase = await createServiceClient();
+
+    const { data, error } = await supabase
+        .from("webhooks")
+        .select("*")
+        .order("created_at");
+
+    if (error) return { error: error.message };
+
+    return { success: true, data: data as Webhook[] };
+}
+
+export async function createWebhook(input: WebhookInput) {
+    const user = await getSessionUser();
+    if (!user) return { error: "Not signed in" };
+    if (!can(await getUserRole(user.id), "manageIntegrations")) return { error: PERMISSION_DENIED };
+
+    const invalid = validate(input);
+    if (invalid) return { error: invalid };
+
+    const supabase = await createServiceClient();
+
+    const { data, error } = await supabase
+        .from("webhooks")
+        .insert({
+            url: input.url.trim(),
+            description: input.description?.trim() || null,
+            events: input.events,
+            active: input.active,
+            secret: generateWebhookSecret(),
+            created_by: user.id,
+        })
+        .select()
+        .single();
+
+    if (error) return { error: error.message };
+
+    revalidatePath("/admin/webhooks");
+    return { success: true, data: data as Webhook };
+}
+
+export async function updateWebhook(id: string, input: WebhookInput) {
+    const user = await getSessionUser();
+    if (!user) return { error: "Not signed in" };
+    if (!can(await getUserRole(user.id), "manageIntegrations")) return { error: PERMISSION_DENIED };
+
+    const invalid = validate(input);
+    if (invalid) return { error: invalid };
+
+    const supabase = await createServiceClient();
+
+    const { data, error } = await supabase
+        .from("webhooks")
+        .update({
+            url: input.url.trim(),
+            description: input.description?.trim() || null,
+            events: input.events,
+            active: input.active,
+        })
+        .eq("id", id)
+        .select()
+        .single();
+
+    if (error) return { error: error.message };
+
+    revalidatePath("/admin/webhooks");
+    return { success: true, data: data as Webhook };
+}
+
+// The old secret stops working at once, receivers need the new one
+export async function rotateWebhookSecret(id: string) {
+    const user = await getSessionUser();
+    if (!user) return { error: "Not signed in" };
+    if (!can(await getUserRole(user.id), "manageIntegrations")) return { error: PERMISSION_DENIED };
+
+    const supabase = await createServiceClient();
+
+    const { data, error } = await supabase
+        .from("webhooks")
+        .update({ secret: generateWebhookSecret() })
+        .eq("id", id)
+        .select()
+        .single();
+
+    if (error) return { error: error.message };
+
+    return { success: true, data: data as Webhook };
+}
+
+export async function deleteWebhook(id: string) {
+    const user = await getSessionUser();
+    if (!user) return { error: "Not signed in" };
+    if (!can(await getUserRole(user.id), "manageIntegrations")) return { error: PERMISSION_DENIED };
+
+    const supabase = await createServiceClient();
+
+    const { error } = await supabase.from("webhooks").delete().eq("id", id);
+    if (error) return { error: error.message };
+
+    revalidatePath("/admin/webhooks");
+    return { success: true };
+}
+
+export async function getWebhook(id: string) {
+    const user = await getSessionUser();
+    if (!user) return { error: "Not signed in" };
+    if (!can(await getUserRole(user.id), "manageIntegrations")) return { error: PERMISSION_DENIED };
+
+    const supabase = await createServiceClient();
+
+    const { data, error } = await supabase
+        .from("webhooks")
+        .select("*")
+        .eq("id", id)
+        .maybeSingle();
+
+    if (error) return { error: error.message };
+    if (!data) return { error: "Webhook not found" };
+
+    return { success: true, data: data as Webhook };
+}
+
+// The delivery log of one webhook, newest first
+export async function listWebhookDeliveries(webhookId: string) {
+    const user = await getSessionUser();
+    if (!user) return { error: "Not signed in" };
+    if (!can(await getUserRole(user.id), "manageIntegrations")) return { error: PERMISSION_DENIED };
+
+    const supabase = await createServiceClient();
+
+    const { data, error } = await supabase
+        .from("webhook_deliveries")
+        .select("*")
+        .eq("webhook_id", webhookId)
+        .order("created_at", { ascending: false })
+        .limit(DELIVERIES_LIMIT);
+
+    if (error) return { error: error.message };
+
+    return { success: true, data: data as WebhookDelivery[] };
+}
+
+// Sends a delivery again with fresh retries, the payload and its id stay the same
+export async function resendWebhookDelivery(deliveryId: string) {
+    const user = await getSessionUser();
+    if (!user) return { error: "Not signed in" };
+    if (!can(await getUserRole(user.id), "manageIntegrations")) return { error: PERMISSION_DENIED };
+
+    const supabase = await createServiceClient();
+
+    const { error } = await supabase
+        .from("webhook_deliveries")
+        .update({ status: "pending", attempts: 0, next_attempt_at: new Date().toISOString() })
+        .eq("id", deliveryId);
+
+    if (error) return { error: error.message };
+
+    const result = await deliverWebhook(deliveryId);
+    revalidatePath("/admin/webhooks/[id]", "page");
+
+    if (!result.ok && !result.skipped) return { error: result.error || "Delivery failed, it will be retried" };
+    return { success: true };
+}
+
+// A ping event to this webhook only, to check the URL and the receiver's signature check
+export async function sendTestWebhook(webhookId: string) {
+    const user = await getSessionUser();
+    if (!user) return { error: "Not signed in" };
+    if (!can(await getUserRole(user.id), "manageIntegrations")) return { error: PERMISSION_DENIED };
+
+    let ids: string[];
+    try {
+        ids = await queueWebhookDeliveries([webhookId], "ping", { webhook_id: webhookId });
+    } catch (err) {
+        return { error: (err as Error).message };
+    }
+
+    const result = await deliverWebhook(ids[0]);
+    revalidatePath("/admin/webhooks/[id]", "page");
+
+    if (!result.ok) return { error: result.error || "Test delivery failed" };
+    return { success: true };
+}
@@ -0,0 +1,13 @@
+import { getScannerRules } from "@/actions/scanner-actions";
+import { getCurrentUser } from "@/actions/auth-actions";
+import BarcodeRulesForm from "@/components/BarcodeRulesForm";
+import { can } from "@/utils/permissions";
+import { DEFAULT_BARCODE_RULES } from "@/utils/barcode-rules";
+
+export const dynamic = "force-dynamic";
+
+export default async function BarcodeRulesPage() {
+    const [{ data }, { data: user }] = await Promise.all([getScannerRules(), getCurrentUser()]);
+
+    return <BarcodeRulesForm rules={data || DEFAULT_BARCODE_RULES} canEdit={can(user?.role, "manageCatalog")} />;
+}
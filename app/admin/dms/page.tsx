@@ -0,0 +1,24 @@
+import { listDMSDeliveries } from "@/actions/dms-actions";
+import DMSDeliveries from "@/components/DMSDeliveries";
+import { DMS_MAX_ATTEMPTS, DMSDeliveryStatus, getDMSAdapter } from "@/utils/dms";
+
+export const dynamic = "force-dynamic";
+
+const STATUSES: DMSDeliveryStatus[] = ["pending", "delivered", "dead"];
+
+export default async function DMSPage({ searchParams }: { searchParams: Promise<Record<string, string | string[] | undefined>> }) {
+    const { status: param } = await searchParams;
+    const status = STATUSES.find((s) => s === param);
+    const { data, error } = await listDMSDeliveries(status);
+
+    return (
+        <DMSDeliveries
+            key={status ?? "all"}
+            deliveries={data || []}
+            status={status}
+            configured={getDMSAdapter() !== null}
+            maxAttempts={DMS_MAX_ATTEMPTS}
+            error={error}
+        />
+    );
+}
@@ -0,0 +1,10 @@
+import { listUsers } from "@/actions/admin-actions";
+import UserAdmin from "@/components/UserAdmin";
+
+export const dynamic = "force-dynamic";
+
+export default async function UsersPage() {
+    const { data, error } = await listUsers();
+
+    return <UserAdmin users={data || []} error={error} />;
+}
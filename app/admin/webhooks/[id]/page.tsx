@@ -0,0 +1,22 @@
+import { notFound } from "next/navigation";
+import { getWebhook, listWebhookDeliveries } from "@/actions/webhook-actions";
+import WebhookDeliveries from "@/components/WebhookDeliveries";
+import { WEBHOOK_MAX_ATTEMPTS } from "@/utils/webhook-events";
+
+export const dynamic = "force-dynamic";
+
+export default async function WebhookLogPage({ params }: { params: Promise<{ id: string }> }) {
+    const { id } = await params;
+
+    const [webhookRes, deliveriesRes] = await Promise.all([getWebhook(id), listWebhookDeliveries(id)]);
+    if (!webhookRes.data && webhookRes.error === "Webhook not found") notFound();
+
+    return (
+        <WebhookDeliveries
+            webhook={webhookRes.data}
+            deliveries={deliveriesRes.data || []}
+            maxAttempts={WEBHOOK_MAX_ATTEMPTS}
+            error={webhookRes.error || deliveriesRes.error}
+        />
+    );
+}
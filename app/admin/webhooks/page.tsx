@@ -0,0 +1,10 @@
+import { listWebhooks } from "@/actions/webhook-actions";
+import WebhookAdmin from "@/components/WebhookAdmin";
+
+export const dynamic = "force-dynamic";
+
+export default async function WebhooksPage() {
+    const { data, error } = await listWebhooks();
+
+    return <WebhookAdmin webhooks={data || []} error={error} />;
+}
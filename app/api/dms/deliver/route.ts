@@ -0,0 +1,15 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { deliverDueDMS } from "@/utils/dms";
+
+export const dynamic = "force-dynamic";
+
+// Retries due DMS deliveries. Call it every minute or so from a cron with "Authorization: Bearer $CRON_SECRET".
+export async function GET(request: NextRequest) {
+    const secret = process.env.CRON_SECRET;
+    if (!secret || request.headers.get("authorization") !== `Bearer ${secret}`) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const result = await deliverDueDMS();
+    return NextResponse.json(result, { status: result.error ? 500 : 200 });
+}
@@ -0,0 +1,31 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { SIGNATURE_HEADER, TIMESTAMP_HEADER, verifySignature } from "@/utils/signature";
+import type { DMSPayload } from "@/utils/dms";
+
+export const dynamic = "force-dynamic";
+
+// Stand-in DMS for trying the integration locally: point DMS_ENDPOINT_URL at /api/dms/mock.
+// It checks the signature and logs the snapshot; ?fail=1 answers 500 to exercise the retries.
+// Off in production unless DMS_MOCK=1.
+export async function POST(request: NextRequest) {
+    if (process.env.NODE_ENV === "production" && process.env.DMS_MOCK !== "1") {
+        return NextResponse.json({ error: "Not found" }, { status: 404 });
+    }
+
+    const body = await request.text();
+    const secret = process.env.DMS_SIGNING_SECRET || "";
+    if (!verifySignature(secret, body, request.headers.get(SIGNATURE_HEADER), request.headers.get(TIMESTAMP_HEADER))) {
+        return NextResponse.json({ error: "Bad signature" }, { status: 401 });
+    }
+
+    if (request.nextUrl.searchParams.get("fail") === "1") {
+        return NextResponse.json({ error: "Mock failure" }, { status: 500 });
+    }
+
+    const payload = JSON.parse(body) as DMSPayload;
+    console.log(
+        `[dms mock] ${payload.ro_number} v${payload.version}: ${payload.parts.length} lines`,
+        `(key ${request.headers.get("idempotency-key")})`
+    );
+    return NextResponse.json({ received: payload.final_entry_id });
+}
@@ -0,0 +1,9 @@
+import CatalogImport from "@/components/CatalogImport";
+
+export default function CatalogImportPage() {
+    return (
+        <main className="min-h-screen bg-background">
+            <CatalogImport />
+        </main>
+    );
+}
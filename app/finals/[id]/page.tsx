@@ -0,0 +1,32 @@
+import { notFound } from "next/navigation";
+import { getFinalEntry, getFinalParts } from "@/actions/ro-actions";
+import { lookupCatalog } from "@/actions/catalog-actions";
+import { getPhotos } from "@/actions/photo-actions";
+import FinalDetail from "@/components/FinalDetail";
+
+export const dynamic = "force-dynamic";
+
+export default async function FinalEntryPage({ params }: { params: Promise<{ id: string }> }) {
+    const { id } = await params;
+
+    const [entryRes, partsRes] = await Promise.all([getFinalEntry(id), getFinalParts(id)]);
+    if (!entryRes.data) notFound();
+
+    const parts = partsRes.data || [];
+    const [catalogRes, photosRes] = await Promise.all([
+        lookupCatalog(parts.map((p) => p.barcode_value)),
+        getPhotos(entryRes.data.ro_id),
+    ]);
+
+    return (
+        <main className="min-h-screen bg-background">
+            <FinalDetail
+                entry={entryRes.data}
+                parts={parts}
+                catalog={catalogRes.data || []}
+                photos={photosRes.data || []}
+                error={partsRes.error}
+            />
+        </main>
+    );
+}
@@ -0,0 +1,19 @@
+import { getCurrentUser } from "@/actions/auth-actions";
+import BatchExport from "@/components/BatchExport";
+import { can } from "@/utils/permissions";
+
+export const dynamic = "force-dynamic";
+
+export default async function BatchExportPage() {
+    const { data: user } = await getCurrentUser();
+
+    // Default: this month so far
+    const today = new Date().toISOString().slice(0, 10);
+    const from = `${today.slice(0, 8)}01`;
+
+    return (
+        <main className="min-h-screen bg-background">
+            <BatchExport from={from} to={today} canExport={can(user?.role, "export")} />
+        </main>
+    );
+}
@@ -1,10 +1,29 @@
-import { getFinalizedEntries } from "@/actions/ro-actions";
+import { getFinalizedEntries, listProfiles } from "@/actions/ro-actions";
+import { getCurrentUser } from "@/actions/auth-actions";
 import FinalsList from "@/components/FinalsList";
+import { can } from "@/utils/permissions";
+import { finalsQueryString, parseFinalsFilters } from "@/utils/finals-filters";
 
 export const dynamic = "force-dynamic";
 
-export default async function FinalsPage() {
-    const { data } = await getFinalizedEntries();
+export default async function FinalsPage({ searchParams }: { searchParams: Promise<Record<string, string | string[] | undefined>> }) {
+    const filters = parseFinalsFilters(await searchParams);
+    const [res, { data: user }, { data: people }] = await Promise.all([
+        getFinalizedEntries(filters),
+        getCurrentUser(),
+        listProfiles(),
+    ]);
 
-    return <FinalsList entries={data || []} />;
+    return (
+        <FinalsList
+            key={finalsQueryString(filters)} // fresh filter form state after navigating
+            entries={res.data || []}
+            versions={res.versions || []}
+            total={res.total || 0}
+            filters={filters}
+            people={people || []}
+            canExport={can(user?.role, "export")}
+            error={res.error}
+        />
+    );
 }
@@ -1,5 +1,6 @@
 import type { Metadata, Viewport } from "next";
 import "./globals.css";
+import SyncManager from "@/components/SyncManager";
 
 export const metadata: Metadata = {
   title: "Auto Parts Tracker",
@@ -31,6 +32,7 @@ export default function RootLayout({
         <link rel="manifest" href="/manifest.json" />
       </head>
       <body className="antialiased">
+        <SyncManager />
         {children}
       </body>
     </html>
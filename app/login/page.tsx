@@ -0,0 +1,11 @@
+import LoginForm from "@/components/LoginForm";
+
+export default async function LoginPage({ searchParams }: { searchParams: Promise<{ next?: string }> }) {
+    const { next } = await searchParams;
+
+    return (
+        <main className="min-h-screen bg-background">
+            <LoginForm next={next} />
+        </main>
+    );
+}
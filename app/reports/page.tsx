@@ -0,0 +1,27 @@
+import { getPartsUsage } from "@/actions/report-actions";
+import UsageReport from "@/components/UsageReport";
+
+export const dynamic = "force-dynamic";
+
+const DATE = /^\d{4}-\d{2}-\d{2}$/;
+const DEFAULT_WEEKS = 12;
+
+function param(value: string | string[] | undefined) {
+    const v = Array.isArray(value) ? value[0] : value;
+    return v && DATE.test(v) ? v : undefined;
+}
+
+export default async function ReportsPage({ searchParams }: { searchParams: Promise<Record<string, string | string[] | undefined>> }) {
+    const params = await searchParams;
+
+    // Default: the last 12 weeks up to today
+    const today = new Date();
+    const start = new Date(today);
+    start.setUTCDate(start.getUTCDate() - DEFAULT_WEEKS * 7 + 1);
+    const from = param(params.from) ?? start.toISOString().slice(0, 10);
+    const to = param(params.to) ?? today.toISOString().slice(0, 10);
+
+    const { data, error } = await getPartsUsage(from, to);
+
+    return <UsageReport key={`${from}:${to}`} report={data} from={from} to={to} error={error} />;
+}
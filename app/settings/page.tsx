@@ -0,0 +1,9 @@
+import ScannerSettings from "@/components/ScannerSettings";
+
+export default function SettingsPage() {
+    return (
+        <main className="min-h-screen bg-background">
+            <ScannerSettings />
+        </main>
+    );
+}
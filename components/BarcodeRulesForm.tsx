@@ -0,0 +1,203 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { ChevronLeft, Loader2, Plus, Save, Trash2 } from "lucide-react";
+import { saveScannerRules } from "@/actions/scanner-actions";
+import {
+    BarcodeRules,
+    checkBarcode,
+    setBarcodeRules,
+    Symbology,
+    SYMBOLOGIES,
+    validatePattern,
+} from "@/utils/barcode-rules";
+
+export default function BarcodeRulesForm({ rules: initial, canEdit }: { rules: BarcodeRules; canEdit: boolean }) {
+    const [rules, setRules] = useState<BarcodeRules>(initial);
+    const [isSaving, setIsSaving] = useState(false);
+    const [error, setError] = useState("");
+    const [message, setMessage] = useState("");
+    const [testCode, setTestCode] = useState("");
+
+    const update = (changes: Partial<BarcodeRules>) => {
+        setRules({ ...rules, ...changes });
+        setMessage("");
+    };
+
+    const toggleSymbology = (symbology: Symbology) => {
+        update({
+            symbologies: rules.symbologies.includes(symbology)
+                ? rules.symbologies.filter((s) => s !== symbology)
+                : [...rules.symbologies, symbology],
+        });
+    };
+
+    const updatePattern = (index: number, changes: Partial<BarcodeRules["supplierPatterns"][number]>) => {
+        update({ supplierPatterns: rules.supplierPatterns.map((p, i) => i === index ? { ...p, ...changes } : p) });
+    };
+
+    const handleSave = async () => {
+        setIsSaving(true);
+        setError("");
+        const res = await saveScannerRules(rules);
+        if (res.error) {
+            setError(res.error);
+        } else {
+            setBarcodeRules(rules); // This device right away, others on their next sync
+            setMessage("Rules saved.");
+        }
+        setIsSaving(false);
+    };
+
+    const test = testCode.trim() ? checkBarcode(testCode.trim().toUpperCase(), rules) : null;
+
+    return (
+        <div className="container-mobile space-y-6">
+            <header className="flex items-center gap-4">
+                <Link href="/" className="text-gray-500">
+                    <ChevronLeft className="w-6 h-6" />
+                </Link>
+                <h1 className="text-2xl font-bold">Barcode Rules</h1>
+            </header>
+
+            {error && <p className="text-red-500 text-sm">{error}</p>}
+            {message && <p className="text-green-600 text-sm">{message}</p>}
+
+            <fieldset disabled={!canEdit} className="space-y-6">
+                <section className="card space-y-3">
+                    <h2 className="text-lg font-semibold">Allowed Barcode Types</h2>
+                    <div className="grid grid-cols-2 gap-2">
+                        {SYMBOLOGIES.map(({ symbology, label }) => (
+                            <label key={symbology} className="flex items-center gap-2 text-sm">
+                                <input
+                                    type="checkbox"
+                                    checked={rules.symbologies.includes(symbology)}
+                                    onChange={() => toggleSymbology(symbology)}
+                                />
+                                {label}
+                            </label>
+                        ))}
+                    </div>
+                </section>
+
+                <section className="card space-y-3">
+                    <h2 className="text-lg font-semibold">Checks</h2>
+                    <label className="flex items-center gap-2 text-sm">
+                        <input
+                            type="checkbox"
+                            checked={rules.checkDigits}
+                            onChange={(e) => update({ checkDigits: e.target.checked })}
+                        />
+                        Verify EAN/UPC check digits
+                    </label>
+                    <label className="flex items-center gap-2 text-sm">
+                        <input
+                            type="checkbox"
+                            checked={rules.rejectVins}
+                            onChange={(e) => update({ rejectVins: e.target.checked })}
+                        />
+                        Reject VINs
+                    </label>
+                    <label className="flex items-center gap-2 text-sm">
+                        Minimum length
+                        <input
+                            type="number"
+                            min={1}
+                            className="w-16 p-1 border rounded text-center"
+                            value={rules.minLength}
+                            onChange={(e) => update({ minLength: parseInt(e.target.value) || 1 })}
+                        />
+                    </label>
+                </section>
+
+                <section className="card space-y-3">
+                    <h2 className="text-lg font-semibold">RO Numbers</h2>
+                    <p className="text-sm text-gray-500">
+                        Regular expression for the RO barcode on the repair order paperwork. When set, the Dashboard
+                        only accepts RO numbers and the RO screen rejects them as parts.
+                    </p>
+                    <input
+                        type="text"
+                        placeholder="e.g. R[0-9]{5,6}"
+                        className="input py-2 text-base font-mono"
+                        value={rules.roPattern}
+                        onChange={(e) => update({ roPattern: e.target.value })}
+                    />
+                    {rules.roPattern && validatePattern(rules.roPattern) && (
+                        <p className="text-xs text-red-500">{validatePattern(rules.roPattern)}</p>
+                    )}
+                </section>
+
+                <section className="card space-y-3">
+                    <h2 className="text-lg font-semibold">Supplier Patterns</h2>
+                    <p className="text-sm text-gray-500">
+                        When any are set, a barcode must fully match one of these regular expressions.
+                    </p>
+                    {rules.supplierPatterns.map((p, i) => {
+                        const invalid = p.pattern ? validatePattern(p.pattern) : null;
+                        return (
+                            <div key={i} className="space-y-1">
+                                <div className="flex gap-2">
+                                    <input
+                                        type="text"
+                                        placeholder="Supplier"
+                                        className="input py-2 text-base w-1/3"
+                                        value={p.supplier}
+                                        onChange={(e) => updatePattern(i, { supplier: e.target.value })}
+                                    />
+                                    <input
+                                        type="text"
+                                        placeholder="e.g. AC[0-9]{6}"
+                                        className="input py-2 text-base font-mono flex-1 min-w-0"
+                                        value={p.pattern}
+                                        onChange={(e) => updatePattern(i, { pattern: e.target.value })}
+                                    />
+                                    <button
+                                        onClick={() => update({ supplierPatterns: rules.supplierPatterns.filter((_, j) => j !== i) })}
+                                        className="text-red-500 p-1 bg-red-50 rounded"
+                                    >
+                                        <Trash2 className="w-4 h-4" />
+                                    </button>
+                                </div>
+                                {invalid && <p className="text-xs text-red-500">{invalid}</p>}
+                            </div>
+                        );
+                    })}
+                    <button
+                        onClick={() => update({ supplierPatterns: [...rules.supplierPatterns, { supplier: "", pattern: "" }] })}
+                        className="text-sm text-blue-600 font-medium flex items-center gap-1"
+                    >
+                        <Plus className="w-4 h-4" /> Add Pattern
+                    </button>
+                </section>
+            </fieldset>
+
+            <section className="card space-y-2">
+                <h2 className="text-lg font-semibold">Try a Barcode</h2>
+                <input
+                    type="text"
+                    placeholder="Type a barcode"
+                    className="input uppercase"
+                    value={testCode}
+                    onChange={(e) => setTestCode(e.target.value)}
+                />
+                {test && (
+                    <p className={`text-sm ${test.ok ? "text-green-600" : "text-red-500"}`}>
+                        {test.ok ? "Accepted" : `Rejected: ${test.reason}`}
+                    </p>
+                )}
+            </section>
+
+            {canEdit && (
+                <button
+                    onClick={handleSave}
+                    disabled={isSaving}
+                    className="btn btn-primary w-full flex justify-center items-center gap-2 disabled:opacity-50"
+                >
+                    {isSaving ? <Loader2 className="animate-spin" /> : <><Save className="w-4 h-4" /> Save Rules</>}
+                </button>
+            )}
+        </div>
+    );
+}
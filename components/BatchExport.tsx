@@ -0,0 +1,267 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { ChevronLeft, Download, Loader2, Plus, Pencil, WifiOff } from "lucide-react";
+import { getFinalsForExport } from "@/actions/ro-actions";
+import { getFinalizedROs, getScannedParts, lookupBarcodes } from "@/utils/db";
+import { displayName } from "@/utils/session";
+import {
+    DEFAULT_TEMPLATE,
+    deleteExportTemplate,
+    ExportEntry,
+    ExportTemplate,
+    getExportTemplates,
+    saveExportTemplate,
+    writeBatchExport,
+} from "@/utils/export-templates";
+import ExportTemplateEditor from "@/components/ExportTemplateEditor";
+
+interface BatchExportProps {
+    from: string;
+    to: string;
+    canExport: boolean;
+}
+
+// Online: the server snapshots. Offline: ROs finalized on this device, rebuilt from IndexedDB
+async function loadEntries(from: string, to: string): Promise<{ data?: ExportEntry[]; offline: boolean; error?: string }> {
+    if (navigator.onLine) {
+        const res = await getFinalsForExport(from, to);
+        if (res.error) return { error: res.error, offline: false };
+        return {
+            offline: false,
+            data: (res.data || []).map((entry) => ({
+                id: entry.id,
+                ro_number: entry.ro_number,
+                version: entry.version,
+                finalized_at: entry.finalized_at,
+                finalized_by: displayName(entry.finalized_by_profile) || undefined,
+                override_reason: entry.override_reason,
+                amend_reason: entry.amend_reason,
+                parts: [...entry.parts].sort((a, b) => a.barcode_value.localeCompare(b.barcode_value)),
+            })),
+        };
+    }
+
+    const res = await getFinalizedROs(from, to);
+    if (!res.data) return { error: res.error, offline: true };
+
+    const data = await Promise.all(res.data.map(async (ro) => {
+        const partsRes = await getScannedParts(ro.ro_number);
+        return {
+            id: ro.ro_number,
+            ro_number: ro.ro_number,
+            finalized_at: ro.finalized_at!,
+            finalized_by: ro.finalized_by,
+            override_reason: ro.override_reason,
+            parts: (partsRes.data || [])
+                .filter((p) => p.quantity > 0)
+                .map((p) => ({ barcode_value: p.barcode_value, quantity: p.quantity }))
+                .sort((a, b) => a.barcode_value.localeCompare(b.barcode_value)),
+        };
+    }));
+    return { data, offline: true };
+}
+
+// The newest loaded version of each RO, so an amended RO isn't counted twice
+function latestVersions(entries: ExportEntry[]) {
+    const latest = new Map<string, ExportEntry>();
+    entries.forEach((entry) => {
+        const current = latest.get(entry.ro_number);
+        if (!current || (entry.version ?? 0) > (current.version ?? 0)) latest.set(entry.ro_number, entry);
+    });
+    return new Set([...latest.values()].map((e) => e.id));
+}
+
+export default function BatchExport({ from: initialFrom, to: initialTo, canExport }: BatchExportProps) {
+    const [from, setFrom] = useState(initialFrom);
+    const [to, setTo] = useState(initialTo);
+    const [entries, setEntries] = useState<ExportEntry[] | null>(null);
+    const [selected, setSelected] = useState<Set<string>>(new Set());
+    const [offline, setOffline] = useState(false);
+    const [isLoading, setIsLoading] = useState(false);
+    const [isExporting, setIsExporting] = useState(false);
+    const [error, setError] = useState("");
+    const [templates, setTemplates] = useState<ExportTemplate[]>(getExportTemplates);
+    const [templateId, setTemplateId] = useState(DEFAULT_TEMPLATE.id);
+    const [editing, setEditing] = useState<ExportTemplate | null>(null);
+
+    const template = templates.find((t) => t.id === templateId) ?? DEFAULT_TEMPLATE;
+    const chosen = (entries || []).filter((e) => selected.has(e.id));
+    const lineCount = chosen.reduce((sum, e) => sum + e.parts.length, 0);
+
+    const load = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setError("");
+        setIsLoading(true);
+        const res = await loadEntries(from, to);
+        setOffline(res.offline);
+        if (res.data) {
+            setEntries(res.data);
+            setSelected(latestVersions(res.data));
+        } else {
+            setError(res.error || "Could not load finalized ROs");
+        }
+        setIsLoading(false);
+    };
+
+    const toggle = (id: string) => {
+        const next = new Set(selected);
+        if (next.has(id)) next.delete(id);
+        else next.add(id);
+        setSelected(next);
+    };
+
+    const handleExport = async () => {
+        if (chosen.length === 0) return;
+        setIsExporting(true);
+        const catalog = await lookupBarcodes(chosen.flatMap((e) => e.parts.map((p) => p.barcode_value)));
+        writeBatchExport(chosen, catalog, template, `finals_${from}_${to}`);
+        setIsExporting(false);
+    };
+
+    const handleSaveTemplate = (next: ExportTemplate) => {
+        saveExportTemplate(next);
+        setTemplates(getExportTemplates());
+        setTemplateId(next.id);
+        setEditing(null);
+    };
+
+    const handleDeleteTemplate = (id: string) => {
+        if (!confirm("Delete this template?")) return;
+        deleteExportTemplate(id);
+        setTemplates(getExportTemplates());
+        setTemplateId(DEFAULT_TEMPLATE.id);
+        setEditing(null);
+    };
+
+    if (!canExport) {
+        return (
+            <div className="container-mobile space-y-6">
+                <header className="flex items-center gap-4">
+                    <Link href="/finals" className="text-gray-500">
+                        <ChevronLeft className="w-6 h-6" />
+                    </Link>
+                    <h1 className="text-2xl font-bold">Batch Export</h1>
+                </header>
+                <p className="text-center text-gray-500 py-10">Your role can&apos;t export finalized ROs.</p>
+            </div>
+        );
+    }
+
+    return (
+        <div className="container-mobile space-y-6">
+            <header className="flex items-center gap-4">
+                <Link href="/finals" className="text-gray-500">
+                    <ChevronLeft className="w-6 h-6" />
+                </Link>
+                <h1 className="text-2xl font-bold">Batch Export</h1>
+            </header>
+
+            <form onSubmit={load} className="card flex items-end gap-2">
+                <label className="text-sm space-y-1 flex-1">
+                    <span className="text-gray-500">From</span>
+                    <input type="date" required className="input py-2 text-base" value={from} onChange={(e) => setFrom(e.target.value)} />
+                </label>
+                <label className="text-sm space-y-1 flex-1">
+                    <span className="text-gray-500">To</span>
+                    <input type="date" required className="input py-2 text-base" value={to} onChange={(e) => setTo(e.target.value)} />
+                </label>
+                <button type="submit" disabled={isLoading} className="btn btn-primary py-2">
+                    {isLoading ? <Loader2 className="animate-spin w-5 h-5" /> : "Load"}
+                </button>
+            </form>
+
+            {error && <p className="text-red-500 text-sm">{error}</p>}
+
+            {/* Template */}
+            {editing ? (
+                <ExportTemplateEditor
+                    key={editing.id}
+                    template={editing}
+                    onSave={handleSaveTemplate}
+                    onDelete={templates.some((t) => t.id === editing.id) ? () => handleDeleteTemplate(editing.id) : undefined}
+                    onCancel={() => setEditing(null)}
+                />
+            ) : (
+                <section className="card space-y-2">
+                    <div className="flex items-center gap-2">
+                        <select className="input py-2 text-base" value={templateId} onChange={(e) => setTemplateId(e.target.value)}>
+                            {templates.map((t) => <option key={t.id} value={t.id}>{t.name}</option>)}
+                        </select>
+                        {template.id !== DEFAULT_TEMPLATE.id && (
+                            <button onClick={() => setEditing(template)} className="text-gray-500 p-2" title="Edit template">
+                                <Pencil className="w-5 h-5" />
+                            </button>
+                        )}
+                        <button
+                            onClick={() => setEditing({ ...template, id: crypto.randomUUID(), name: "" })}
+                            className="text-blue-600 p-2"
+                            title="New template from this one"
+                        >
+                            <Plus className="w-5 h-5" />
+                        </button>
+                    </div>
+                    <p className="text-xs text-gray-500">
+                        {template.columns.map((c) => c.header).join(" · ")}
+                    </p>
+                </section>
+            )}
+
+            {/* Entries */}
+            {entries && (
+                <section className="space-y-2">
+                    {offline && (
+                        <div className="bg-yellow-100 text-yellow-800 p-3 rounded-lg flex items-center gap-2 text-sm">
+                            <WifiOff className="w-4 h-4 flex-shrink-0" />
+                            Offline: only ROs finalized on this device, without version numbers.
+                        </div>
+                    )}
+
+                    <div className="flex justify-between items-center">
+                        <h2 className="text-lg font-semibold">{selected.size} of {entries.length} Selected</h2>
+                        <div className="flex gap-3 text-sm text-blue-600 font-medium">
+                            <button onClick={() => setSelected(new Set(entries.map((e) => e.id)))}>All</button>
+                            <button onClick={() => setSelected(latestVersions(entries))}>Latest</button>
+                            <button onClick={() => setSelected(new Set())}>None</button>
+                        </div>
+                    </div>
+
+                    <div className="space-y-2 max-h-96 overflow-y-auto">
+                        {entries.map((entry) => (
+                            <label key={entry.id} className="card py-3 flex items-center gap-3 cursor-pointer">
+                                <input type="checkbox" checked={selected.has(entry.id)} onChange={() => toggle(entry.id)} />
+                                <div className="min-w-0 flex-1">
+                                    <div className="font-mono font-bold truncate">
+                                        {entry.ro_number}
+                                        {entry.version && entry.version > 1 && (
+                                            <span className="ml-2 text-xs font-sans text-gray-500">v{entry.version}</span>
+                                        )}
+                                    </div>
+                                    <div className="text-xs text-gray-500 truncate">
+                                        {new Date(entry.finalized_at).toLocaleString()}
+                                        {entry.finalized_by && ` · ${entry.finalized_by}`}
+                                    </div>
+                                </div>
+                                <span className="text-sm text-gray-500 flex-shrink-0">{entry.parts.length} lines</span>
+                            </label>
+                        ))}
+                        {entries.length === 0 && (
+                            <p className="text-center text-gray-400 py-8">No finalized ROs in this range.</p>
+                        )}
+                    </div>
+
+                    <button
+                        onClick={handleExport}
+                        disabled={isExporting || chosen.length === 0}
+                        className="btn btn-primary w-full flex justify-center items-center gap-2 disabled:opacity-50"
+                    >
+                        {isExporting
+                            ? <Loader2 className="animate-spin" />
+                            : <><Download className="w-5 h-5" /> Export {chosen.length} ROs ({lineCount} lines)</>}
+                    </button>
+                </section>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,220 @@
+"use client";
+
+import { useState, useMemo, useEffect } from "react";
+import Link from "next/link";
+import { ChevronLeft, Upload, Loader2, AlertTriangle, CheckCircle, X } from "lucide-react";
+import { importCatalog } from "@/actions/catalog-actions";
+import { getCatalogEntries, saveCatalogEntries, CatalogEntry } from "@/utils/db";
+import { getCachedUser } from "@/utils/session";
+import { can } from "@/utils/permissions";
+import {
+    readSheet,
+    guessMapping,
+    classifyRows,
+    IMPORT_FIELDS,
+    ColumnMapping,
+    ParsedSheet,
+    ImportRow,
+} from "@/utils/catalog-import";
+
+const ACTION_STYLES: Record<ImportRow["action"], string> = {
+    insert: "bg-green-100 text-green-700",
+    update: "bg-blue-100 text-blue-700",
+    unchanged: "bg-gray-100 text-gray-500",
+    reject: "bg-red-100 text-red-700",
+};
+
+export default function CatalogImport() {
+    const [fileName, setFileName] = useState("");
+    const [sheet, setSheet] = useState<ParsedSheet | null>(null);
+    const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+    const [existing, setExisting] = useState<CatalogEntry[]>([]);
+    const [isReading, setIsReading] = useState(false);
+    const [isCommitting, setIsCommitting] = useState(false);
+    const [error, setError] = useState("");
+    const [result, setResult] = useState("");
+    const [canManage, setCanManage] = useState(true);
+
+    useEffect(() => {
+        setCanManage(can(getCachedUser()?.role, "manageCatalog"));
+    }, []);
+
+    const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (!file) return;
+
+        setError("");
+        setResult("");
+        setIsReading(true);
+        try {
+            const parsed = await readSheet(file);
+            if (parsed.headers.length === 0) throw new Error("The file is empty");
+
+            const catalogRes = await getCatalogEntries();
+            setExisting(catalogRes.data || []);
+            setSheet(parsed);
+            setMapping(guessMapping(parsed.headers));
+            setFileName(file.name);
+        } catch (err) {
+            setError(`Could not read file: ${(err as Error).message}`);
+        }
+        setIsReading(false);
+    };
+
+    const missingRequired = mapping
+        ? IMPORT_FIELDS.filter((f) => f.required && mapping[f.field] === null)
+        : [];
+
+    const preview = useMemo(
+        () => (sheet && mapping && missingRequired.length === 0 ? classifyRows(sheet, mapping, existing) : []),
+        [sheet, mapping, existing, missingRequired.length]
+    );
+
+    const counts = preview.reduce(
+        (acc, row) => ({ ...acc, [row.action]: acc[row.action] + 1 }),
+        { insert: 0, update: 0, unchanged: 0, reject: 0 }
+    );
+
+    const handleCommit = async () => {
+        const rows = preview.filter((r) => r.action === "insert" || r.action === "update").map((r) => r.entry!);
+        if (rows.length === 0) return;
+
+        setIsCommitting(true);
+        setError("");
+        const res = await importCatalog(rows);
+        if (res.error) {
+            setError(res.error);
+        } else if (res.data) {
+            await saveCatalogEntries(res.data);
+            setResult(`Imported ${counts.insert} new and ${counts.update} updated parts from ${fileName}.`);
+            setSheet(null);
+            setMapping(null);
+        }
+        setIsCommitting(false);
+    };
+
+    const reset = () => {
+        setSheet(null);
+        setMapping(null);
+        setFileName("");
+    };
+
+    return (
+        <div className="container-mobile space-y-6">
+            <header className="flex items-center gap-4">
+                <Link href="/" className="text-gray-500">
+                    <ChevronLeft className="w-6 h-6" />
+                </Link>
+                <h1 className="text-2xl font-bold">Import Catalog</h1>
+            </header>
+
+            {error && (
+                <div className="bg-red-100 text-red-700 p-3 rounded-lg flex items-center gap-2">
+                    <AlertTriangle className="w-5 h-5 flex-shrink-0" />
+                    <span className="text-sm">{error}</span>
+                </div>
+            )}
+
+            {result && (
+                <div className="bg-green-100 text-green-700 p-3 rounded-lg flex items-center gap-2">
+                    <CheckCircle className="w-5 h-5 flex-shrink-0" />
+                    <span className="text-sm">{result}</span>
+                </div>
+            )}
+
+            {!canManage && (
+                <p className="text-center text-gray-500 py-10">Only admins can import the catalog.</p>
+            )}
+
+            {/* 1. File */}
+            {canManage && !sheet && (
+                <label className="card flex flex-col items-center gap-3 py-10 border-dashed cursor-pointer">
+                    {isReading ? <Loader2 className="animate-spin w-8 h-8 text-blue-500" /> : <Upload className="w-8 h-8 text-blue-500" />}
+                    <span className="font-medium">Choose a CSV or XLSX price file</span>
+                    <input type="file" accept=".csv,.xlsx,.xls" className="hidden" onChange={handleFile} disabled={isReading} />
+                </label>
+            )}
+
+            {/* 2. Column Mapping */}
+            {sheet && mapping && (
+                <section className="card space-y-3">
+                    <div className="flex justify-between items-center">
+                        <h2 className="text-lg font-semibold">Columns</h2>
+                        <button onClick={reset} className="text-gray-500" title="Choose another file">
+                            <X className="w-5 h-5" />
+                        </button>
+                    </div>
+                    <p className="text-sm text-gray-500">{fileName} · {sheet.rows.length} rows</p>
+                    {IMPORT_FIELDS.map(({ field, label, required }) => (
+                        <div key={field} className="flex items-center gap-3">
+                            <span className="w-28 text-sm font-medium">
+                                {label}{required && <span className="text-red-500">*</span>}
+                            </span>
+                            <select
+                                className="input py-2 text-base"
+                                value={mapping[field] ?? ""}
+                                onChange={(e) => setMapping({
+                                    ...mapping,
+                                    [field]: e.target.value === "" ? null : Number(e.target.value),
+                                })}
+                            >
+                                <option value="">— not in file —</option>
+                                {sheet.headers.map((h, i) => (
+                                    <option key={i} value={i}>{h || `Column ${i + 1}`}</option>
+                                ))}
+                            </select>
+                        </div>
+                    ))}
+                    {missingRequired.length > 0 && (
+                        <p className="text-sm text-red-500">
+                            Map {missingRequired.map((f) => f.label).join(" and ")} to continue.
+                        </p>
+                    )}
+                </section>
+            )}
+
+            {/* 3. Preview */}
+            {preview.length > 0 && (
+                <section className="space-y-3">
+                    <div className="grid grid-cols-4 gap-2 text-center text-xs font-bold">
+                        <div className={`rounded p-2 ${ACTION_STYLES.insert}`}>{counts.insert}<br />NEW</div>
+                        <div className={`rounded p-2 ${ACTION_STYLES.update}`}>{counts.update}<br />UPDATE</div>
+                        <div className={`rounded p-2 ${ACTION_STYLES.unchanged}`}>{counts.unchanged}<br />SAME</div>
+                        <div className={`rounded p-2 ${ACTION_STYLES.reject}`}>{counts.reject}<br />REJECTED</div>
+                    </div>
+
+                    <div className="space-y-2 max-h-96 overflow-y-auto">
+                        {preview.map((row) => (
+                            <div key={row.line} className="card py-2 flex justify-between items-center gap-2">
+                                <div className="min-w-0">
+                                    {row.entry ? (
+                                        <>
+                                            <div className="font-mono font-bold truncate">{row.entry.part_number}</div>
+                                            <div className="text-xs text-gray-500 truncate">
+                                                {row.entry.barcode}{row.entry.description && ` · ${row.entry.description}`}
+                                                {row.entry.unit_cost !== undefined && ` · ${row.entry.unit_cost.toFixed(2)}`}
+                                            </div>
+                                        </>
+                                    ) : (
+                                        <div className="text-sm text-red-600">Line {row.line}: {row.reason}</div>
+                                    )}
+                                </div>
+                                <span className={`px-2 py-1 rounded text-xs font-bold flex-shrink-0 ${ACTION_STYLES[row.action]}`}>
+                                    {row.action.toUpperCase()}
+                                </span>
+                            </div>
+                        ))}
+                    </div>
+
+                    <button
+                        onClick={handleCommit}
+                        disabled={isCommitting || counts.insert + counts.update === 0}
+                        className="btn btn-primary w-full flex justify-center items-center gap-2 disabled:opacity-50"
+                    >
+                        {isCommitting ? <Loader2 className="animate-spin" /> : `Import ${counts.insert + counts.update} Parts`}
+                    </button>
+                </section>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,123 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { ChevronLeft, Loader2, RotateCw, AlertTriangle } from "lucide-react";
+import { DMSDelivery, resendDMSDelivery } from "@/actions/dms-actions";
+import type { DMSDeliveryStatus } from "@/utils/dms";
+
+const TABS: { status?: DMSDeliveryStatus; label: string }[] = [
+    { label: "All" },
+    { status: "pending", label: "Queued" },
+    { status: "delivered", label: "Delivered" },
+    { status: "dead", label: "Dead" },
+];
+
+// A pending delivery that already failed is retrying
+function badge(delivery: DMSDelivery): { label: string; style: string } {
+    if (delivery.status === "delivered") return { label: "DELIVERED", style: "bg-green-100 text-green-700" };
+    if (delivery.status === "dead") return { label: "DEAD", style: "bg-red-100 text-red-700" };
+    if (delivery.attempts > 0) return { label: "RETRYING", style: "bg-yellow-100 text-yellow-700" };
+    return { label: "QUEUED", style: "bg-gray-100 text-gray-600" };
+}
+
+interface DMSDeliveriesProps {
+    deliveries: DMSDelivery[];
+    status?: DMSDeliveryStatus;
+    configured: boolean; // DMS_ENDPOINT_URL and DMS_SIGNING_SECRET are set
+    maxAttempts: number;
+    error?: string;
+}
+
+export default function DMSDeliveries({ deliveries, status, configured, maxAttempts, error: loadError }: DMSDeliveriesProps) {
+    const router = useRouter();
+    const [error, setError] = useState(loadError || "");
+    const [resending, setResending] = useState<string | null>(null);
+
+    const handleResend = async (finalEntryId: string) => {
+        setResending(finalEntryId);
+        setError("");
+        const res = await resendDMSDelivery(finalEntryId);
+        if (res.error) setError(res.error);
+        router.refresh();
+        setResending(null);
+    };
+
+    return (
+        <div className="container-mobile space-y-6">
+            <header className="flex items-center gap-4">
+                <Link href="/" className="text-gray-500">
+                    <ChevronLeft className="w-6 h-6" />
+                </Link>
+                <h1 className="text-2xl font-bold">DMS Deliveries</h1>
+            </header>
+
+            {!configured && (
+                <div className="bg-yellow-100 text-yellow-800 p-3 rounded-lg flex items-center gap-2">
+                    <AlertTriangle className="w-5 h-5 flex-shrink-0" />
+                    <span className="text-sm">No DMS endpoint is configured. Finalized ROs stay queued until DMS_ENDPOINT_URL and DMS_SIGNING_SECRET are set.</span>
+                </div>
+            )}
+
+            {error && <p className="text-red-500 text-sm">{error}</p>}
+
+            <nav className="flex gap-2">
+                {TABS.map((tab) => (
+                    <Link
+                        key={tab.label}
+                        href={tab.status ? `/admin/dms?status=${tab.status}` : "/admin/dms"}
+                        className={`px-3 py-1 rounded-full text-sm font-medium ${tab.status === status ? "bg-blue-600 text-white" : "bg-gray-100 text-gray-600"}`}
+                    >
+                        {tab.label}
+                    </Link>
+                ))}
+            </nav>
+
+            <section className="space-y-2">
+                {deliveries.map((delivery) => {
+                    const { label, style } = badge(delivery);
+                    return (
+                        <div key={delivery.final_entry_id} className="card py-3 space-y-1">
+                            <div className="flex justify-between items-center gap-2">
+                                <Link href={`/finals/${delivery.final_entry_id}`} className="font-mono font-bold text-blue-600 truncate">
+                                    {delivery.final_entry?.ro_number ?? delivery.final_entry_id}
+                                    {delivery.final_entry && delivery.final_entry.version > 1 && (
+                                        <span className="ml-2 text-xs font-sans text-gray-500">v{delivery.final_entry.version}</span>
+                                    )}
+                                </Link>
+                                <span className={`px-2 py-1 rounded text-xs font-bold flex-shrink-0 ${style}`}>{label}</span>
+                            </div>
+                            <div className="text-xs text-gray-500">
+                                {delivery.final_entry && <>Finalized {new Date(delivery.final_entry.finalized_at).toLocaleString()} · </>}
+                                {delivery.attempts}/{maxAttempts} attempts
+                                {delivery.delivered_at && <> · Delivered {new Date(delivery.delivered_at).toLocaleString()}</>}
+                                {delivery.status === "pending" && delivery.attempts > 0 && delivery.next_attempt_at && (
+                                    <> · Next try {new Date(delivery.next_attempt_at).toLocaleTimeString()}</>
+                                )}
+                            </div>
+                            {delivery.last_error && delivery.status !== "delivered" && (
+                                <p className="text-xs text-red-600 break-all">{delivery.last_error}</p>
+                            )}
+                            <div className="flex justify-end">
+                                <button
+                                    onClick={() => handleResend(delivery.final_entry_id)}
+                                    disabled={!configured || resending !== null}
+                                    className="text-sm text-blue-600 font-medium flex items-center gap-1 disabled:opacity-50"
+                                >
+                                    {resending === delivery.final_entry_id
+                                        ? <Loader2 className="animate-spin w-4 h-4" />
+                                        : <RotateCw className="w-4 h-4" />}
+                                    Resend
+                                </button>
+                            </div>
+                        </div>
+                    );
+                })}
+                {deliveries.length === 0 && !error && (
+                    <p className="text-center text-gray-400 py-8">No deliveries.</p>
+                )}
+            </section>
+        </div>
+    );
+}
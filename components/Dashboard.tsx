@@ -1,10 +1,31 @@
 "use client";
 
-import { useState, useEffect } from "react";
-import { createRO, searchRO, getRecentROs, RO } from "@/utils/db";
+import { useState, useEffect, useRef } from "react";
+import { createRO, getRO, searchRO, getRecentROs, lookupBarcodes, RO, SyncStatus } from "@/utils/db";
+import { joinRemoteRO, subscribeSync } from "@/utils/sync";
 import { useRouter } from "next/navigation";
-import { Loader2, Plus, Search, FileText, CheckCircle } from "lucide-react";
+import { Loader2, Plus, Search, FileText, CheckCircle, Cloud, CloudOff, RefreshCw, LogOut } from "lucide-react";
 import Link from "next/link";
+import { signOut } from "@/actions/auth-actions";
+import { displayName, getCachedUser, setCachedUser, SessionUser } from "@/utils/session";
+import { can, ROLES } from "@/utils/permissions";
+import { parseGS1 } from "@/utils/gs1";
+import { attachWedgeScanner } from "@/utils/wedge";
+import { checkROBarcode, getBarcodeRules } from "@/utils/barcode-rules";
+import Scanner from "@/components/Scanner";
+
+function SyncBadge({ status }: { status?: SyncStatus }) {
+    if (status === "pending") {
+        return <span title="Waiting to sync"><RefreshCw className="w-4 h-4 text-gray-400" /></span>;
+    }
+    if (status === "failed") {
+        return <span title="Sync failed, retrying"><CloudOff className="w-4 h-4 text-red-500" /></span>;
+    }
+    if (status === "synced") {
+        return <span title="Synced"><Cloud className="w-4 h-4 text-green-500" /></span>;
+    }
+    return null;
+}
 
 export default function Dashboard() {
     const [roNumber, setRoNumber] = useState("");
@@ -14,13 +35,25 @@ export default function Dashboard() {
     const [isLoading, setIsLoading] = useState(true);
     const [isCreating, setIsCreating] = useState(false);
     const [error, setError] = useState("");
+    const [user, setUser] = useState<SessionUser | null>(null);
+    const [isScanning, setIsScanning] = useState(false);
+    const [pendingRO, setPendingRO] = useState<string | null>(null); // scanned RO number not on this device yet
     const router = useRouter();
+    const scanRef = useRef<(raw: string) => void>(() => {});
 
     // Fetch initial data
     useEffect(() => {
         loadRecentROs();
+        setUser(getCachedUser());
     }, []);
 
+    // Refresh sync badges whenever the outbox changes
+    useEffect(() => subscribeSync(() => {
+        getRecentROs().then((res) => {
+            if (res.success && res.data) setRecentROs(res.data);
+        });
+    }), []);
+
     const loadRecentROs = async () => {
         setIsLoading(true);
         const res = await getRecentROs();
@@ -30,14 +63,29 @@ export default function Dashboard() {
         setIsLoading(false);
     };
 
-    const handleCreate = async (e: React.FormEvent) => {
-        e.preventDefault();
-        setError("");
-
-        if (!roNumber.trim()) return;
+    // An RO another device already started is pulled from the server instead of created again.
+    // Offline, only this device's ROs are known.
+    const findRO = async (number: string) => {
+        if (navigator.onLine) {
+            try {
+                if (await joinRemoteRO(number)) return number;
+            } catch {
+                // Server unreachable, fall back to this device
+            }
+        }
+        const local = await getRO(number);
+        return local.data?.ro_number ?? null;
+    };
 
+    const startRO = async (number: string) => {
         setIsCreating(true);
-        const res = await createRO(roNumber);
+        const existing = await findRO(number.toUpperCase());
+        if (existing) {
+            router.push(`/ro/${existing}`);
+            return;
+        }
+
+        const res = await createRO(number);
         if (res.error) {
             setError(res.error);
             setIsCreating(false);
@@ -46,6 +94,47 @@ export default function Dashboard() {
         }
     };
 
+    const handleCreate = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setError("");
+
+        if (!roNumber.trim()) return;
+        await startRO(roNumber);
+    };
+
+    // Camera and wedge scans here are RO barcodes: open the RO, or offer to start it if it is new
+    const handleROScan = async (raw: string) => {
+        const code = raw.trim().toUpperCase();
+        const rules = getBarcodeRules();
+        setError("");
+        setPendingRO(null);
+
+        const check = checkROBarcode(code, rules);
+        if (!check.ok) {
+            setError(`Rejected ${code}: ${check.reason}`);
+            return false;
+        }
+
+        // Without an RO pattern, at least keep known part barcodes out
+        if (!rules.roPattern && (parseGS1(raw) || (await lookupBarcodes([code])).size > 0)) {
+            setError(`${code} is a part barcode. Open an RO first.`);
+            return false;
+        }
+
+        const existing = await findRO(code);
+        if (existing) {
+            router.push(`/ro/${existing}`);
+        } else {
+            setPendingRO(code);
+        }
+        return true;
+    };
+
+    useEffect(() => {
+        scanRef.current = handleROScan;
+    });
+    useEffect(() => attachWedgeScanner((code) => scanRef.current(code)), []);
+
     const handleSearch = async (query: string) => {
         setSearchQuery(query);
         if (query.length < 2) {
@@ -59,22 +148,91 @@ export default function Dashboard() {
         }
     };
 
+    const handleSignOut = async () => {
+        setCachedUser(null);
+        await signOut();
+    };
+
     const displayROs = searchQuery ? searchResults : recentROs;
 
     return (
         <div className="container-mobile space-y-8">
             <header className="flex justify-between items-center">
                 <h1 className="text-2xl font-bold">Parts Tracker (Local)</h1>
-                <Link href="/finals" className="text-blue-600 font-medium opacity-50 cursor-not-allowed" title="Not available in local mode yet">
-                    Finals
-                </Link>
+                <div className="flex flex-wrap justify-end gap-x-4 gap-y-1">
+                    {can(user?.role, "manageCatalog") && (
+                        <Link href="/catalog/import" className="text-blue-600 font-medium">
+                            Catalog
+                        </Link>
+                    )}
+                    {can(user?.role, "manageCatalog") && (
+                        <Link href="/admin/barcode-rules" className="text-blue-600 font-medium">
+                            Rules
+                        </Link>
+                    )}
+                    {can(user?.role, "manageUsers") && (
+                        <Link href="/admin/users" className="text-blue-600 font-medium">
+                            Users
+                        </Link>
+                    )}
+                    {can(user?.role, "manageIntegrations") && (
+                        <Link href="/admin/dms" className="text-blue-600 font-medium">
+                            DMS
+                        </Link>
+                    )}
+                    {can(user?.role, "manageIntegrations") && (
+                        <Link href="/admin/webhooks" className="text-blue-600 font-medium">
+                            Webhooks
+                        </Link>
+                    )}
+                    <Link href="/finals" className="text-blue-600 font-medium">
+                        Finals
+                    </Link>
+                    {can(user?.role, "viewReports") && (
+                        <Link href="/reports" className="text-blue-600 font-medium">
+                            Reports
+                        </Link>
+                    )}
+                    <Link href="/settings" className="text-blue-600 font-medium">
+                        Settings
+                    </Link>
+                </div>
             </header>
 
+            {user && (
+                <div className="flex justify-between items-center text-sm text-gray-500 -mt-4">
+                    <span>Signed in as <span className="font-medium text-gray-700 dark:text-gray-300">{displayName(user)}</span> · {ROLES.find((r) => r.role === user.role)?.label}</span>
+                    <button onClick={handleSignOut} className="flex items-center gap-1 hover:text-gray-900">
+                        <LogOut className="w-4 h-4" /> Sign out
+                    </button>
+                </div>
+            )}
+
             {/* Create RO Section */}
             <section className="card space-y-4">
                 <h2 className="text-lg font-semibold flex items-center gap-2">
                     <Plus className="w-5 h-5" /> New Repair Order
                 </h2>
+                <Scanner mode="ro" onScan={handleROScan} isScanning={isScanning} setIsScanning={setIsScanning} />
+                {pendingRO && (
+                    <div className="bg-blue-50 dark:bg-blue-950 p-3 rounded-lg space-y-2">
+                        <p className="text-sm">
+                            RO <span className="font-mono font-bold">{pendingRO}</span> is not on this device yet.
+                        </p>
+                        <div className="flex gap-2">
+                            <button
+                                onClick={() => startRO(pendingRO)}
+                                disabled={isCreating}
+                                className="btn btn-primary flex-1 flex justify-center items-center gap-2"
+                            >
+                                {isCreating ? <Loader2 className="animate-spin" /> : "Start RO"}
+                            </button>
+                            <button onClick={() => setPendingRO(null)} className="btn btn-secondary flex-1">
+                                Cancel
+                            </button>
+                        </div>
+                    </div>
+                )}
                 <form onSubmit={handleCreate} className="space-y-3">
                     <input
                         type="text"
@@ -128,17 +286,23 @@ export default function Dashboard() {
                                 >
                                     <div className="flex items-center gap-3">
                                         <FileText className="text-blue-500 w-5 h-5" />
-                                        <span className="font-mono font-bold text-lg">{ro.ro_number}</span>
+                                        <div>
+                                            <div className="font-mono font-bold text-lg">{ro.ro_number}</div>
+                                            {ro.created_by && <div className="text-xs text-gray-500">by {ro.created_by}</div>}
+                                        </div>
+                                    </div>
+                                    <div className="flex items-center gap-2">
+                                        <SyncBadge status={ro.sync_status} />
+                                        {ro.status === "finalized" ? (
+                                            <span className="bg-green-100 text-green-700 px-2 py-1 rounded text-xs font-bold flex items-center gap-1">
+                                                <CheckCircle className="w-3 h-3" /> FINAL
+                                            </span>
+                                        ) : (
+                                            <span className="bg-yellow-100 text-yellow-700 px-2 py-1 rounded text-xs font-bold">
+                                                DRAFT
+                                            </span>
+                                        )}
                                     </div>
-                                    {ro.status === "finalized" ? (
-                                        <span className="bg-green-100 text-green-700 px-2 py-1 rounded text-xs font-bold flex items-center gap-1">
-                                            <CheckCircle className="w-3 h-3" /> FINAL
-                                        </span>
-                                    ) : (
-                                        <span className="bg-yellow-100 text-yellow-700 px-2 py-1 rounded text-xs font-bold">
-                                            DRAFT
-                                        </span>
-                                    )}
                                 </Link>
                             ))}
 
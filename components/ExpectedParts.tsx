@@ -0,0 +1,146 @@
+"use client";
+
+import { useState } from "react";
+import { Plus, Trash2, Save, X, ClipboardList } from "lucide-react";
+import { ExpectedPart, LineStatus, Reconciliation } from "@/utils/reconcile";
+
+const STATUS_STYLES: Record<LineStatus, string> = {
+    missing: "bg-red-100 text-red-700",
+    partial: "bg-yellow-100 text-yellow-700",
+    complete: "bg-green-100 text-green-700",
+    over: "bg-orange-100 text-orange-700",
+};
+
+interface ExpectedPartsProps {
+    expected: ExpectedPart[];
+    reconciliation: Reconciliation;
+    editable: boolean;
+    onSave: (expected: ExpectedPart[]) => Promise<void>;
+}
+
+export default function ExpectedParts({ expected, reconciliation, editable, onSave }: ExpectedPartsProps) {
+    const [isEditing, setIsEditing] = useState(false);
+    const [draft, setDraft] = useState<ExpectedPart[]>([]);
+    const [barcode, setBarcode] = useState("");
+    const [quantity, setQuantity] = useState(1);
+
+    const startEditing = () => {
+        setDraft(expected);
+        setIsEditing(true);
+    };
+
+    const addLine = (e: React.FormEvent) => {
+        e.preventDefault();
+        const code = barcode.trim().toUpperCase();
+        if (!code || quantity < 1) return;
+
+        // Adding a barcode twice bumps the existing line
+        const existing = draft.find((d) => d.barcode_value === code);
+        setDraft(existing
+            ? draft.map((d) => d === existing ? { ...d, expected_quantity: d.expected_quantity + quantity } : d)
+            : [...draft, { barcode_value: code, expected_quantity: quantity }]);
+        setBarcode("");
+        setQuantity(1);
+    };
+
+    const save = async () => {
+        await onSave(draft);
+        setIsEditing(false);
+    };
+
+    if (isEditing) {
+        return (
+            <section className="card space-y-3">
+                <h2 className="text-lg font-semibold">Expected Parts</h2>
+                <form onSubmit={addLine} className="flex gap-2">
+                    <input
+                        type="text"
+                        placeholder="Barcode"
+                        className="input uppercase flex-1 min-w-0"
+                        value={barcode}
+                        onChange={(e) => setBarcode(e.target.value)}
+                    />
+                    <input
+                        type="number"
+                        min={1}
+                        className="input w-20"
+                        value={quantity}
+                        onChange={(e) => setQuantity(parseInt(e.target.value) || 0)}
+                    />
+                    <button type="submit" disabled={!barcode.trim()} className="btn btn-primary px-3">
+                        <Plus className="w-5 h-5" />
+                    </button>
+                </form>
+
+                {draft.map((line) => (
+                    <div key={line.barcode_value} className="flex justify-between items-center">
+                        <span className="font-mono font-bold">{line.barcode_value}</span>
+                        <div className="flex items-center gap-3">
+                            <span className="font-bold">x{line.expected_quantity}</span>
+                            <button
+                                onClick={() => setDraft(draft.filter((d) => d !== line))}
+                                className="text-red-500 p-1 bg-red-50 rounded"
+                            >
+                                <Trash2 className="w-4 h-4" />
+                            </button>
+                        </div>
+                    </div>
+                ))}
+
+                <div className="flex gap-2">
+                    <button onClick={save} className="btn btn-primary flex-1 flex justify-center items-center gap-2">
+                        <Save className="w-4 h-4" /> Save
+                    </button>
+                    <button onClick={() => setIsEditing(false)} className="btn btn-secondary flex-1 flex justify-center items-center gap-2">
+                        <X className="w-4 h-4" /> Cancel
+                    </button>
+                </div>
+            </section>
+        );
+    }
+
+    if (expected.length === 0) {
+        return editable ? (
+            <div className="flex justify-center">
+                <button onClick={startEditing} className="text-sm text-blue-600 font-medium flex items-center gap-1">
+                    <ClipboardList className="w-4 h-4" /> Add Expected Parts
+                </button>
+            </div>
+        ) : null;
+    }
+
+    return (
+        <section className="space-y-3">
+            <div className="flex justify-between items-center">
+                <h2 className="text-lg font-semibold">Expected Parts ({expected.length})</h2>
+                {editable && (
+                    <button onClick={startEditing} className="text-sm text-blue-600 font-medium">Edit</button>
+                )}
+            </div>
+
+            {reconciliation.lines.map((line) => (
+                <div key={line.barcode_value} className="card py-3 flex justify-between items-center">
+                    <span className="font-mono font-bold">{line.barcode_value}</span>
+                    <div className="flex items-center gap-3">
+                        <span className="text-sm">{line.scanned_quantity} / {line.expected_quantity}</span>
+                        <span className={`px-2 py-1 rounded text-xs font-bold ${STATUS_STYLES[line.status]}`}>
+                            {line.status.toUpperCase()}
+                        </span>
+                    </div>
+                </div>
+            ))}
+
+            {reconciliation.unexpected.length > 0 && (
+                <div className="space-y-2">
+                    <h3 className="font-medium text-orange-600">Not Expected ({reconciliation.unexpected.length})</h3>
+                    {reconciliation.unexpected.map((p) => (
+                        <div key={p.barcode_value} className="card py-3 flex justify-between items-center border-orange-300">
+                            <span className="font-mono font-bold">{p.barcode_value}</span>
+                            <span className="font-bold">x{p.quantity}</span>
+                        </div>
+                    ))}
+                </div>
+            )}
+        </section>
+    );
+}
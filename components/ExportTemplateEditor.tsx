@@ -0,0 +1,160 @@
+"use client";
+
+import { useState } from "react";
+import { ArrowUp, ArrowDown, Save, X, Trash2 } from "lucide-react";
+import {
+    DATE_FORMATS,
+    DELIMITERS,
+    EXPORT_FIELDS,
+    EXPORT_LAYOUTS,
+    ExportColumn,
+    ExportTemplate,
+} from "@/utils/export-templates";
+
+interface ExportTemplateEditorProps {
+    template: ExportTemplate;
+    onSave: (template: ExportTemplate) => void;
+    onDelete?: () => void; // missing for the default template
+    onCancel: () => void;
+}
+
+export default function ExportTemplateEditor({ template, onSave, onDelete, onCancel }: ExportTemplateEditorProps) {
+    const [draft, setDraft] = useState<ExportTemplate>(template);
+
+    // Chosen columns in file order, then the rest in field order
+    const unused = EXPORT_FIELDS.filter((f) => !draft.columns.some((c) => c.field === f.field));
+
+    const setColumns = (columns: ExportColumn[]) => setDraft({ ...draft, columns });
+
+    const move = (index: number, by: number) => {
+        const columns = [...draft.columns];
+        [columns[index], columns[index + by]] = [columns[index + by], columns[index]];
+        setColumns(columns);
+    };
+
+    const save = (e: React.FormEvent) => {
+        e.preventDefault();
+        onSave({ ...draft, name: draft.name.trim() });
+    };
+
+    return (
+        <form onSubmit={save} className="card space-y-4">
+            <label className="block text-sm space-y-1">
+                <span className="text-gray-500">Template Name</span>
+                <input
+                    type="text"
+                    required
+                    className="input py-2 text-base"
+                    value={draft.name}
+                    onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                />
+            </label>
+
+            <div className="grid grid-cols-2 gap-2">
+                <label className="text-sm space-y-1">
+                    <span className="text-gray-500">File</span>
+                    <select
+                        className="input py-2 text-base"
+                        value={draft.layout}
+                        onChange={(e) => setDraft({ ...draft, layout: e.target.value as ExportTemplate["layout"] })}
+                    >
+                        {EXPORT_LAYOUTS.map(({ layout, label }) => (
+                            <option key={layout} value={layout}>{label}</option>
+                        ))}
+                    </select>
+                </label>
+                <label className="text-sm space-y-1">
+                    <span className="text-gray-500">Dates</span>
+                    <select
+                        className="input py-2 text-base"
+                        value={draft.dateFormat}
+                        onChange={(e) => setDraft({ ...draft, dateFormat: e.target.value as ExportTemplate["dateFormat"] })}
+                    >
+                        {DATE_FORMATS.map(({ format, label }) => (
+                            <option key={format} value={format}>{label}</option>
+                        ))}
+                    </select>
+                </label>
+            </div>
+
+            {draft.layout === "csv" && (
+                <label className="block text-sm space-y-1">
+                    <span className="text-gray-500">Delimiter</span>
+                    <select
+                        className="input py-2 text-base"
+                        value={draft.delimiter}
+                        onChange={(e) => setDraft({ ...draft, delimiter: e.target.value })}
+                    >
+                        {DELIMITERS.map(({ delimiter, label }) => (
+                            <option key={label} value={delimiter}>{label}</option>
+                        ))}
+                    </select>
+                </label>
+            )}
+
+            <div className="space-y-2">
+                <h3 className="text-sm font-medium">Columns</h3>
+                {draft.columns.map((column, i) => (
+                    <div key={column.field} className="flex items-center gap-2">
+                        <input
+                            type="checkbox"
+                            checked
+                            onChange={() => setColumns(draft.columns.filter((c) => c !== column))}
+                            title="Leave out"
+                        />
+                        <span className="w-28 text-xs text-gray-500 flex-shrink-0">
+                            {EXPORT_FIELDS.find((f) => f.field === column.field)?.label}
+                        </span>
+                        <input
+                            type="text"
+                            className="input py-1 text-sm flex-1 min-w-0"
+                            value={column.header}
+                            onChange={(e) => setColumns(draft.columns.map((c) => c === column ? { ...c, header: e.target.value } : c))}
+                            placeholder="Header"
+                        />
+                        <button type="button" onClick={() => move(i, -1)} disabled={i === 0} className="text-gray-500 disabled:opacity-30">
+                            <ArrowUp className="w-4 h-4" />
+                        </button>
+                        <button
+                            type="button"
+                            onClick={() => move(i, 1)}
+                            disabled={i === draft.columns.length - 1}
+                            className="text-gray-500 disabled:opacity-30"
+                        >
+                            <ArrowDown className="w-4 h-4" />
+                        </button>
+                    </div>
+                ))}
+                {unused.map(({ field, label }) => (
+                    <label key={field} className="flex items-center gap-2 text-sm text-gray-400">
+                        <input
+                            type="checkbox"
+                            checked={false}
+                            onChange={() => setColumns([...draft.columns, { field, header: label }])}
+                        />
+                        {label}
+                    </label>
+                ))}
+                {draft.columns.length === 0 && <p className="text-sm text-red-500">Pick at least one column.</p>}
+            </div>
+
+            <div className="flex gap-2">
+                <button
+                    type="submit"
+                    disabled={draft.columns.length === 0 || !draft.name.trim()}
+                    className="btn btn-primary flex-1 flex justify-center items-center gap-2 disabled:opacity-50"
+                >
+                    <Save className="w-4 h-4" /> Save
+                </button>
+                <button type="button" onClick={onCancel} className="btn btn-secondary flex-1 flex justify-center items-center gap-2">
+                    <X className="w-4 h-4" /> Cancel
+                </button>
+                {onDelete && (
+                    <button type="button" onClick={onDelete} className="text-red-500 p-2 bg-red-50 rounded" title="Delete template">
+                        <Trash2 className="w-5 h-5" />
+                    </button>
+                )}
+            </div>
+        </form>
+    );
+}
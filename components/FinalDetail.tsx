@@ -0,0 +1,131 @@
+"use client";
+
+import Link from "next/link";
+import { ChevronLeft, ExternalLink, Printer } from "lucide-react";
+import type { FinalEntry, FinalPart } from "@/actions/ro-actions";
+import type { CatalogEntry } from "@/actions/catalog-actions";
+import type { Photo } from "@/actions/photo-actions";
+import { displayName } from "@/utils/session";
+import PhotoStrip from "@/components/PhotoStrip";
+
+interface FinalDetailProps {
+    entry: FinalEntry;
+    parts: FinalPart[];
+    catalog: CatalogEntry[];
+    photos: Photo[];
+    error?: string;
+}
+
+const money = (value: number) => value.toFixed(2);
+
+export default function FinalDetail({ entry, parts, catalog, photos, error }: FinalDetailProps) {
+    const byBarcode = new Map<string, CatalogEntry>();
+    catalog.forEach((c) => [c.barcode, ...(c.alt_barcodes || [])].forEach((b) => byBarcode.set(b, c)));
+
+    const units = parts.reduce((sum, p) => sum + p.quantity, 0);
+    const costed = parts.filter((p) => byBarcode.get(p.barcode_value)?.unit_cost != null);
+    const total = costed.reduce((sum, p) => sum + p.quantity * byBarcode.get(p.barcode_value)!.unit_cost!, 0);
+    const finalizedAt = new Date(entry.finalized_at);
+
+    return (
+        <div className="container-mobile space-y-6">
+            <header className="flex justify-between items-center">
+                <div className="flex items-center gap-4">
+                    <Link href="/finals" className="text-gray-500 print:hidden">
+                        <ChevronLeft className="w-6 h-6" />
+                    </Link>
+                    <div>
+                        <h1 className="text-3xl font-bold font-mono">{entry.ro_number}</h1>
+                        <span className="inline-block px-2 py-1 rounded text-xs font-bold mt-1 bg-green-100 text-green-700">
+                            FINAL{entry.version > 1 && ` v${entry.version}`}
+                        </span>
+                    </div>
+                </div>
+                <button onClick={() => window.print()} className="text-blue-600 flex items-center gap-1 text-sm font-medium print:hidden">
+                    <Printer className="w-4 h-4" /> Print
+                </button>
+            </header>
+
+            {error && <p className="text-red-500 text-sm">{error}</p>}
+
+            <section className="card space-y-1 text-sm">
+                <div>
+                    <span className="text-gray-500">Finalized</span>{" "}
+                    {finalizedAt.toLocaleDateString()} {finalizedAt.toLocaleTimeString()}
+                    {entry.finalized_by_profile && <> by {displayName(entry.finalized_by_profile)}</>}
+                </div>
+                {entry.previous_entry_id && (
+                    <div>
+                        <span className="text-gray-500">Replaces</span>{" "}
+                        <Link href={`/finals/${entry.previous_entry_id}`} className="text-blue-600 print:text-inherit">
+                            v{entry.version - 1}
+                        </Link>
+                    </div>
+                )}
+                {entry.amend_reason && (
+                    <div><span className="text-gray-500">Amended:</span> {entry.amend_reason}</div>
+                )}
+                {entry.override_reason && (
+                    <div className="text-yellow-700"><span className="font-bold">Finalized with discrepancies:</span> {entry.override_reason}</div>
+                )}
+                <Link href={`/ro/${entry.ro_number}`} className="text-blue-600 flex items-center gap-1 pt-1 print:hidden">
+                    <ExternalLink className="w-4 h-4" /> Open live RO
+                </Link>
+            </section>
+
+            <section className="space-y-2">
+                <h2 className="text-lg font-semibold">Parts ({parts.length})</h2>
+                <table className="w-full text-sm">
+                    <thead>
+                        <tr className="text-left text-gray-500 border-b border-gray-200 dark:border-gray-800">
+                            <th className="py-2 font-medium">Part</th>
+                            <th className="py-2 font-medium text-right">Qty</th>
+                            <th className="py-2 font-medium text-right">Cost</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {parts.map((p) => {
+                            const item = byBarcode.get(p.barcode_value);
+                            return (
+                                <tr key={p.id} className="border-b border-gray-100 dark:border-gray-800 align-top break-inside-avoid">
+                                    <td className="py-2 pr-2">
+                                        <div className="font-mono font-bold break-all">{p.barcode_value}</div>
+                                        {item && (
+                                            <div className="text-xs text-gray-600 dark:text-gray-400">
+                                                <span className="font-semibold">{item.part_number}</span>
+                                                {item.description && ` · ${item.description}`}
+                                                {item.brand && ` · ${item.brand}`}
+                                            </div>
+                                        )}
+                                    </td>
+                                    <td className="py-2 text-right font-bold">{p.quantity}</td>
+                                    <td className="py-2 text-right whitespace-nowrap">
+                                        {item?.unit_cost != null ? money(p.quantity * item.unit_cost) : ""}
+                                    </td>
+                                </tr>
+                            );
+                        })}
+                    </tbody>
+                    <tfoot>
+                        <tr className="font-bold">
+                            <td className="py-2">Total</td>
+                            <td className="py-2 text-right">{units}</td>
+                            <td className="py-2 text-right">{costed.length > 0 ? money(total) : ""}</td>
+                        </tr>
+                    </tfoot>
+                </table>
+                {parts.length === 0 && <p className="text-center text-gray-400 py-4">No parts in this snapshot.</p>}
+                {costed.length > 0 && costed.length < parts.length && (
+                    <p className="text-xs text-gray-500">Total covers the {costed.length} of {parts.length} lines with a catalog cost.</p>
+                )}
+            </section>
+
+            {photos.length > 0 && (
+                <section className="space-y-2">
+                    <h2 className="text-lg font-semibold">Photos ({photos.length})</h2>
+                    <PhotoStrip photos={photos.map((p) => ({ id: p.id, url: p.url, taken_by: displayName(p.taken_by_profile) || undefined }))} />
+                </section>
+            )}
+        </div>
+    );
+}
@@ -1,11 +1,60 @@
 "use client";
 
-import { FinalEntry } from "@/actions/ro-actions";
-import { Download, ChevronLeft, FileText } from "lucide-react";
+import { useState } from "react";
+import { FinalEntry, getFinalParts, UserRef } from "@/actions/ro-actions";
+import { getPhotos, Photo } from "@/actions/photo-actions";
+import { Download, ChevronLeft, FileText, History, GitCompare, Loader2, Image as ImageIcon, Filter, FileSpreadsheet } from "lucide-react";
 import Link from "next/link";
+import { useRouter } from "next/navigation";
 import { createClient } from "@/utils/supabase/client";
+import { lookupBarcodes } from "@/utils/db";
+import { downloadCSV } from "@/utils/csv";
+import { diffFinalParts, PartDiff } from "@/utils/final-diff";
+import { displayName } from "@/utils/session";
+import PhotoStrip from "@/components/PhotoStrip";
+import { FINALS_PAGE_SIZE, FINALS_SORTS, FinalsFilters, finalsQueryString, FinalsSort } from "@/utils/finals-filters";
 
-export default function FinalsList({ entries }: { entries: FinalEntry[] }) {
+const DIFF_STYLES: Record<PartDiff["change"], string> = {
+    added: "text-green-700",
+    removed: "text-red-600 line-through",
+    changed: "text-blue-700",
+};
+
+interface FinalsListProps {
+    entries: FinalEntry[]; // this page, in the chosen order
+    versions: FinalEntry[]; // every version of the ROs on this page
+    total: number; // entries matching the filters, across pages
+    filters: FinalsFilters;
+    people: (UserRef & { id: string })[];
+    canExport: boolean;
+    error?: string;
+}
+
+export default function FinalsList({ entries, versions: allVersions, total, filters, people, canExport, error }: FinalsListProps) {
+    const router = useRouter();
+    const [draft, setDraft] = useState<FinalsFilters>(filters);
+    const [filtersOpen, setFiltersOpen] = useState(false);
+    const [historyOpen, setHistoryOpen] = useState<string | null>(null); // ro_id
+    const [diffs, setDiffs] = useState<Record<string, PartDiff[]>>({}); // keyed by the newer entry id
+    const [loadingDiff, setLoadingDiff] = useState<string | null>(null);
+    const [photos, setPhotos] = useState<Record<string, Photo[]>>({}); // keyed by ro_id, loaded on demand
+    const [loadingPhotos, setLoadingPhotos] = useState<string | null>(null);
+
+    // One card per RO in the order its first matching entry comes on this page, newest version first within it
+    const versionsByRO = new Map<string, FinalEntry[]>();
+    entries.forEach((entry) => {
+        if (!versionsByRO.has(entry.ro_id)) versionsByRO.set(entry.ro_id, []);
+    });
+    allVersions.forEach((entry) => versionsByRO.get(entry.ro_id)?.push(entry));
+    versionsByRO.forEach((versions) => versions.sort((a, b) => b.version - a.version));
+
+    const pageCount = Math.max(1, Math.ceil(total / FINALS_PAGE_SIZE));
+    const filtered = finalsQueryString({ ...filters, sort: "newest", page: 1 }) !== "";
+
+    const applyFilters = (e: React.FormEvent) => {
+        e.preventDefault();
+        router.push(`/finals${finalsQueryString({ ...draft, page: 1 })}`);
+    };
 
     const handleExport = async (entry: FinalEntry) => {
         const supabase = createClient();
@@ -16,17 +65,46 @@ export default function FinalsList({ entries }: { entries: FinalEntry[] }) {
 
         if (!parts) return;
 
-        const csvContent = "data:text/csv;charset=utf-8,"
-            + "RO Number,Barcode,Quantity\n"
-            + parts.map(p => `${entry.ro_number},${p.barcode_value},${p.quantity}`).join("\n");
-
-        const encodedUri = encodeURI(csvContent);
-        const link = document.createElement("a");
-        link.setAttribute("href", encodedUri);
-        link.setAttribute("download", `${entry.ro_number}_final.csv`);
-        document.body.appendChild(link);
-        link.click();
-        document.body.removeChild(link);
+        const catalog = await lookupBarcodes(parts.map(p => p.barcode_value));
+
+        downloadCSV([
+            ["RO Number", "Barcode", "Part Number", "Description", "Brand", "Unit Cost", "Quantity"],
+            ...parts.map((p) => {
+                const item = catalog.get(p.barcode_value);
+                return [entry.ro_number, p.barcode_value, item?.part_number, item?.description, item?.brand, item?.unit_cost, p.quantity];
+            }),
+        ], entry.version > 1 ? `${entry.ro_number}_final_v${entry.version}.csv` : `${entry.ro_number}_final.csv`);
+    };
+
+    const toggleDiff = async (entry: FinalEntry) => {
+        if (!entry.previous_entry_id) return;
+        if (diffs[entry.id]) {
+            const rest = { ...diffs };
+            delete rest[entry.id];
+            setDiffs(rest);
+            return;
+        }
+
+        setLoadingDiff(entry.id);
+        const [before, after] = await Promise.all([getFinalParts(entry.previous_entry_id), getFinalParts(entry.id)]);
+        if (before.data && after.data) {
+            setDiffs({ ...diffs, [entry.id]: diffFinalParts(before.data, after.data) });
+        }
+        setLoadingDiff(null);
+    };
+
+    const togglePhotos = async (roId: string) => {
+        if (photos[roId]) {
+            const rest = { ...photos };
+            delete rest[roId];
+            setPhotos(rest);
+            return;
+        }
+
+        setLoadingPhotos(roId);
+        const res = await getPhotos(roId);
+        if (res.data) setPhotos({ ...photos, [roId]: res.data });
+        setLoadingPhotos(null);
     };
 
     return (
@@ -36,35 +114,233 @@ export default function FinalsList({ entries }: { entries: FinalEntry[] }) {
                     <ChevronLeft className="w-6 h-6" />
                 </Link>
                 <h1 className="text-2xl font-bold">Finalized ROs</h1>
+                {canExport && (
+                    <Link href="/finals/export" className="ml-auto p-2 rounded-full text-gray-500 hover:bg-gray-100" title="Batch export">
+                        <FileSpreadsheet className="w-5 h-5" />
+                    </Link>
+                )}
+                <button
+                    onClick={() => setFiltersOpen(!filtersOpen)}
+                    className={`${canExport ? "" : "ml-auto "}p-2 rounded-full ${filtered ? "text-blue-600 bg-blue-50" : "text-gray-500 hover:bg-gray-100"}`}
+                    title="Filters"
+                >
+                    <Filter className="w-5 h-5" />
+                </button>
             </header>
 
+            {filtersOpen && (
+                <form onSubmit={applyFilters} className="card space-y-3">
+                    <div className="grid grid-cols-2 gap-2">
+                        <label className="text-sm space-y-1">
+                            <span className="text-gray-500">From</span>
+                            <input
+                                type="date"
+                                className="input py-2 text-base"
+                                value={draft.from ?? ""}
+                                onChange={(e) => setDraft({ ...draft, from: e.target.value || undefined })}
+                            />
+                        </label>
+                        <label className="text-sm space-y-1">
+                            <span className="text-gray-500">To</span>
+                            <input
+                                type="date"
+                                className="input py-2 text-base"
+                                value={draft.to ?? ""}
+                                onChange={(e) => setDraft({ ...draft, to: e.target.value || undefined })}
+                            />
+                        </label>
+                    </div>
+                    <input
+                        type="text"
+                        placeholder="RO number"
+                        className="input py-2 text-base uppercase"
+                        value={draft.ro ?? ""}
+                        onChange={(e) => setDraft({ ...draft, ro: e.target.value.toUpperCase() || undefined })}
+                    />
+                    <input
+                        type="text"
+                        placeholder="Contains barcode"
+                        className="input py-2 text-base uppercase font-mono"
+                        value={draft.barcode ?? ""}
+                        onChange={(e) => setDraft({ ...draft, barcode: e.target.value.toUpperCase() || undefined })}
+                    />
+                    <select
+                        className="input py-2 text-base"
+                        value={draft.finalizedBy ?? ""}
+                        onChange={(e) => setDraft({ ...draft, finalizedBy: e.target.value || undefined })}
+                    >
+                        <option value="">Finalized by anyone</option>
+                        {people.map((p) => <option key={p.id} value={p.id}>{displayName(p)}</option>)}
+                    </select>
+                    <select
+                        className="input py-2 text-base"
+                        value={draft.sort}
+                        onChange={(e) => setDraft({ ...draft, sort: e.target.value as FinalsSort })}
+                    >
+                        {FINALS_SORTS.map((s) => <option key={s.sort} value={s.sort}>{s.label}</option>)}
+                    </select>
+                    <div className="flex gap-2">
+                        <button type="submit" className="btn btn-primary flex-1">Apply</button>
+                        <Link href="/finals" className="btn btn-secondary flex-1">Clear</Link>
+                    </div>
+                </form>
+            )}
+
+            {error && <p className="text-red-500 text-sm">{error}</p>}
+
             <div className="space-y-3">
-                {entries.map((entry) => (
-                    <div key={entry.id} className="card flex justify-between items-center">
-                        <div className="flex items-center gap-3">
-                            <FileText className="text-green-600 w-5 h-5" />
-                            <div>
-                                <div className="font-mono font-bold text-lg">{entry.ro_number}</div>
-                                <div className="text-sm text-gray-500">
-                                    {new Date(entry.finalized_at).toLocaleDateString()} {new Date(entry.finalized_at).toLocaleTimeString()}
+                {[...versionsByRO.values()].map((versions) => {
+                    const latest = versions[0];
+                    return (
+                        <div key={latest.ro_id} className="card space-y-3">
+                            <div className="flex justify-between items-center">
+                                <div className="flex items-center gap-3">
+                                    <FileText className="text-green-600 w-5 h-5" />
+                                    <div>
+                                        <Link href={`/finals/${latest.id}`} className="block font-mono font-bold text-lg hover:text-blue-600">
+                                            {latest.ro_number}
+                                            {latest.version > 1 && (
+                                                <span className="ml-2 bg-blue-100 text-blue-700 px-2 py-0.5 rounded text-xs font-bold align-middle">
+                                                    v{latest.version}
+                                                </span>
+                                            )}
+                                        </Link>
+                                        <div className="text-sm text-gray-500">
+                                            {new Date(latest.finalized_at).toLocaleDateString()} {new Date(latest.finalized_at).toLocaleTimeString()}
+                                        </div>
+                                        {latest.finalized_by_profile && (
+                                            <div className="text-xs text-gray-500">by {displayName(latest.finalized_by_profile)}</div>
+                                        )}
+                                    </div>
+                                </div>
+
+                                <div className="flex items-center">
+                                    <button
+                                        onClick={() => togglePhotos(latest.ro_id)}
+                                        className="p-2 text-gray-500 hover:bg-gray-100 rounded-full"
+                                        title="Photos"
+                                    >
+                                        {loadingPhotos === latest.ro_id ? <Loader2 className="w-5 h-5 animate-spin" /> : <ImageIcon className="w-5 h-5" />}
+                                    </button>
+                                    {versions.length > 1 && (
+                                        <button
+                                            onClick={() => setHistoryOpen(historyOpen === latest.ro_id ? null : latest.ro_id)}
+                                            className="p-2 text-gray-500 hover:bg-gray-100 rounded-full"
+                                            title="Version history"
+                                        >
+                                            <History className="w-5 h-5" />
+                                        </button>
+                                    )}
+                                    {canExport && (
+                                        <button
+                                            onClick={() => handleExport(latest)}
+                                            className="p-2 text-blue-600 hover:bg-blue-50 rounded-full"
+                                            title="Export CSV"
+                                        >
+                                            <Download className="w-5 h-5" />
+                                        </button>
+                                    )}
                                 </div>
                             </div>
-                        </div>
 
-                        <button
-                            onClick={() => handleExport(entry)}
-                            className="p-2 text-blue-600 hover:bg-blue-50 rounded-full"
-                            title="Export CSV"
-                        >
-                            <Download className="w-5 h-5" />
-                        </button>
-                    </div>
-                ))}
+                            {photos[latest.ro_id] && (
+                                photos[latest.ro_id].length > 0 ? (
+                                    <div className="space-y-1">
+                                        {[...new Set(photos[latest.ro_id].map((p) => p.barcode_value || ""))].map((barcode) => (
+                                            <div key={barcode}>
+                                                <div className="text-xs text-gray-500 font-mono">{barcode || "Whole RO"}</div>
+                                                <PhotoStrip
+                                                    photos={photos[latest.ro_id]
+                                                        .filter((p) => (p.barcode_value || "") === barcode)
+                                                        .map((p) => ({ id: p.id, url: p.url, taken_by: displayName(p.taken_by_profile) || undefined }))}
+                                                />
+                                            </div>
+                                        ))}
+                                    </div>
+                                ) : (
+                                    <p className="text-sm text-gray-400">No photos</p>
+                                )
+                            )}
+
+                            {historyOpen === latest.ro_id && (
+                                <ol className="border-l-2 border-gray-200 dark:border-gray-700 ml-2 pl-4 space-y-3">
+                                    {versions.map((entry) => (
+                                        <li key={entry.id} className="space-y-1">
+                                            <div className="flex justify-between items-center">
+                                                <div className="text-sm">
+                                                    <Link href={`/finals/${entry.id}`} className="font-bold text-blue-600">v{entry.version}</Link>{" "}
+                                                    <span className="text-gray-500">{new Date(entry.finalized_at).toLocaleString()}</span>
+                                                    {entry.finalized_by_profile && (
+                                                        <span className="text-gray-500"> · {displayName(entry.finalized_by_profile)}</span>
+                                                    )}
+                                                </div>
+                                                <div className="flex items-center">
+                                                    {entry.previous_entry_id && (
+                                                        <button
+                                                            onClick={() => toggleDiff(entry)}
+                                                            className="p-1 text-gray-500 hover:text-blue-600"
+                                                            title={`Compare with v${entry.version - 1}`}
+                                                        >
+                                                            {loadingDiff === entry.id ? <Loader2 className="w-4 h-4 animate-spin" /> : <GitCompare className="w-4 h-4" />}
+                                                        </button>
+                                                    )}
+                                                    {canExport && (
+                                                        <button
+                                                            onClick={() => handleExport(entry)}
+                                                            className="p-1 text-gray-500 hover:text-blue-600"
+                                                            title="Export CSV"
+                                                        >
+                                                            <Download className="w-4 h-4" />
+                                                        </button>
+                                                    )}
+                                                </div>
+                                            </div>
+                                            {entry.amend_reason && (
+                                                <div className="text-xs text-gray-600 dark:text-gray-400">Amended: {entry.amend_reason}</div>
+                                            )}
+                                            {entry.override_reason && (
+                                                <div className="text-xs text-yellow-700">Override: {entry.override_reason}</div>
+                                            )}
+                                            {diffs[entry.id] && (
+                                                <ul className="text-xs font-mono bg-gray-50 dark:bg-gray-800 rounded p-2 space-y-0.5">
+                                                    {diffs[entry.id].map((d) => (
+                                                        <li key={d.barcode_value} className={DIFF_STYLES[d.change]}>
+                                                            {d.change === "added" ? "+" : d.change === "removed" ? "−" : "~"} {d.barcode_value}: {d.before} → {d.after}
+                                                        </li>
+                                                    ))}
+                                                    {diffs[entry.id].length === 0 && <li className="text-gray-400">No part changes</li>}
+                                                </ul>
+                                            )}
+                                        </li>
+                                    ))}
+                                </ol>
+                            )}
+                        </div>
+                    );
+                })}
 
                 {entries.length === 0 && (
-                    <p className="text-center text-gray-400 py-8">No finalized ROs yet.</p>
+                    <p className="text-center text-gray-400 py-8">
+                        {filtered ? "No finalized ROs match these filters." : "No finalized ROs yet."}
+                    </p>
                 )}
             </div>
+
+            {pageCount > 1 && (
+                <nav className="flex justify-between items-center text-sm">
+                    {filters.page > 1 ? (
+                        <Link href={`/finals${finalsQueryString({ ...filters, page: filters.page - 1 })}`} className="text-blue-600 font-medium">
+                            ← Previous
+                        </Link>
+                    ) : <span />}
+                    <span className="text-gray-500">Page {filters.page} of {pageCount} · {total} entries</span>
+                    {filters.page < pageCount ? (
+                        <Link href={`/finals${finalsQueryString({ ...filters, page: filters.page + 1 })}`} className="text-blue-600 font-medium">
+                            Next →
+                        </Link>
+                    ) : <span />}
+                </nav>
+            )}
         </div>
     );
 }
@@ -0,0 +1,80 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Loader2, LogIn } from "lucide-react";
+import { signIn, getCurrentUser } from "@/actions/auth-actions";
+import { setCachedUser } from "@/utils/session";
+
+// Only follow paths on this origin; "//host" and "/\host" start with a slash but leave it
+function localPath(next: string | undefined): string {
+    if (!next?.startsWith("/")) return "/";
+    try {
+        const url = new URL(next, window.location.origin);
+        return url.origin === window.location.origin ? `${url.pathname}${url.search}${url.hash}` : "/";
+    } catch {
+        return "/";
+    }
+}
+
+export default function LoginForm({ next }: { next?: string }) {
+    const [email, setEmail] = useState("");
+    const [password, setPassword] = useState("");
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const [error, setError] = useState("");
+    const router = useRouter();
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setError("");
+        setIsSubmitting(true);
+
+        const res = await signIn(email, password);
+        if (res.error) {
+            setError(res.error);
+            setIsSubmitting(false);
+            return;
+        }
+
+        const userRes = await getCurrentUser();
+        setCachedUser(userRes.data ?? null);
+
+        router.push(localPath(next));
+        router.refresh();
+    };
+
+    return (
+        <div className="container-mobile justify-center">
+            <form onSubmit={handleSubmit} className="card space-y-4">
+                <h1 className="text-2xl font-bold">Parts Tracker</h1>
+                <p className="text-sm text-gray-500">Sign in with your workshop account.</p>
+                <input
+                    type="email"
+                    placeholder="Email"
+                    className="input"
+                    autoComplete="username"
+                    value={email}
+                    onChange={(e) => setEmail(e.target.value)}
+                    disabled={isSubmitting}
+                />
+                <input
+                    type="password"
+                    placeholder="Password"
+                    className="input"
+                    autoComplete="current-password"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    disabled={isSubmitting}
+                />
+                {error && <p className="text-red-500 text-sm">{error}</p>}
+                <button
+                    type="submit"
+                    disabled={isSubmitting || !email.trim() || !password}
+                    className="btn btn-primary w-full flex justify-center items-center gap-2"
+                >
+                    {isSubmitting ? <Loader2 className="animate-spin" /> : <><LogIn className="w-5 h-5" /> Sign In</>}
+                </button>
+            </form>
+        </div>
+    );
+}
@@ -0,0 +1,41 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { Check, X } from "lucide-react";
+
+interface PhotoAttachDialogProps {
+    photo: Blob;
+    barcodes: string[]; // the RO's part lines
+    defaultBarcode?: string;
+    onSave: (barcode?: string) => void;
+    onCancel: () => void;
+}
+
+// Choose where a just-taken photo goes: a part line or the RO as a whole
+export default function PhotoAttachDialog({ photo, barcodes, defaultBarcode, onSave, onCancel }: PhotoAttachDialogProps) {
+    const [target, setTarget] = useState(defaultBarcode ?? "");
+    const src = useMemo(() => URL.createObjectURL(photo), [photo]);
+    useEffect(() => () => URL.revokeObjectURL(src), [src]);
+
+    return (
+        <div className="fixed inset-0 bg-black/50 z-[60] flex items-center justify-center p-4">
+            <div className="card w-full max-w-md space-y-4">
+                <h2 className="text-lg font-semibold">Attach Photo</h2>
+                {/* eslint-disable-next-line @next/next/no-img-element -- local blob URL */}
+                <img src={src} alt="" className="w-full max-h-64 object-contain rounded bg-black" />
+                <select className="input" value={target} onChange={(e) => setTarget(e.target.value)}>
+                    <option value="">Whole RO</option>
+                    {barcodes.map((b) => <option key={b} value={b}>{b}</option>)}
+                </select>
+                <div className="flex gap-3">
+                    <button onClick={() => onSave(target || undefined)} className="btn btn-primary flex-1 flex justify-center items-center gap-2">
+                        <Check className="w-4 h-4" /> Attach
+                    </button>
+                    <button onClick={onCancel} className="btn btn-secondary flex-1 flex justify-center items-center gap-2">
+                        <X className="w-4 h-4" /> Discard
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,58 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { X } from "lucide-react";
+
+// Local photos carry the blob, photos from the server a signed url
+export interface PhotoSource {
+    id: string;
+    blob?: Blob;
+    url?: string;
+    taken_by?: string;
+}
+
+// Object URLs pin the blob in memory, so each one is revoked when its photo goes away
+function usePhotoSrc(photo: PhotoSource) {
+    const src = useMemo(() => (photo.blob ? URL.createObjectURL(photo.blob) : photo.url), [photo.blob, photo.url]);
+    useEffect(() => () => {
+        if (photo.blob && src) URL.revokeObjectURL(src);
+    }, [photo.blob, src]);
+    return src;
+}
+
+function Photo({ photo }: { photo: PhotoSource }) {
+    const [open, setOpen] = useState(false);
+    const src = usePhotoSrc(photo);
+    if (!src) return null; // server photo whose url could not be signed
+
+    return (
+        <>
+            <button onClick={() => setOpen(true)} className="flex-shrink-0">
+                {/* eslint-disable-next-line @next/next/no-img-element -- blob and signed URLs, nothing for next/image to optimize */}
+                <img src={src} alt="" className="w-14 h-14 object-cover rounded border" />
+            </button>
+
+            {open && (
+                <div className="fixed inset-0 z-[60] bg-black/90 flex flex-col items-center justify-center p-4" onClick={() => setOpen(false)}>
+                    <button className="absolute top-4 right-4 text-white p-2" title="Close">
+                        <X className="w-6 h-6" />
+                    </button>
+                    {/* eslint-disable-next-line @next/next/no-img-element */}
+                    <img src={src} alt="" className="max-w-full max-h-[85vh] rounded" />
+                    {photo.taken_by && <p className="text-gray-300 text-sm mt-2">by {photo.taken_by}</p>}
+                </div>
+            )}
+        </>
+    );
+}
+
+// Row of thumbnails, tap one to see it full screen
+export default function PhotoStrip({ photos }: { photos: PhotoSource[] }) {
+    if (photos.length === 0) return null;
+
+    return (
+        <div className="flex gap-2 overflow-x-auto py-1">
+            {photos.map((p) => <Photo key={p.id} photo={p} />)}
+        </div>
+    );
+}
@@ -1,11 +1,38 @@
 "use client";
 
 import { useState, useEffect, useRef, useCallback } from "react";
-import { getScannedParts, scanPart, updatePartQuantity, deletePart, finalizeRO, RO, ScannedPart, getRO } from "@/utils/db";
+import { getScannedParts, scanPart, undoScan, updatePartQuantity, deletePart, finalizeRO, RO, ScannedPart, getRO, amendRO, getConflicts, resolveConflict, resolveFailedMutation, SyncConflict, OutboxEntry, lookupBarcodes, CatalogEntry, setExpectedParts, getEvents, restorePart, ROEvent, addPhoto, getPhotos, ROPhoto } from "@/utils/db";
+import { subscribeSync, watchRO } from "@/utils/sync";
+import { ExpectedPart, reconcile } from "@/utils/reconcile";
 import Scanner from "@/components/Scanner";
-import { Trash2, Edit2, Check, X, Loader2, AlertTriangle, Save, RefreshCw, ChevronLeft, Download } from "lucide-react";
+import ExpectedParts from "@/components/ExpectedParts";
+import ROTimeline from "@/components/ROTimeline";
+import PhotoStrip from "@/components/PhotoStrip";
+import PhotoAttachDialog from "@/components/PhotoAttachDialog";
+import { compressPhoto } from "@/utils/photos";
+import { getCachedUser } from "@/utils/session";
+import { can, Role } from "@/utils/permissions";
+import { describeGS1, resolveScan } from "@/utils/gs1";
+import { attachWedgeScanner } from "@/utils/wedge";
+import { checkBarcode, getBarcodeRules, Symbology } from "@/utils/barcode-rules";
+import { Trash2, Edit2, Check, X, Loader2, AlertTriangle, Save, RefreshCw, ChevronLeft, Download, HelpCircle, RotateCcw, ImagePlus } from "lucide-react";
 import { useRouter } from "next/navigation";
 import * as XLSX from "xlsx";
+import { downloadCSV } from "@/utils/csv";
+
+function describeMutation(entry: OutboxEntry) {
+    const { barcode_value, quantity } = entry.payload;
+    switch (entry.operation) {
+        case "createRO": return "creating this RO";
+        case "scanPart": return `the scan of ${barcode_value} (x${quantity ?? 1})`;
+        case "undoScan": return `undoing a scan of ${barcode_value}`;
+        case "updatePartQuantity": return `setting ${barcode_value} to x${quantity}`;
+        case "deletePart": return `deleting ${barcode_value}`;
+        case "finalizeRO": return "finalizing this RO";
+        case "amendRO": return "reopening this RO";
+        case "setExpectedParts": return "the expected parts list";
+    }
+}
 
 export default function RODetails({ roNumber }: { roNumber: string }) {
     const [ro, setRo] = useState<RO | null>(null);
@@ -15,26 +42,45 @@ export default function RODetails({ roNumber }: { roNumber: string }) {
     const [editingId, setEditingId] = useState<string | null>(null);
     const [editQty, setEditQty] = useState<number>(0);
     const [error, setError] = useState("");
+    const [conflicts, setConflicts] = useState<SyncConflict[]>([]);
+    const [catalog, setCatalog] = useState<Map<string, CatalogEntry>>(new Map());
+    const [role, setRole] = useState<Role | null>(null);
+    const [tab, setTab] = useState<"parts" | "timeline">("parts");
+    const [events, setEvents] = useState<ROEvent[]>([]);
+    const [photos, setPhotos] = useState<ROPhoto[]>([]);
+    const [pendingPhoto, setPendingPhoto] = useState<Blob | null>(null); // taken, not yet attached
+
+    // Finalize Override State
+    const [overrideOpen, setOverrideOpen] = useState(false);
+    const [overrideReason, setOverrideReason] = useState("");
+
+    // Amend State
+    const [amendOpen, setAmendOpen] = useState(false);
+    const [amendReason, setAmendReason] = useState("");
 
     // Manual Entry State
     const [showManualInput, setShowManualInput] = useState(false);
     const [manualBarcode, setManualBarcode] = useState("");
     const [manualConfirmOpen, setManualConfirmOpen] = useState(false);
 
-    // Keyboard Buffer
-    const [scanBuffer, setScanBuffer] = useState("");
-    const [lastKeyTime, setLastKeyTime] = useState(0);
-
     const router = useRouter();
     const manualInputRef = useRef<HTMLInputElement>(null);
+    const scanRef = useRef<(raw: string) => void>(() => {});
 
     // Initial Load
     useEffect(() => {
         loadData();
+        setRole(getCachedUser()?.role ?? null);
     }, [roNumber]);
 
-    const loadData = async () => {
-        setIsLoading(true);
+    // Pull scans from other devices while this RO is open, and re-render after each sync pass
+    useEffect(() => watchRO(roNumber), [roNumber]);
+    useEffect(() => subscribeSync(() => {
+        loadData(true);
+    }), [roNumber]);
+
+    const loadData = async (background = false) => {
+        if (!background) setIsLoading(true);
         // Load RO
         const roRes = await getRO(roNumber);
         if (roRes.data) {
@@ -43,71 +89,94 @@ export default function RODetails({ roNumber }: { roNumber: string }) {
             const partsRes = await getScannedParts(roNumber); // roNumber is ID
             if (partsRes.data) {
                 setParts(partsRes.data);
+                setCatalog(await lookupBarcodes(partsRes.data.map((p) => p.barcode_value)));
             }
-        } else {
+            const conflictRes = await getConflicts(roNumber);
+            if (conflictRes.data) {
+                setConflicts(conflictRes.data);
+            }
+            const eventsRes = await getEvents(roNumber);
+            if (eventsRes.data) {
+                setEvents(eventsRes.data);
+            }
+            const photosRes = await getPhotos(roNumber);
+            if (photosRes.data) {
+                setPhotos(photosRes.data);
+            }
+        } else if (!background) {
             setError("RO not found");
         }
         setIsLoading(false);
     };
 
-    // Keyboard Listener
-    useEffect(() => {
-        const handleKeyDown = (e: KeyboardEvent) => {
-            // Ignore if input is focused (unless it's the hidden scanner input logic, but we use global listener here)
-            // If manual input is focused, let it handle keys
-            if (document.activeElement?.tagName === "INPUT" || document.activeElement?.tagName === "TEXTAREA") {
-                return;
-            }
-
-            const currentTime = Date.now();
-
-            if (e.key === "Enter") {
-                if (scanBuffer.length > 0) {
-                    handleScan(scanBuffer);
-                    setScanBuffer("");
-                }
-            } else if (e.key.length === 1) {
-                // If time between keys is too long, reset buffer (human typing vs scanner)
-                if (currentTime - lastKeyTime > 100 && scanBuffer.length > 0) {
-                    setScanBuffer(""); // Reset if too slow (likely manual typing outside input)
-                }
-                setScanBuffer(prev => prev + e.key);
-                setLastKeyTime(currentTime);
-            }
-        };
-
-        window.addEventListener("keydown", handleKeyDown);
-        return () => window.removeEventListener("keydown", handleKeyDown);
-    }, [scanBuffer, lastKeyTime]); // Dependencies might cause re-bind, but needed for state access. 
-    // Optimization: Buffer could be ref if we don't need render updates, but state is safer for now.
-
-    const handleScan = async (barcode: string) => {
-        if (!ro) return;
-        if (ro.status === "finalized") return;
+    // Camera, keyboard wedge and manual entry all land here, so the barcode rules apply to each
+    const handleScan = async (raw: string, format?: Symbology) => {
+        if (!ro) return false;
+        if (ro.status === "finalized") return false;
+
+        // GS1 labels count under their part number and may carry a quantity
+        const { barcode, quantity, gs1 } = resolveScan(raw);
+        const check = checkBarcode(barcode, getBarcodeRules(), format);
+        if (!check.ok) {
+            setError(`Rejected ${barcode}: ${check.reason}`);
+            return false;
+        }
 
         setError("");
         // Optimistic update could be done here, but DB is fast enough locally
-        const res = await scanPart(ro.ro_number, barcode);
+        const res = await scanPart(ro.ro_number, barcode, quantity, gs1);
         if (res.success && res.data) {
             loadData(); // Reload to get updated order/qty
         } else if (res.error) {
             setError(res.error);
         }
+        return res.success;
     };
 
-    // Manual Entry Logic
-    const validateManualInput = (code: string) => {
-        // Simple length check, can be Regex
-        return code.trim().length >= 3;
+    // Keyboard-wedge scanner, bound once; the ref always points at the latest handleScan
+    useEffect(() => {
+        scanRef.current = handleScan;
+    });
+    useEffect(() => attachWedgeScanner((code) => scanRef.current(code)), []);
+
+    const handleUndoScan = async (raw: string) => {
+        if (!ro) return false;
+        const { barcode, quantity } = resolveScan(raw);
+        const res = await undoScan(ro.ro_number, barcode, quantity);
+        if (res.error) setError(res.error);
+        loadData(true);
+        return res.success;
+    };
+
+    // Photos: a still from the scanner or the phone camera, then the user picks the line
+    const handlePhotoFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = "";
+        if (!file) return;
+        try {
+            setPendingPhoto(await compressPhoto(file));
+        } catch {
+            setError("Could not read photo");
+        }
     };
 
+    const handleAttachPhoto = async (barcode?: string) => {
+        if (!ro || !pendingPhoto) return;
+        const res = await addPhoto(ro.ro_number, pendingPhoto, barcode);
+        if (res.error) setError(res.error);
+        setPendingPhoto(null);
+        loadData(true);
+    };
+
+    // Manual Entry Logic
     const handleManualSubmit = (e: React.FormEvent) => {
         e.preventDefault();
         const code = manualBarcode.trim().toUpperCase();
         if (!code) return;
 
-        if (!validateManualInput(code)) {
-            setError("Invalid barcode format (min 3 chars).");
+        const check = checkBarcode(resolveScan(code).barcode, getBarcodeRules());
+        if (!check.ok) {
+            setError(`Invalid barcode: ${check.reason}`);
             return;
         }
 
@@ -126,22 +195,38 @@ export default function RODetails({ roNumber }: { roNumber: string }) {
     };
 
     // Export Logic
-    const exportXLSX = () => {
-        if (!ro || parts.length === 0) return;
-
-        const rows = parts.map((p) => ({
+    const exportRows = () => parts.map((p) => {
+        const item = catalog.get(p.barcode_value);
+        return {
             Barcode: p.barcode_value,
+            "Part Number": item?.part_number ?? "",
+            Description: item?.description ?? "",
+            Brand: item?.brand ?? "",
+            "Unit Cost": item?.unit_cost ?? "",
+            Lot: p.gs1?.lot ?? "",
+            Expiry: p.gs1?.expiry ?? "",
             Quantity: p.quantity,
             "Last Scanned": new Date(p.updated_at).toLocaleString()
-        }));
+        };
+    });
 
-        const ws = XLSX.utils.json_to_sheet(rows);
+    const exportXLSX = () => {
+        if (!ro || parts.length === 0) return;
+
+        const ws = XLSX.utils.json_to_sheet(exportRows());
         const wb = XLSX.utils.book_new();
         XLSX.utils.book_append_sheet(wb, ws, ro.ro_number);
 
         XLSX.writeFile(wb, `${ro.ro_number}.xlsx`);
     };
 
+    const exportCSV = () => {
+        if (!ro || parts.length === 0) return;
+
+        const rows = exportRows();
+        downloadCSV([Object.keys(rows[0]), ...rows.map((r) => Object.values(r))], `${ro.ro_number}.csv`);
+    };
+
     const handleUpdateQty = async (id: string) => {
         if (editQty < 1) return;
         const res = await updatePartQuantity(id, editQty);
@@ -159,15 +244,67 @@ export default function RODetails({ roNumber }: { roNumber: string }) {
         else loadData();
     };
 
+    const handleRestore = async (event: ROEvent) => {
+        const res = await restorePart(event.id);
+        if (res.error) setError(res.error);
+        loadData(true);
+    };
+
+    const handleResolveConflict = async (id: string, keep: "local" | "remote") => {
+        const res = await resolveConflict(id, keep);
+        if (res.error) setError(res.error);
+        loadData(true);
+    };
+
+    const handleResolveFailed = async (id: string, action: "retry" | "discard") => {
+        const res = await resolveFailedMutation(id, action);
+        if (res.error) setError(res.error);
+        loadData(true);
+    };
+
+    const handleSaveExpected = async (expected: ExpectedPart[]) => {
+        if (!ro) return;
+        const res = await setExpectedParts(ro.ro_number, expected);
+        if (res.error) setError(res.error);
+        loadData(true);
+    };
+
     const handleFinalize = async () => {
         if (!ro) return;
-        if (!confirm("Finalize this RO? This cannot be undone.")) return;
+
+        // Discrepancies go through the override dialog instead of a plain confirm
+        if (reconcile(ro.expected_parts, parts).hasDiscrepancies) {
+            setOverrideReason("");
+            setOverrideOpen(true);
+            return;
+        }
+
+        if (!confirm("Finalize this RO? Changes after this need an amend with a reason.")) return;
 
         const res = await finalizeRO(ro.ro_number);
         if (res.error) setError(res.error);
         else router.refresh(); // Or reload data
     };
 
+    const confirmOverrideFinalize = async () => {
+        if (!ro || !overrideReason.trim()) return;
+
+        const res = await finalizeRO(ro.ro_number, overrideReason);
+        setOverrideOpen(false);
+        if (res.error) setError(res.error);
+        else router.refresh();
+    };
+
+    const confirmAmend = async () => {
+        if (!ro || !amendReason.trim()) return;
+
+        const res = await amendRO(ro.ro_number, amendReason);
+        setAmendOpen(false);
+        setAmendReason("");
+        if (res.error) setError(res.error);
+        else loadData(true);
+    };
+
     if (isLoading) {
         return <div className="flex justify-center h-screen items-center"><Loader2 className="animate-spin w-8 h-8" /></div>;
     }
@@ -177,6 +314,11 @@ export default function RODetails({ roNumber }: { roNumber: string }) {
     }
 
     const isFinalized = ro.status === "finalized";
+    const quantityConflicts = conflicts.filter((c) => c.kind !== "failed");
+    const failedMutations = conflicts.filter((c) => c.kind === "failed");
+    const conflict = quantityConflicts[0];
+    const failed = conflict ? undefined : failedMutations[0];
+    const reconciliation = reconcile(ro.expected_parts, parts);
 
     return (
         <div className="container-mobile space-y-6 pb-24">
@@ -190,11 +332,25 @@ export default function RODetails({ roNumber }: { roNumber: string }) {
                         <span className={`inline-block px-2 py-1 rounded text-xs font-bold mt-1 ${isFinalized ? 'bg-green-100 text-green-700' : 'bg-yellow-100 text-yellow-700'}`}>
                             {ro.status.toUpperCase()}
                         </span>
+                        {(ro.created_by || ro.finalized_by) && (
+                            <div className="text-xs text-gray-500 mt-1">
+                                {ro.created_by && <>Created by {ro.created_by}</>}
+                                {ro.created_by && isFinalized && ro.finalized_by && " · "}
+                                {isFinalized && ro.finalized_by && <>Finalized by {ro.finalized_by}</>}
+                            </div>
+                        )}
                     </div>
                 </div>
-                <button onClick={exportXLSX} className="text-blue-600 flex items-center gap-1 text-sm font-medium">
-                    <Download className="w-4 h-4" /> Export
-                </button>
+                {can(role, "export") && (
+                    <div className="flex gap-3">
+                        <button onClick={exportXLSX} className="text-blue-600 flex items-center gap-1 text-sm font-medium">
+                            <Download className="w-4 h-4" /> XLSX
+                        </button>
+                        <button onClick={exportCSV} className="text-blue-600 flex items-center gap-1 text-sm font-medium">
+                            <Download className="w-4 h-4" /> CSV
+                        </button>
+                    </div>
+                )}
             </header>
 
             {error && (
@@ -210,17 +366,23 @@ export default function RODetails({ roNumber }: { roNumber: string }) {
                 <section className="space-y-4">
                     <Scanner
                         onScan={handleScan}
+                        onUndo={handleUndoScan}
                         isScanning={isScanning}
                         setIsScanning={setIsScanning}
+                        onCapture={setPendingPhoto}
                     />
 
-                    <div className="flex justify-center">
+                    <div className="flex justify-center gap-6">
                         <button
                             onClick={() => setShowManualInput(!showManualInput)}
                             className="text-sm text-blue-600 font-medium underline"
                         >
                             {showManualInput ? "Hide Manual Entry" : "Enter Barcode Manually"}
                         </button>
+                        <label className="text-sm text-blue-600 font-medium flex items-center gap-1 cursor-pointer">
+                            <ImagePlus className="w-4 h-4" /> Add Photo
+                            <input type="file" accept="image/*" capture="environment" className="hidden" onChange={handlePhotoFile} />
+                        </label>
                     </div>
 
                     {showManualInput && (
@@ -258,74 +420,304 @@ export default function RODetails({ roNumber }: { roNumber: string }) {
                 </section>
             )}
 
-            {/* Parts List */}
+            {/* Expected Parts */}
+            <ExpectedParts
+                expected={ro.expected_parts || []}
+                reconciliation={reconciliation}
+                editable={!isFinalized && can(role, "setExpected")}
+                onSave={handleSaveExpected}
+            />
+
+            {!isFinalized && ro.amend_reason && (
+                <div className="bg-blue-50 text-blue-800 p-3 rounded-lg text-sm">
+                    <span className="font-bold">Amending:</span> {ro.amend_reason}
+                </div>
+            )}
+
+            {isFinalized && ro.override_reason && (
+                <div className="bg-yellow-50 text-yellow-800 p-3 rounded-lg text-sm">
+                    <span className="font-bold">Finalized with discrepancies:</span> {ro.override_reason}
+                </div>
+            )}
+
+            {/* Parts List / Timeline */}
             <section className="space-y-4">
-                <h2 className="text-lg font-semibold">Scanned Parts ({parts.length})</h2>
-
-                <div className="space-y-3">
-                    {parts.map((part) => (
-                        <div key={part.id} className="card flex justify-between items-center">
-                            <div className="flex-1">
-                                <div className="font-mono font-bold text-lg">{part.barcode_value}</div>
-                                <div className="text-sm text-gray-500">
-                                    {new Date(part.updated_at).toLocaleTimeString()}
-                                </div>
-                            </div>
+                <div className="flex gap-4 border-b border-gray-200 dark:border-gray-800">
+                    <button
+                        onClick={() => setTab("parts")}
+                        className={`pb-2 text-lg font-semibold ${tab === "parts" ? "border-b-2 border-blue-600" : "text-gray-400"}`}
+                    >
+                        Scanned Parts ({parts.length})
+                    </button>
+                    <button
+                        onClick={() => setTab("timeline")}
+                        className={`pb-2 text-lg font-semibold ${tab === "timeline" ? "border-b-2 border-blue-600" : "text-gray-400"}`}
+                    >
+                        Timeline
+                    </button>
+                </div>
 
-                            <div className="flex items-center gap-3">
-                                {editingId === part.id ? (
-                                    <div className="flex items-center gap-2">
-                                        <input
-                                            type="number"
-                                            className="w-16 p-1 border rounded text-center"
-                                            value={editQty}
-                                            onChange={(e) => setEditQty(parseInt(e.target.value) || 0)}
-                                        />
-                                        <button onClick={() => handleUpdateQty(part.id)} className="text-green-600 p-1">
-                                            <Save className="w-5 h-5" />
-                                        </button>
-                                        <button onClick={() => setEditingId(null)} className="text-gray-500 p-1">
-                                            <X className="w-5 h-5" />
-                                        </button>
-                                    </div>
-                                ) : (
-                                    <div className="flex items-center gap-4">
-                                        <span className="text-xl font-bold">x{part.quantity}</span>
-                                        {!isFinalized && (
-                                            <div className="flex gap-2">
-                                                <button
-                                                    onClick={() => {
-                                                        setEditingId(part.id);
-                                                        setEditQty(part.quantity);
-                                                    }}
-                                                    className="text-blue-500 p-1 bg-blue-50 rounded"
-                                                >
-                                                    <Edit2 className="w-4 h-4" />
-                                                </button>
-                                                <button
-                                                    onClick={() => handleDelete(part.id)}
-                                                    className="text-red-500 p-1 bg-red-50 rounded"
-                                                >
-                                                    <Trash2 className="w-4 h-4" />
-                                                </button>
-                                            </div>
-                                        )}
+                {tab === "timeline" && (
+                    <ROTimeline
+                        events={events}
+                        restorable={(event) =>
+                            event.event_type === "delete"
+                            && !isFinalized
+                            && can(role, "deletePart")
+                            && !parts.some((p) => p.barcode_value === event.barcode_value)
+                        }
+                        onRestore={handleRestore}
+                    />
+                )}
+
+                {tab === "parts" && <div className="space-y-3">
+                    {photos.some((p) => !p.barcode_value) && (
+                        <div>
+                            <h3 className="font-medium text-gray-500 text-sm">RO Photos</h3>
+                            <PhotoStrip photos={photos.filter((p) => !p.barcode_value)} />
+                        </div>
+                    )}
+                    {parts.map((part) => {
+                        const item = catalog.get(part.barcode_value);
+                        return (
+                            <div key={part.id} className="card flex justify-between items-center">
+                                <div className="flex-1 min-w-0">
+                                    <div className="font-mono font-bold text-lg break-all">{part.barcode_value}</div>
+                                    {item ? (
+                                        <div className="text-sm truncate">
+                                            <span className="font-semibold">{item.part_number}</span>
+                                            {item.description && <span className="text-gray-600 dark:text-gray-400"> · {item.description}</span>}
+                                        </div>
+                                    ) : (
+                                        <div className="text-xs text-orange-600 flex items-center gap-1">
+                                            <HelpCircle className="w-3 h-3" /> Not in catalog
+                                        </div>
+                                    )}
+                                    {part.gs1 && (
+                                        <div className="text-xs text-gray-600 dark:text-gray-400">{describeGS1(part.gs1)}</div>
+                                    )}
+                                    <div className="text-sm text-gray-500">
+                                        {new Date(part.updated_at).toLocaleTimeString()}
+                                        {part.scanned_by && ` · ${part.scanned_by}`}
                                     </div>
-                                )}
+                                    <PhotoStrip photos={photos.filter((p) => p.barcode_value === part.barcode_value)} />
+                                </div>
+
+                                <div className="flex items-center gap-3">
+                                    {editingId === part.id ? (
+                                        <div className="flex items-center gap-2">
+                                            <input
+                                                type="number"
+                                                className="w-16 p-1 border rounded text-center"
+                                                value={editQty}
+                                                onChange={(e) => setEditQty(parseInt(e.target.value) || 0)}
+                                            />
+                                            <button onClick={() => handleUpdateQty(part.id)} className="text-green-600 p-1">
+                                                <Save className="w-5 h-5" />
+                                            </button>
+                                            <button onClick={() => setEditingId(null)} className="text-gray-500 p-1">
+                                                <X className="w-5 h-5" />
+                                            </button>
+                                        </div>
+                                    ) : (
+                                        <div className="flex items-center gap-4">
+                                            <span className="text-xl font-bold">x{part.quantity}</span>
+                                            {!isFinalized && (
+                                                <div className="flex gap-2">
+                                                    <button
+                                                        onClick={() => {
+                                                            setEditingId(part.id);
+                                                            setEditQty(part.quantity);
+                                                        }}
+                                                        className="text-blue-500 p-1 bg-blue-50 rounded"
+                                                    >
+                                                        <Edit2 className="w-4 h-4" />
+                                                    </button>
+                                                    {can(role, "deletePart") && (
+                                                        <button
+                                                            onClick={() => handleDelete(part.id)}
+                                                            className="text-red-500 p-1 bg-red-50 rounded"
+                                                        >
+                                                            <Trash2 className="w-4 h-4" />
+                                                        </button>
+                                                    )}
+                                                </div>
+                                            )}
+                                        </div>
+                                    )}
+                                </div>
                             </div>
-                        </div>
-                    ))}
+                        );
+                    })}
 
                     {parts.length === 0 && (
                         <div className="text-center py-8 text-gray-400 border-2 border-dashed rounded-lg">
                             No parts scanned yet.
                         </div>
                     )}
-                </div>
+                </div>}
             </section>
 
+            {pendingPhoto && (
+                <PhotoAttachDialog
+                    photo={pendingPhoto}
+                    barcodes={parts.map((p) => p.barcode_value)}
+                    defaultBarcode={parts[0]?.barcode_value}
+                    onSave={handleAttachPhoto}
+                    onCancel={() => setPendingPhoto(null)}
+                />
+            )}
+
+            {/* Conflict Resolution */}
+            {conflict && (
+                <div className="fixed inset-0 bg-black/50 z-[60] flex items-center justify-center p-4">
+                    <div className="card w-full max-w-md space-y-4">
+                        <h2 className="text-lg font-semibold flex items-center gap-2">
+                            <AlertTriangle className="w-5 h-5 text-yellow-500" /> Quantity Conflict
+                        </h2>
+                        <p className="text-sm text-gray-500">
+                            <span className="font-mono font-bold">{conflict.barcode_value}</span> was changed on another device
+                            while you edited it (it was x{conflict.base_quantity}). Which quantity is right?
+                        </p>
+                        <div className="grid grid-cols-2 gap-3">
+                            <button
+                                onClick={() => handleResolveConflict(conflict.id, "local")}
+                                className="border-2 border-blue-500 rounded-lg p-3 text-center hover:bg-blue-50 dark:hover:bg-gray-800"
+                            >
+                                <div className="text-xs text-gray-500">This device</div>
+                                <div className="text-3xl font-bold">x{conflict.local_quantity}</div>
+                                <div className="text-sm font-medium text-blue-600 mt-1">Keep mine</div>
+                            </button>
+                            <button
+                                onClick={() => handleResolveConflict(conflict.id, "remote")}
+                                className="border-2 border-gray-300 rounded-lg p-3 text-center hover:bg-gray-50 dark:hover:bg-gray-800"
+                            >
+                                <div className="text-xs text-gray-500">Other devices</div>
+                                <div className="text-3xl font-bold">x{conflict.remote_quantity}</div>
+                                <div className="text-sm font-medium text-gray-700 dark:text-gray-300 mt-1">Keep theirs</div>
+                            </button>
+                        </div>
+                        {quantityConflicts.length > 1 && (
+                            <p className="text-xs text-center text-gray-400">{quantityConflicts.length - 1} more to review</p>
+                        )}
+                    </div>
+                </div>
+            )}
+
+            {/* Changes the server refused */}
+            {failed && (
+                <div className="fixed inset-0 bg-black/50 z-[60] flex items-center justify-center p-4">
+                    <div className="card w-full max-w-md space-y-4">
+                        <h2 className="text-lg font-semibold flex items-center gap-2">
+                            <AlertTriangle className="w-5 h-5 text-red-500" /> Change Not Saved
+                        </h2>
+                        <p className="text-sm text-gray-500">
+                            The server refused <span className="font-medium text-gray-700 dark:text-gray-300">{describeMutation(failed.entry)}</span>:
+                        </p>
+                        <p className="text-sm text-red-600 bg-red-50 dark:bg-red-900/20 rounded p-2">{failed.error}</p>
+                        <div className="grid grid-cols-2 gap-3">
+                            <button onClick={() => handleResolveFailed(failed.id, "discard")} className="btn btn-secondary">
+                                Discard
+                            </button>
+                            <button onClick={() => handleResolveFailed(failed.id, "retry")} className="btn btn-primary">
+                                Try Again
+                            </button>
+                        </div>
+                        {failedMutations.length > 1 && (
+                            <p className="text-xs text-center text-gray-400">{failedMutations.length - 1} more to review</p>
+                        )}
+                    </div>
+                </div>
+            )}
+
+            {/* Finalize Override */}
+            {overrideOpen && (
+                <div className="fixed inset-0 bg-black/50 z-[60] flex items-center justify-center p-4">
+                    <div className="card w-full max-w-md space-y-4">
+                        <h2 className="text-lg font-semibold flex items-center gap-2">
+                            <AlertTriangle className="w-5 h-5 text-yellow-500" /> Parts Do Not Match
+                        </h2>
+                        <ul className="text-sm space-y-1">
+                            {reconciliation.lines.filter((l) => l.status !== "complete").map((l) => (
+                                <li key={l.barcode_value}>
+                                    <span className="font-mono font-bold">{l.barcode_value}</span>: {l.scanned_quantity} of {l.expected_quantity} ({l.status})
+                                </li>
+                            ))}
+                            {reconciliation.unexpected.map((p) => (
+                                <li key={p.barcode_value}>
+                                    <span className="font-mono font-bold">{p.barcode_value}</span>: x{p.quantity} not expected
+                                </li>
+                            ))}
+                        </ul>
+                        <textarea
+                            className="input text-base"
+                            rows={3}
+                            placeholder="Reason for finalizing anyway (required)"
+                            value={overrideReason}
+                            onChange={(e) => setOverrideReason(e.target.value)}
+                            autoFocus
+                        />
+                        <div className="flex gap-2">
+                            <button
+                                onClick={confirmOverrideFinalize}
+                                disabled={!overrideReason.trim()}
+                                className="btn btn-primary flex-1 bg-green-600 hover:bg-green-700 disabled:opacity-50"
+                            >
+                                Finalize Anyway
+                            </button>
+                            <button onClick={() => setOverrideOpen(false)} className="btn btn-secondary flex-1">Cancel</button>
+                        </div>
+                    </div>
+                </div>
+            )}
+
+            {/* Amend Dialog */}
+            {amendOpen && (
+                <div className="fixed inset-0 bg-black/50 z-[60] flex items-center justify-center p-4">
+                    <div className="card w-full max-w-md space-y-4">
+                        <h2 className="text-lg font-semibold flex items-center gap-2">
+                            <RotateCcw className="w-5 h-5 text-blue-500" /> Amend {ro.ro_number}
+                        </h2>
+                        <p className="text-sm text-gray-500">
+                            The RO goes back to draft. The current final stays on record and finalizing again creates a new version.
+                        </p>
+                        <textarea
+                            className="input text-base"
+                            rows={3}
+                            placeholder="Reason for amending (required)"
+                            value={amendReason}
+                            onChange={(e) => setAmendReason(e.target.value)}
+                            autoFocus
+                        />
+                        <div className="flex gap-2">
+                            <button
+                                onClick={confirmAmend}
+                                disabled={!amendReason.trim()}
+                                className="btn btn-primary flex-1 disabled:opacity-50"
+                            >
+                                Reopen RO
+                            </button>
+                            <button onClick={() => setAmendOpen(false)} className="btn btn-secondary flex-1">Cancel</button>
+                        </div>
+                    </div>
+                </div>
+            )}
+
+            {/* Amend Button */}
+            {isFinalized && can(role, "amend") && (
+                <div className="fixed bottom-0 left-0 right-0 p-4 bg-white border-t border-gray-200 dark:bg-gray-900 dark:border-gray-800 z-50">
+                    <button
+                        onClick={() => setAmendOpen(true)}
+                        className="btn btn-secondary w-full flex justify-center items-center gap-2"
+                    >
+                        <RotateCcw className="w-5 h-5" />
+                        Amend RO
+                    </button>
+                </div>
+            )}
+
             {/* Finalize Button */}
-            {!isFinalized && (
+            {!isFinalized && can(role, "finalize") && (
                 <div className="fixed bottom-0 left-0 right-0 p-4 bg-white border-t border-gray-200 dark:bg-gray-900 dark:border-gray-800 z-50">
                     <button
                         onClick={handleFinalize}
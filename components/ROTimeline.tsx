@@ -0,0 +1,81 @@
+"use client";
+
+import { ROEvent, ROEventType } from "@/utils/db";
+import { Plus, ScanLine, Edit2, Trash2, RotateCcw, Check, Unlock, CloudOff, Undo2 } from "lucide-react";
+
+const EVENT_LABELS: Record<ROEventType, { label: string; icon: typeof Plus; color: string }> = {
+    create: { label: "Created RO", icon: Plus, color: "text-gray-500" },
+    scan: { label: "Scanned", icon: ScanLine, color: "text-blue-600" },
+    undo: { label: "Undid scan", icon: Undo2, color: "text-gray-500" },
+    quantity: { label: "Changed quantity", icon: Edit2, color: "text-blue-600" },
+    delete: { label: "Removed", icon: Trash2, color: "text-red-600" },
+    restore: { label: "Restored", icon: Undo2, color: "text-green-600" },
+    finalize: { label: "Finalized", icon: Check, color: "text-green-600" },
+    amend: { label: "Reopened", icon: Unlock, color: "text-orange-600" },
+};
+
+interface ROTimelineProps {
+    events: ROEvent[]; // newest first
+    restorable: (event: ROEvent) => boolean;
+    onRestore: (event: ROEvent) => void;
+}
+
+function describeChange(event: ROEvent) {
+    const before = event.before?.quantity;
+    const after = event.after?.quantity;
+    if (event.event_type === "delete") return before !== undefined ? `x${before}` : "";
+    if (before === undefined || after === undefined) return "";
+    return `x${before} → x${after}`;
+}
+
+export default function ROTimeline({ events, restorable, onRestore }: ROTimelineProps) {
+    if (events.length === 0) {
+        return (
+            <div className="text-center py-8 text-gray-400 border-2 border-dashed rounded-lg">
+                No history yet.
+            </div>
+        );
+    }
+
+    return (
+        <ol className="border-l-2 border-gray-200 dark:border-gray-700 ml-2 pl-4 space-y-4">
+            {events.map((event) => {
+                const { label, icon: Icon, color } = EVENT_LABELS[event.event_type];
+                return (
+                    <li key={event.id} className="space-y-1">
+                        <div className="flex justify-between items-start gap-2">
+                            <div className="min-w-0">
+                                <div className={`flex items-center gap-1 font-medium ${color}`}>
+                                    <Icon className="w-4 h-4 flex-shrink-0" />
+                                    {label}
+                                    {event.barcode_value && (
+                                        <span className="font-mono font-bold text-gray-900 dark:text-gray-100 break-all">{event.barcode_value}</span>
+                                    )}
+                                    <span className="text-gray-700 dark:text-gray-300">{describeChange(event)}</span>
+                                </div>
+                                <div className="text-xs text-gray-500 flex items-center gap-1">
+                                    {new Date(event.created_at).toLocaleString()}
+                                    {event.user_name && ` · ${event.user_name}`}
+                                    {!event.synced && (
+                                        <span title="Not uploaded yet"><CloudOff className="w-3 h-3" /></span>
+                                    )}
+                                </div>
+                                {event.reason && (
+                                    <div className="text-xs text-gray-600 dark:text-gray-400">{event.reason}</div>
+                                )}
+                            </div>
+                            {restorable(event) && (
+                                <button
+                                    onClick={() => onRestore(event)}
+                                    className="text-sm text-blue-600 font-medium flex items-center gap-1 flex-shrink-0"
+                                >
+                                    <RotateCcw className="w-4 h-4" /> Restore
+                                </button>
+                            )}
+                        </div>
+                    </li>
+                );
+            })}
+        </ol>
+    );
+}
@@ -1,91 +1,241 @@
 "use client";
 
 import { useEffect, useRef, useState } from "react";
-import { BrowserMultiFormatReader } from "@zxing/browser";
-import { Camera, CameraOff, Loader2 } from "lucide-react";
-import Script from "next/script";
+import { Aperture, Camera, CameraOff, Loader2, Undo2 } from "lucide-react";
+import {
+    COOLDOWN_OPTIONS,
+    createScanDebouncer,
+    getScanSettings,
+    saveScanSettings,
+    scanFeedback,
+    ScanSettings,
+} from "@/utils/multi-scan";
+import type { Symbology } from "@/utils/barcode-rules";
+import { compressPhoto } from "@/utils/photos";
+import type { DecodeRequest, DecodeResponse, DecodeStage, OpenCVStatus } from "@/workers/decode-messages";
 
 interface ScannerProps {
-    onScan: (result: string) => void;
+    onScan: (result: string, format?: Symbology) => void | Promise<boolean>; // resolve false when the scan was not recorded
+    onUndo?: (result: string) => Promise<boolean>; // takes one scan of the code back off
     isScanning: boolean;
     setIsScanning: (scanning: boolean) => void;
+    mode?: "parts" | "ro"; // "ro" stops at the first accepted code and has no tally
+    onCapture?: (photo: Blob) => void; // shows a button that takes a still of the camera view
 }
 
-declare global {
-    interface Window {
-        cv: any;
-    }
+// Accepted scans of this camera session, most recent first
+interface TallyEntry {
+    barcode: string;
+    count: number;
+}
+
+const TALLY_SIZE = 4;
+
+// Older phones can't decode every camera frame, cap the rate sent to the worker
+const MAX_FPS = 8;
+const FRAME_INTERVAL_MS = 1000 / MAX_FPS;
+
+// Extra margin around the on-screen target box, barcodes often stick out of it
+const CROP_MARGIN = 0.15;
+
+const STAGE_LABELS: Record<DecodeStage, string> = {
+    Native: "BD",
+    Normal: "N",
+    Grayscale: "G",
+    Contrast: "C",
+    Threshold: "T",
+};
+
+// The target box in video pixels; the video is shown with object-cover, so undo that scaling
+function getCropRect(video: HTMLVideoElement, box: HTMLElement) {
+    const view = video.getBoundingClientRect();
+    const target = box.getBoundingClientRect();
+    const scale = Math.max(view.width / video.videoWidth, view.height / video.videoHeight);
+    const offsetX = (view.width - video.videoWidth * scale) / 2;
+    const offsetY = (view.height - video.videoHeight * scale) / 2;
+
+    const marginX = target.width * CROP_MARGIN;
+    const marginY = target.height * CROP_MARGIN;
+    const left = Math.max(0, (target.left - view.left - offsetX - marginX) / scale);
+    const top = Math.max(0, (target.top - view.top - offsetY - marginY) / scale);
+    const right = Math.min(video.videoWidth, (target.right - view.left - offsetX + marginX) / scale);
+    const bottom = Math.min(video.videoHeight, (target.bottom - view.top - offsetY + marginY) / scale);
+
+    return { x: Math.round(left), y: Math.round(top), width: Math.round(right - left), height: Math.round(bottom - top) };
 }
 
-export default function Scanner({ onScan, isScanning, setIsScanning }: ScannerProps) {
+export default function Scanner({ onScan, onUndo, isScanning, setIsScanning, mode = "parts", onCapture }: ScannerProps) {
     const videoRef = useRef<HTMLVideoElement>(null);
-    const canvasRef = useRef<HTMLCanvasElement>(null);
+    const canvasRef = useRef<HTMLCanvasElement>(null); // only used where createImageBitmap is missing
+    const boxRef = useRef<HTMLDivElement>(null);
     const [error, setError] = useState<string>("");
-    const [cvLoaded, setCvLoaded] = useState(false);
+    const [engine, setEngine] = useState<{ native: boolean; opencv: OpenCVStatus }>({ native: false, opencv: "idle" });
     const [processing, setProcessing] = useState(false);
 
     // Scan stats for debug
     const [debugInfo, setDebugInfo] = useState("");
+    const [timings, setTimings] = useState<Partial<Record<DecodeStage, number>>>({});
+
+    // Continuous mode
+    const [settings, setSettings] = useState<ScanSettings>(getScanSettings);
+    const [tally, setTally] = useState<TallyEntry[]>([]);
+    const settingsRef = useRef(settings);
+    const debouncerRef = useRef(createScanDebouncer(settings.cooldownMs));
 
-    const codeReader = useRef(new BrowserMultiFormatReader());
+    const workerRef = useRef<Worker | null>(null);
     const streamRef = useRef<MediaStream | null>(null);
     const scanLoopRef = useRef<number | null>(null);
+    const activeRef = useRef(false); // the frame loop runs while this is set
+    const busyRef = useRef(false); // a frame is in the worker
+    const lastFrameRef = useRef(0);
+    const frameIdRef = useRef(0);
+
+    // The worker's onmessage handler is set once per camera session, read the latest onScan through this
+    const onScanRef = useRef(onScan);
+    useEffect(() => {
+        onScanRef.current = onScan;
+    }, [onScan]);
+
+    const updateSettings = (changes: Partial<ScanSettings>) => {
+        const next = { ...settings, ...changes };
+        setSettings(next);
+        saveScanSettings(next);
+        settingsRef.current = next;
+        if (changes.cooldownMs !== undefined) debouncerRef.current = createScanDebouncer(next.cooldownMs);
+    };
+
+    // Runs every animation frame, hands at most MAX_FPS cropped frames to the worker, one at a time
+    const processFrame = (time: number) => {
+        if (!activeRef.current) return;
+        scanLoopRef.current = requestAnimationFrame(processFrame);
+
+        const video = videoRef.current;
+        if (!video || !boxRef.current || video.readyState !== video.HAVE_ENOUGH_DATA) return;
+        if (busyRef.current || time - lastFrameRef.current < FRAME_INTERVAL_MS) return;
+
+        busyRef.current = true;
+        lastFrameRef.current = time;
+        setProcessing(true);
+        sendFrame(video, getCropRect(video, boxRef.current)).catch((err) => {
+            console.error("Frame capture failed", err);
+            busyRef.current = false;
+        });
+    };
+
+    const sendFrame = async (video: HTMLVideoElement, crop: { x: number; y: number; width: number; height: number }) => {
+        const worker = workerRef.current;
+        if (!worker || crop.width <= 0 || crop.height <= 0) {
+            busyRef.current = false;
+            return;
+        }
+        const id = ++frameIdRef.current;
+
+        // ImageBitmap is cropped and copied off the main thread
+        if (typeof createImageBitmap === "function") {
+            const image = await createImageBitmap(video, crop.x, crop.y, crop.width, crop.height);
+            worker.postMessage({ type: "frame", id, image } satisfies DecodeRequest, [image]);
+            return;
+        }
+
+        const canvas = canvasRef.current!;
+        const ctx = canvas.getContext("2d", { willReadFrequently: true })!;
+        canvas.width = crop.width;
+        canvas.height = crop.height;
+        ctx.drawImage(video, crop.x, crop.y, crop.width, crop.height, 0, 0, crop.width, crop.height);
+        const image = ctx.getImageData(0, 0, crop.width, crop.height);
+        worker.postMessage({ type: "frame", id, image } satisfies DecodeRequest, [image.data.buffer]);
+    };
 
-    // Load OpenCV
-    const handleCvLoad = () => {
-        // Wait for runtime to be ready
-        if (window.cv && window.cv.getBuildInformation) {
-            setCvLoaded(true);
-            console.log("OpenCV.js Loaded");
+    const handleWorkerMessage = (message: DecodeResponse) => {
+        if (message.type === "engine") {
+            setEngine({ native: message.native, opencv: message.opencv });
         } else {
-            // Sometimes cv is defined but not ready, wait a bit
-            setTimeout(handleCvLoad, 50);
+            handleResult(message);
         }
     };
 
-    useEffect(() => {
-        if (!isScanning) {
-            stopScan();
+    const handleResult = async (result: Extract<DecodeResponse, { type: "result" }>) => {
+        // A frame that was in the worker when scanning stopped
+        if (!activeRef.current) {
+            busyRef.current = false;
+            setProcessing(false);
             return;
         }
 
-        startScan();
-
-        return () => {
-            stopScan();
-        };
-    }, [isScanning, cvLoaded]);
+        setTimings(result.timings);
+        // Every frame goes through the debouncer, empty ones count towards a code leaving the frame
+        const counts = debouncerRef.current.accept(result.text || null);
+        if (result.text) {
+            setDebugInfo(`Found via ${result.stage}`);
+            if (counts) await handleDecoded(result.text, result.format); // else still in view from the last count
+        }
+        busyRef.current = false;
+        setProcessing(false);
+    };
 
-    const startScan = async () => {
-        if (!cvLoaded) return; // Wait for CV
-        if (!videoRef.current) return;
+    // Record and give feedback for one counted code
+    const handleDecoded = async (text: string, format?: Symbology) => {
+        const recorded = (await onScanRef.current(text, format)) !== false;
+        scanFeedback(recorded);
+        if (!recorded) return;
 
-        try {
-            const constraints = {
-                video: {
-                    facingMode: "environment",
-                    width: { ideal: 1280 },
-                    height: { ideal: 720 },
-                },
-            };
-
-            const stream = await navigator.mediaDevices.getUserMedia(constraints);
-            streamRef.current = stream;
-            videoRef.current.srcObject = stream;
-
-            // Wait for video to play
-            videoRef.current.onloadedmetadata = () => {
-                videoRef.current?.play();
-                requestAnimationFrame(processFrame);
-            };
-
-        } catch (err: any) {
-            setError("Camera access denied or failed.");
+        if (mode === "ro") {
             setIsScanning(false);
+            return;
         }
+
+        setTally((prev) => {
+            const existing = prev.find((t) => t.barcode === text);
+            const rest = prev.filter((t) => t !== existing);
+            return [{ barcode: text, count: (existing?.count || 0) + 1 }, ...rest];
+        });
+
+        if (!settingsRef.current.continuous) setIsScanning(false);
+    };
+
+    // Runs from the isScanning effect, so state is only set in the camera's callbacks
+    const startScan = () => {
+        if (!workerRef.current) return;
+        if (!videoRef.current) return;
+
+        activeRef.current = true;
+        busyRef.current = false;
+        debouncerRef.current.reset();
+        workerRef.current.onmessage = ({ data }: MessageEvent<DecodeResponse>) => handleWorkerMessage(data);
+
+        const constraints = {
+            video: {
+                facingMode: "environment",
+                width: { ideal: 1280 },
+                height: { ideal: 720 },
+            },
+        };
+
+        navigator.mediaDevices.getUserMedia(constraints).then(
+            (stream) => {
+                // Stopped while the camera was starting
+                if (!activeRef.current || !videoRef.current) {
+                    stream.getTracks().forEach(t => t.stop());
+                    return;
+                }
+                streamRef.current = stream;
+                videoRef.current.srcObject = stream;
+
+                // Wait for video to play
+                videoRef.current.onloadedmetadata = () => {
+                    videoRef.current?.play();
+                    scanLoopRef.current = requestAnimationFrame(processFrame);
+                };
+            },
+            () => {
+                setError("Camera access denied or failed.");
+                setIsScanning(false);
+            }
+        );
     };
 
     const stopScan = () => {
+        activeRef.current = false;
         if (scanLoopRef.current) {
             cancelAnimationFrame(scanLoopRef.current);
             scanLoopRef.current = null;
@@ -96,173 +246,176 @@ export default function Scanner({ onScan, isScanning, setIsScanning }: ScannerPr
         }
     };
 
-    const processFrame = async () => {
-        if (!isScanning || !videoRef.current || !canvasRef.current || !window.cv) return;
-
-        const video = videoRef.current;
-        const canvas = canvasRef.current;
-        const ctx = canvas.getContext("2d");
-
-        if (video.readyState === video.HAVE_ENOUGH_DATA && ctx) {
-            canvas.width = video.videoWidth;
-            canvas.height = video.videoHeight;
-            ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
-
-            setProcessing(true);
-            try {
-                // 1. Try Normal Decode First (Fastest)
-                if (await decodeFromCanvas(canvas, "Normal")) {
-                    setProcessing(false);
-                    return; // Success, loop stops automatically via onScan logic if parent closes, but we keep running if parent keeps open
-                }
-
-                // 2. Grayscale
-                let src = window.cv.imread(canvas);
-                let dst = new window.cv.Mat();
-                window.cv.cvtColor(src, dst, window.cv.COLOR_RGBA2GRAY, 0);
+    // Decode worker; it checks for a native BarcodeDetector and only loads OpenCV when a frame needs it
+    useEffect(() => {
+        const worker = new Worker(new URL("../workers/decode.worker.ts", import.meta.url));
+        worker.onmessage = ({ data }: MessageEvent<DecodeResponse>) => handleWorkerMessage(data);
+        worker.postMessage({ type: "init" } satisfies DecodeRequest);
+        workerRef.current = worker;
 
-                // Draw back to canvas for decoding
-                window.cv.imshow(canvas, dst);
-                if (await decodeFromCanvas(canvas, "Grayscale")) {
-                    src.delete(); dst.delete();
-                    setProcessing(false);
-                    return;
-                }
+        return () => {
+            worker.terminate();
+            workerRef.current = null;
+        };
+    }, []);
 
-                // 3. High Contrast (Histogram Equalization)
-                window.cv.equalizeHist(dst, dst);
-                window.cv.imshow(canvas, dst);
-                if (await decodeFromCanvas(canvas, "Contrast")) {
-                    src.delete(); dst.delete();
-                    setProcessing(false);
-                    return;
-                }
+    useEffect(() => {
+        if (!isScanning) {
+            stopScan();
+            return;
+        }
 
-                // 4. Binarization (Threshold)
-                // block size 11, C 2
-                window.cv.adaptiveThreshold(dst, dst, 255, window.cv.ADAPTIVE_THRESH_GAUSSIAN_C, window.cv.THRESH_BINARY, 11, 2);
-                window.cv.imshow(canvas, dst);
-                if (await decodeFromCanvas(canvas, "Threshold")) {
-                    src.delete(); dst.delete();
-                    setProcessing(false);
-                    return;
-                }
+        startScan();
 
-                src.delete();
-                dst.delete();
+        return () => {
+            stopScan();
+        };
+    }, [isScanning]);
 
-            } catch (e) {
-                console.error("CV Error", e);
-            }
-            setProcessing(false);
+    const handleCapture = async () => {
+        const video = videoRef.current;
+        if (!onCapture || !video || video.readyState < video.HAVE_CURRENT_DATA) return;
+        try {
+            onCapture(await compressPhoto(video));
+        } catch {
+            setError("Could not take photo.");
         }
-
-        // Schedule next frame
-        // throttle slightly to save battery if needed, but for hard decode we want max attempt rate
-        scanLoopRef.current = requestAnimationFrame(processFrame);
     };
 
-    const decodeFromCanvas = async (canvas: HTMLCanvasElement, method: string): Promise<boolean> => {
-        try {
-            // ZXing Browser decode from canvas
-            // We can use decodeFromCanvas method of codeReader
-
-            // Note: codeReader.decodeFromCanvas often takes an image element or url. 
-            // We use the simpler `decodeFromImageElement` if we have an image, or just pass data URL?
-            // Actually BrowserMultiFormatReader has decodeFromCanvas but it expects an ID or element. It re-reads the element.
-
-            // Better: Capture data from canvas and pass to reader (or helper)
-            // But codeReader is designed to attach to a loop. We are manually driving the loop.
-            // Using `decodeFromImage` with a data URL from canvas is heavy.
-
-            // Use `decodeFromCanvas` by passing the ref directly. 
-            // However, ZXing's `decodeFromCanvas` might be running its own loop if we are not careful.
-            // We want SINGLE SHOT decode.
-
-            // The library exposes `decodeOnceFromVideoDevice` etc. 
-            // For simple image/canvas: `decodeFromCanvas(canvas)` returns a promise with result.
-            // But we modified the content of canvas!
-
-            const result = await codeReader.current.decodeFromCanvas(canvas);
-
-            if (result) {
-                const text = result.getText();
-                console.log(`Scanned (${method}):`, text);
-                setDebugInfo(`Found via ${method}`);
-                onScan(text);
-                return true;
-            }
-        } catch (err) {
-            // NotFoundException is normal
-        }
-        return false;
+    const handleUndo = async (barcode: string) => {
+        if (!onUndo || !(await onUndo(barcode))) return;
+        setTally((prev) => prev
+            .map((t) => t.barcode === barcode ? { ...t, count: t.count - 1 } : t)
+            .filter((t) => t.count > 0));
     };
 
     if (!isScanning) {
         return (
-            <>
-                <Script
-                    src="/lib/opencv.js"
-                    strategy="lazyOnload"
-                    onLoad={handleCvLoad}
-                />
-                <button
-                    onClick={() => setIsScanning(true)}
-                    className="btn btn-primary w-full flex justify-center items-center gap-2 py-4 text-lg bg-blue-600 hover:bg-blue-700 text-white font-bold rounded-lg shadow-md transition-all"
-                    disabled={!cvLoaded}
-                >
-                    {cvLoaded ? <Camera className="w-6 h-6" /> : <Loader2 className="animate-spin w-5 h-5" />}
-                    {cvLoaded ? "Start Advanced Scanner" : "Loading Engine..."}
-                </button>
-            </>
+            <button
+                onClick={() => {
+                    setTally([]);
+                    setIsScanning(true);
+                }}
+                className="btn btn-primary w-full flex justify-center items-center gap-2 py-4 text-lg bg-blue-600 hover:bg-blue-700 text-white font-bold rounded-lg shadow-md transition-all"
+            >
+                <Camera className="w-6 h-6" />
+                {mode === "ro" ? "Scan RO" : "Start Scanner"}
+            </button>
         );
     }
 
     return (
-        <div className="relative bg-black rounded-lg overflow-hidden aspect-video shadow-xl ring-1 ring-gray-900/5">
-            {/* The video source (hidden, we draw to canvas) */}
-            <video
-                ref={videoRef}
-                className="hidden" // Hiding video, showing canvas
-                playsInline
-                muted
-                autoPlay
-            />
-
-            {/* The Processing Canvas (Visible) */}
-            <canvas
-                ref={canvasRef}
-                className="w-full h-full object-cover"
-            />
-
-            {/* Overlay */}
-            <div className="absolute inset-0 border-2 border-blue-500/30 pointer-events-none flex items-center justify-center">
-                <div className="w-64 h-40 border-2 border-red-500/80 rounded-lg relative">
-                    <div className="absolute top-0 left-0 w-4 h-4 border-t-4 border-l-4 border-red-500 -mt-1 -ml-1"></div>
-                    <div className="absolute top-0 right-0 w-4 h-4 border-t-4 border-r-4 border-red-500 -mt-1 -mr-1"></div>
-                    <div className="absolute bottom-0 left-0 w-4 h-4 border-b-4 border-l-4 border-red-500 -mb-1 -ml-1"></div>
-                    <div className="absolute bottom-0 right-0 w-4 h-4 border-b-4 border-r-4 border-red-500 -mb-1 -mr-1"></div>
+        <div className="space-y-2">
+            <div className="relative bg-black rounded-lg overflow-hidden aspect-video shadow-xl ring-1 ring-gray-900/5">
+                {/* The camera view, decoding happens in the worker */}
+                <video
+                    ref={videoRef}
+                    className="w-full h-full object-cover"
+                    playsInline
+                    muted
+                    autoPlay
+                />
+
+                {/* Crop buffer for browsers without createImageBitmap */}
+                <canvas ref={canvasRef} className="hidden" />
+
+                {/* Overlay */}
+                <div className="absolute inset-0 border-2 border-blue-500/30 pointer-events-none flex items-center justify-center">
+                    <div ref={boxRef} className="w-64 h-40 border-2 border-red-500/80 rounded-lg relative">
+                        <div className="absolute top-0 left-0 w-4 h-4 border-t-4 border-l-4 border-red-500 -mt-1 -ml-1"></div>
+                        <div className="absolute top-0 right-0 w-4 h-4 border-t-4 border-r-4 border-red-500 -mt-1 -mr-1"></div>
+                        <div className="absolute bottom-0 left-0 w-4 h-4 border-b-4 border-l-4 border-red-500 -mb-1 -ml-1"></div>
+                        <div className="absolute bottom-0 right-0 w-4 h-4 border-b-4 border-r-4 border-red-500 -mb-1 -mr-1"></div>
+                    </div>
                 </div>
-            </div>
 
-            {/* Debug Info */}
-            <div className="absolute top-2 left-2 bg-black/60 text-white text-xs px-2 py-1 rounded">
-                {processing ? <Loader2 className="w-3 h-3 animate-spin inline mr-1" /> : null}
-                Mode: Hard Decode {debugInfo && `| ${debugInfo}`}
-            </div>
+                {/* Debug Info */}
+                <div className="absolute top-2 left-2 bg-black/60 text-white text-xs px-2 py-1 rounded">
+                    {processing ? <Loader2 className="w-3 h-3 animate-spin inline mr-1" /> : null}
+                    Mode: {engine.native ? "Native" : "ZXing"}
+                    {engine.opencv === "loading" && " | loading OpenCV"}
+                    {engine.opencv === "failed" && " | OpenCV unavailable"}
+                    {debugInfo && ` | ${debugInfo}`}
+                    {Object.keys(timings).length > 0 && (
+                        <div className="font-mono">
+                            {(Object.keys(timings) as DecodeStage[])
+                                .map((stage) => `${STAGE_LABELS[stage]} ${timings[stage]!.toFixed(0)}ms`)
+                                .join(" · ")}
+                        </div>
+                    )}
+                </div>
 
-            <button
-                onClick={() => setIsScanning(false)}
-                className="absolute top-2 right-2 bg-black/50 text-white p-2 rounded-full hover:bg-black/70 transition-colors"
-            >
-                <CameraOff className="w-5 h-5" />
-            </button>
+                <button
+                    onClick={() => setIsScanning(false)}
+                    className="absolute top-2 right-2 bg-black/50 text-white p-2 rounded-full hover:bg-black/70 transition-colors"
+                >
+                    <CameraOff className="w-5 h-5" />
+                </button>
 
-            {error && (
-                <div className="absolute bottom-0 inset-x-0 bg-red-600 text-white p-2 text-center text-sm">
-                    {error}
-                </div>
-            )}
+                {onCapture && (
+                    <button
+                        onClick={handleCapture}
+                        className="absolute bottom-2 right-2 bg-black/50 text-white p-2 rounded-full hover:bg-black/70 transition-colors"
+                        title="Take photo"
+                    >
+                        <Aperture className="w-5 h-5" />
+                    </button>
+                )}
+
+                {/* Tally */}
+                {tally.length > 0 && (
+                    <div className="absolute bottom-2 left-2 bg-black/70 text-white text-sm rounded-lg p-2 space-y-1 min-w-40">
+                        <div className="text-xs text-gray-300">
+                            {tally.reduce((sum, t) => sum + t.count, 0)} scanned
+                        </div>
+                        {tally.slice(0, TALLY_SIZE).map((t) => (
+                            <div key={t.barcode} className="flex justify-between items-center gap-3">
+                                <span className="font-mono truncate max-w-36">{t.barcode}</span>
+                                <span className="flex items-center gap-2">
+                                    <span className="font-bold">x{t.count}</span>
+                                    {onUndo && (
+                                        <button onClick={() => handleUndo(t.barcode)} className="p-1 rounded hover:bg-white/20" title="Undo one scan">
+                                            <Undo2 className="w-4 h-4" />
+                                        </button>
+                                    )}
+                                </span>
+                            </div>
+                        ))}
+                    </div>
+                )}
+
+                {error && (
+                    <div className="absolute bottom-0 inset-x-0 bg-red-600 text-white p-2 text-center text-sm">
+                        {error}
+                    </div>
+                )}
+            </div>
+
+            {/* Continuous Mode Settings */}
+            {mode === "parts" && <div className="flex justify-between items-center text-sm">
+                <label className="flex items-center gap-2">
+                    <input
+                        type="checkbox"
+                        checked={settings.continuous}
+                        onChange={(e) => updateSettings({ continuous: e.target.checked })}
+                    />
+                    Continuous
+                </label>
+                {settings.continuous && (
+                    <label className="flex items-center gap-2 text-gray-500">
+                        Count again after
+                        <select
+                            className="border rounded p-1 bg-transparent"
+                            value={settings.cooldownMs}
+                            onChange={(e) => updateSettings({ cooldownMs: Number(e.target.value) })}
+                        >
+                            {COOLDOWN_OPTIONS.map((ms) => (
+                                <option key={ms} value={ms}>{ms / 1000}s</option>
+                            ))}
+                        </select>
+                    </label>
+                )}
+            </div>}
         </div>
     );
 }
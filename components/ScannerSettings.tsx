@@ -0,0 +1,121 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { ChevronLeft, Keyboard } from "lucide-react";
+import {
+    attachWedgeScanner,
+    DEFAULT_WEDGE_SETTINGS,
+    getWedgeSettings,
+    saveWedgeSettings,
+    WEDGE_KEYS,
+    WedgeSettings,
+} from "@/utils/wedge";
+
+const CUSTOM = "custom";
+
+// Prefix / suffix picker: one of the usual keys, or any single character the scanner is set to send
+function KeySelect({ label, value, allowNone, onChange }: {
+    label: string;
+    value: string;
+    allowNone: boolean;
+    onChange: (key: string) => void;
+}) {
+    const options = WEDGE_KEYS.filter((k) => allowNone || k.key !== "");
+    const isCustom = !options.some((k) => k.key === value);
+
+    return (
+        <div className="flex items-center gap-3">
+            <span className="w-28 text-sm font-medium">{label}</span>
+            <select
+                className="input py-2 text-base"
+                value={isCustom ? CUSTOM : value}
+                onChange={(e) => onChange(e.target.value === CUSTOM ? "~" : e.target.value)}
+            >
+                {options.map((k) => <option key={k.label} value={k.key}>{k.label}</option>)}
+                <option value={CUSTOM}>Custom character</option>
+            </select>
+            {isCustom && (
+                <input
+                    type="text"
+                    maxLength={1}
+                    className="input py-2 text-base font-mono w-14 text-center"
+                    value={value}
+                    onChange={(e) => e.target.value && onChange(e.target.value)}
+                />
+            )}
+        </div>
+    );
+}
+
+export default function ScannerSettings() {
+    const [settings, setSettings] = useState<WedgeSettings>(getWedgeSettings);
+    const [lastScan, setLastScan] = useState("");
+
+    // Scans on this screen only show up below, so the settings can be tried with the real scanner
+    useEffect(() => attachWedgeScanner((code) => setLastScan(code), settings), [settings]);
+
+    const update = (changes: Partial<WedgeSettings>) => {
+        const next = { ...settings, ...changes };
+        setSettings(next);
+        saveWedgeSettings(next);
+    };
+
+    return (
+        <div className="container-mobile space-y-6">
+            <header className="flex items-center gap-4">
+                <Link href="/" className="text-gray-500">
+                    <ChevronLeft className="w-6 h-6" />
+                </Link>
+                <h1 className="text-2xl font-bold">Settings</h1>
+            </header>
+
+            <section className="card space-y-3">
+                <h2 className="text-lg font-semibold flex items-center gap-2">
+                    <Keyboard className="w-5 h-5" /> Keyboard Scanner
+                </h2>
+                <p className="text-sm text-gray-500">
+                    For USB and Bluetooth scanners that type the barcode. Match these to how the scanner is configured.
+                    Saved on this device only.
+                </p>
+                <KeySelect label="Prefix" value={settings.prefix} allowNone onChange={(prefix) => update({ prefix })} />
+                <KeySelect label="Suffix" value={settings.suffix} allowNone={false} onChange={(suffix) => update({ suffix })} />
+                <div className="flex items-center gap-3">
+                    <span className="w-28 text-sm font-medium">Key timeout</span>
+                    <input
+                        type="number"
+                        min={10}
+                        max={1000}
+                        className="input py-2 text-base w-24"
+                        value={settings.timeoutMs}
+                        onChange={(e) => update({ timeoutMs: parseInt(e.target.value) || DEFAULT_WEDGE_SETTINGS.timeoutMs })}
+                    />
+                    <span className="text-sm text-gray-500">ms</span>
+                </div>
+                <div className="flex items-center gap-3">
+                    <span className="w-28 text-sm font-medium">Min length</span>
+                    <input
+                        type="number"
+                        min={1}
+                        className="input py-2 text-base w-24"
+                        value={settings.minLength}
+                        onChange={(e) => update({ minLength: parseInt(e.target.value) || 1 })}
+                    />
+                </div>
+                {!settings.prefix && (
+                    <p className="text-xs text-gray-500">
+                        Without a prefix, scans are ignored while a text field has focus.
+                    </p>
+                )}
+            </section>
+
+            <section className="card space-y-2">
+                <h2 className="text-lg font-semibold">Test</h2>
+                <p className="text-sm text-gray-500">Scan any barcode with the keyboard scanner.</p>
+                <div className="font-mono font-bold text-lg break-all min-h-7">
+                    {lastScan || <span className="text-gray-400 font-normal text-sm">Nothing scanned yet</span>}
+                </div>
+            </section>
+        </div>
+    );
+}
@@ -0,0 +1,23 @@
+"use client";
+
+import { useEffect } from "react";
+import { startSyncEngine } from "@/utils/sync";
+import { getCurrentUser } from "@/actions/auth-actions";
+import { setCachedUser } from "@/utils/session";
+
+// Mounted once in the root layout so the outbox drains on every page
+export default function SyncManager() {
+    useEffect(() => startSyncEngine(), []);
+
+    // Keep the cached user fresh for offline attribution; offline the cache is left alone
+    useEffect(() => {
+        getCurrentUser()
+            .then((res) => {
+                if (res.data) setCachedUser(res.data);
+                else if (res.error === "Not signed in") setCachedUser(null);
+            })
+            .catch(() => {});
+    }, []);
+
+    return null;
+}
@@ -0,0 +1,165 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { ChevronLeft, Download } from "lucide-react";
+import * as XLSX from "xlsx";
+import type { UsageReport as Report } from "@/utils/usage-report";
+
+interface UsageReportProps {
+    report?: Report;
+    from: string;
+    to: string;
+    error?: string;
+}
+
+const TOP_PARTS = 50; // the export always has every part
+
+// Summary, per-part totals, weekly trend and a part x week grid
+function exportXLSX(report: Report) {
+    const wb = XLSX.utils.book_new();
+
+    XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet([
+        { Metric: "From", Value: report.from },
+        { Metric: "To", Value: report.to },
+        { Metric: "ROs", Value: report.ro_count },
+        { Metric: "Parts", Value: report.parts.length },
+        { Metric: "Units", Value: report.total_quantity },
+        { Metric: "Units per RO", Value: report.ro_count ? Math.round((report.total_quantity / report.ro_count) * 100) / 100 : 0 },
+    ]), "Summary");
+
+    XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(report.parts.map((p) => ({
+        "Part Number": p.part_number ?? "",
+        Barcodes: p.barcodes.join(", "),
+        Description: p.description ?? "",
+        Brand: p.brand ?? "",
+        "Unit Cost": p.unit_cost ?? "",
+        Quantity: p.quantity,
+        ROs: p.ro_count,
+        "Avg per RO": p.avg_per_ro,
+    }))), "Parts");
+
+    XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(report.weeks.map((w) => ({
+        "Week Of": w.week,
+        Quantity: w.quantity,
+        ROs: w.ro_count,
+    }))), "Weekly");
+
+    XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(report.parts.map((p) => ({
+        Part: p.key,
+        ...Object.fromEntries(report.weeks.map((w) => [w.week, p.by_week[w.week] ?? 0])),
+    }))), "Parts by Week");
+
+    XLSX.writeFile(wb, `parts_usage_${report.from}_${report.to}.xlsx`);
+}
+
+export default function UsageReport({ report, from: initialFrom, to: initialTo, error }: UsageReportProps) {
+    const router = useRouter();
+    const [from, setFrom] = useState(initialFrom);
+    const [to, setTo] = useState(initialTo);
+
+    const maxWeek = Math.max(1, ...(report?.weeks.map((w) => w.quantity) || []));
+
+    return (
+        <div className="container-mobile space-y-6">
+            <header className="flex justify-between items-center">
+                <div className="flex items-center gap-4">
+                    <Link href="/" className="text-gray-500">
+                        <ChevronLeft className="w-6 h-6" />
+                    </Link>
+                    <h1 className="text-2xl font-bold">Parts Usage</h1>
+                </div>
+                {report && report.parts.length > 0 && (
+                    <button onClick={() => exportXLSX(report)} className="text-blue-600 flex items-center gap-1 text-sm font-medium">
+                        <Download className="w-4 h-4" /> Export
+                    </button>
+                )}
+            </header>
+
+            <form
+                onSubmit={(e) => {
+                    e.preventDefault();
+                    router.push(`/reports?from=${from}&to=${to}`);
+                }}
+                className="card flex items-end gap-2"
+            >
+                <label className="text-sm space-y-1 flex-1">
+                    <span className="text-gray-500">From</span>
+                    <input type="date" required className="input py-2 text-base" value={from} onChange={(e) => setFrom(e.target.value)} />
+                </label>
+                <label className="text-sm space-y-1 flex-1">
+                    <span className="text-gray-500">To</span>
+                    <input type="date" required className="input py-2 text-base" value={to} onChange={(e) => setTo(e.target.value)} />
+                </label>
+                <button type="submit" className="btn btn-primary py-2">Run</button>
+            </form>
+
+            {error && <p className="text-red-500 text-sm">{error}</p>}
+
+            {report && (
+                <>
+                    <section className="grid grid-cols-3 gap-2 text-center">
+                        <div className="card p-3">
+                            <div className="text-2xl font-bold">{report.total_quantity}</div>
+                            <div className="text-xs text-gray-500">Units</div>
+                        </div>
+                        <div className="card p-3">
+                            <div className="text-2xl font-bold">{report.ro_count}</div>
+                            <div className="text-xs text-gray-500">ROs</div>
+                        </div>
+                        <div className="card p-3">
+                            <div className="text-2xl font-bold">{report.parts.length}</div>
+                            <div className="text-xs text-gray-500">Parts</div>
+                        </div>
+                    </section>
+
+                    <section className="card space-y-2">
+                        <h2 className="text-lg font-semibold">Units per Week</h2>
+                        <div className="flex items-end gap-1 h-32">
+                            {report.weeks.map((w) => (
+                                <div
+                                    key={w.week}
+                                    className="flex-1 bg-blue-500 rounded-t min-h-px"
+                                    style={{ height: `${(w.quantity / maxWeek) * 100}%` }}
+                                    title={`Week of ${w.week}: ${w.quantity} units on ${w.ro_count} ROs`}
+                                />
+                            ))}
+                        </div>
+                        <div className="flex justify-between text-xs text-gray-500">
+                            <span>{report.weeks[0]?.week}</span>
+                            <span>{report.weeks[report.weeks.length - 1]?.week}</span>
+                        </div>
+                    </section>
+
+                    <section className="space-y-2">
+                        <h2 className="text-lg font-semibold">Most Used</h2>
+                        {report.parts.slice(0, TOP_PARTS).map((p) => (
+                            <div key={p.key} className="card py-3 flex justify-between items-center gap-3">
+                                <div className="min-w-0">
+                                    <div className="font-mono font-bold truncate">{p.key}</div>
+                                    <div className="text-xs text-gray-500 truncate">
+                                        {p.description || (p.part_number ? "" : "Not in catalog")}
+                                        {p.barcodes.length > 1 && ` · ${p.barcodes.length} barcodes`}
+                                    </div>
+                                </div>
+                                <div className="text-right flex-shrink-0">
+                                    <div className="font-bold">x{p.quantity}</div>
+                                    <div className="text-xs text-gray-500">{p.ro_count} ROs · {p.avg_per_ro}/RO</div>
+                                </div>
+                            </div>
+                        ))}
+                        {report.parts.length > TOP_PARTS && (
+                            <p className="text-xs text-gray-500 text-center">
+                                Showing the top {TOP_PARTS} of {report.parts.length} parts. Export for the full list.
+                            </p>
+                        )}
+                        {report.parts.length === 0 && (
+                            <p className="text-center text-gray-400 py-8">No finalized ROs in this range.</p>
+                        )}
+                    </section>
+                </>
+            )}
+        </div>
+    );
+}
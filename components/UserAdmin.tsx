@@ -0,0 +1,117 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { ChevronLeft, Loader2, Send } from "lucide-react";
+import { inviteUser, Profile, setUserRole } from "@/actions/admin-actions";
+import { displayName } from "@/utils/session";
+import { Role, ROLES } from "@/utils/permissions";
+
+export default function UserAdmin({ users, error: loadError }: { users: Profile[]; error?: string }) {
+    const [error, setError] = useState(loadError || "");
+    const [savingId, setSavingId] = useState<string | null>(null);
+    const [roles, setRoles] = useState<Record<string, Role>>(() => Object.fromEntries(users.map((u) => [u.id, u.role])));
+    const [inviteEmail, setInviteEmail] = useState("");
+    const [inviteRole, setInviteRole] = useState<Role>("technician");
+    const [isInviting, setIsInviting] = useState(false);
+    const [message, setMessage] = useState("");
+
+    // Shows the new role right away and puts the old one back if the save fails
+    const handleRoleChange = async (userId: string, role: Role) => {
+        const previous = roles[userId];
+        setRoles((prev) => ({ ...prev, [userId]: role }));
+        setSavingId(userId);
+        setError("");
+        const res = await setUserRole(userId, role);
+        if (res.error) {
+            setError(res.error);
+            setRoles((prev) => ({ ...prev, [userId]: previous }));
+        }
+        setSavingId(null);
+    };
+
+    const handleInvite = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setIsInviting(true);
+        setError("");
+        setMessage("");
+        const res = await inviteUser(inviteEmail, inviteRole);
+        if (res.error) {
+            setError(res.error);
+        } else {
+            setMessage(`Invite sent to ${inviteEmail.trim()}`);
+            setInviteEmail("");
+        }
+        setIsInviting(false);
+    };
+
+    return (
+        <div className="container-mobile space-y-6">
+            <header className="flex items-center gap-4">
+                <Link href="/" className="text-gray-500">
+                    <ChevronLeft className="w-6 h-6" />
+                </Link>
+                <h1 className="text-2xl font-bold">Users</h1>
+            </header>
+
+            {error && <p className="text-red-500 text-sm">{error}</p>}
+            {message && <p className="text-green-600 text-sm">{message}</p>}
+
+            <section className="card space-y-3">
+                <h2 className="text-lg font-semibold">Invite</h2>
+                <form onSubmit={handleInvite} className="space-y-3">
+                    <input
+                        type="email"
+                        placeholder="Email"
+                        className="input"
+                        value={inviteEmail}
+                        onChange={(e) => setInviteEmail(e.target.value)}
+                    />
+                    <div className="flex gap-2">
+                        <select
+                            className="input py-2 text-base"
+                            value={inviteRole}
+                            onChange={(e) => setInviteRole(e.target.value as Role)}
+                        >
+                            {ROLES.map((r) => (
+                                <option key={r.role} value={r.role}>{r.label}</option>
+                            ))}
+                        </select>
+                        <button
+                            type="submit"
+                            disabled={isInviting || !inviteEmail.trim()}
+                            className="btn btn-primary px-4 flex items-center gap-2 disabled:opacity-50"
+                        >
+                            {isInviting ? <Loader2 className="animate-spin w-4 h-4" /> : <Send className="w-4 h-4" />}
+                            Invite
+                        </button>
+                    </div>
+                </form>
+            </section>
+
+            <section className="space-y-2">
+                {users.map((u) => (
+                    <div key={u.id} className="card py-3 flex justify-between items-center gap-3">
+                        <div className="min-w-0">
+                            <div className="font-medium truncate">{displayName(u)}</div>
+                            {u.full_name && <div className="text-xs text-gray-500 truncate">{u.email}</div>}
+                        </div>
+                        <div className="flex items-center gap-2">
+                            {savingId === u.id && <Loader2 className="animate-spin w-4 h-4 text-gray-400" />}
+                            <select
+                                className="input py-2 text-sm w-40"
+                                value={roles[u.id] ?? u.role}
+                                disabled={savingId === u.id}
+                                onChange={(e) => handleRoleChange(u.id, e.target.value as Role)}
+                            >
+                                {ROLES.map((r) => (
+                                    <option key={r.role} value={r.role}>{r.label}</option>
+                                ))}
+                            </select>
+                        </div>
+                    </div>
+                ))}
+            </section>
+        </div>
+    );
+}
@@ -0,0 +1,239 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { ChevronLeft, Loader2, Plus, Save, X, Trash2, Pencil, Send, KeyRound, Eye, EyeOff, ScrollText } from "lucide-react";
+import {
+    createWebhook,
+    deleteWebhook,
+    rotateWebhookSecret,
+    sendTestWebhook,
+    updateWebhook,
+    Webhook,
+    WebhookInput,
+} from "@/actions/webhook-actions";
+import { WEBHOOK_EVENTS, WebhookEvent } from "@/utils/webhook-events";
+
+const EMPTY: WebhookInput = { url: "", description: "", events: [], active: true };
+
+function WebhookForm({ initial, onSave, onCancel }: {
+    initial: WebhookInput;
+    onSave: (input: WebhookInput) => Promise<void>;
+    onCancel: () => void;
+}) {
+    const [draft, setDraft] = useState<WebhookInput>(initial);
+    const [isSaving, setIsSaving] = useState(false);
+
+    const toggleEvent = (event: WebhookEvent) => setDraft({
+        ...draft,
+        events: draft.events.includes(event) ? draft.events.filter((e) => e !== event) : [...draft.events, event],
+    });
+
+    const save = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setIsSaving(true);
+        await onSave(draft);
+        setIsSaving(false);
+    };
+
+    return (
+        <form onSubmit={save} className="card space-y-3">
+            <input
+                type="url"
+                required
+                placeholder="https://example.com/hooks/ro"
+                className="input"
+                value={draft.url}
+                onChange={(e) => setDraft({ ...draft, url: e.target.value })}
+            />
+            <input
+                type="text"
+                placeholder="Description (optional)"
+                className="input"
+                value={draft.description ?? ""}
+                onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+            />
+            <div className="grid grid-cols-2 gap-2">
+                {WEBHOOK_EVENTS.map(({ event, label }) => (
+                    <label key={event} className="flex items-center gap-2 text-sm">
+                        <input type="checkbox" checked={draft.events.includes(event)} onChange={() => toggleEvent(event)} />
+                        {label}
+                    </label>
+                ))}
+            </div>
+            <label className="flex items-center gap-2 text-sm">
+                <input type="checkbox" checked={draft.active} onChange={(e) => setDraft({ ...draft, active: e.target.checked })} />
+                Active
+            </label>
+            <div className="flex gap-2">
+                <button
+                    type="submit"
+                    disabled={isSaving || !draft.url.trim() || draft.events.length === 0}
+                    className="btn btn-primary flex-1 flex justify-center items-center gap-2 disabled:opacity-50"
+                >
+                    {isSaving ? <Loader2 className="animate-spin w-4 h-4" /> : <Save className="w-4 h-4" />} Save
+                </button>
+                <button type="button" onClick={onCancel} className="btn btn-secondary flex-1 flex justify-center items-center gap-2">
+                    <X className="w-4 h-4" /> Cancel
+                </button>
+            </div>
+        </form>
+    );
+}
+
+export default function WebhookAdmin({ webhooks: initialWebhooks, error: loadError }: { webhooks: Webhook[]; error?: string }) {
+    const [webhooks, setWebhooks] = useState(initialWebhooks);
+    const [error, setError] = useState(loadError || "");
+    const [message, setMessage] = useState("");
+    const [editing, setEditing] = useState<string | null>(null); // webhook id, or "new"
+    const [shownSecret, setShownSecret] = useState<string | null>(null);
+    const [busyId, setBusyId] = useState<string | null>(null);
+
+    const replace = (webhook: Webhook) => setWebhooks(webhooks.map((w) => w.id === webhook.id ? webhook : w));
+
+    const handleCreate = async (input: WebhookInput) => {
+        setError("");
+        const res = await createWebhook(input);
+        if (res.error) {
+            setError(res.error);
+        } else if (res.data) {
+            setWebhooks([...webhooks, res.data]);
+            setShownSecret(res.data.id); // the receiver needs it to check signatures
+            setEditing(null);
+        }
+    };
+
+    const handleUpdate = async (id: string, input: WebhookInput) => {
+        setError("");
+        const res = await updateWebhook(id, input);
+        if (res.error) {
+            setError(res.error);
+        } else if (res.data) {
+            replace(res.data);
+            setEditing(null);
+        }
+    };
+
+    const handleRotate = async (id: string) => {
+        if (!confirm("Rotate the secret? The receiver must switch to the new one, the old one stops working now.")) return;
+        setError("");
+        const res = await rotateWebhookSecret(id);
+        if (res.error) {
+            setError(res.error);
+        } else if (res.data) {
+            replace(res.data);
+            setShownSecret(id);
+        }
+    };
+
+    const handleTest = async (id: string) => {
+        setBusyId(id);
+        setError("");
+        setMessage("");
+        const res = await sendTestWebhook(id);
+        if (res.error) setError(`Test failed: ${res.error}`);
+        else setMessage("Test ping delivered.");
+        setBusyId(null);
+    };
+
+    const handleDelete = async (id: string) => {
+        if (!confirm("Delete this webhook and its delivery log?")) return;
+        setError("");
+        const res = await deleteWebhook(id);
+        if (res.error) setError(res.error);
+        else setWebhooks(webhooks.filter((w) => w.id !== id));
+    };
+
+    return (
+        <div className="container-mobile space-y-6">
+            <header className="flex justify-between items-center">
+                <div className="flex items-center gap-4">
+                    <Link href="/" className="text-gray-500">
+                        <ChevronLeft className="w-6 h-6" />
+                    </Link>
+                    <h1 className="text-2xl font-bold">Webhooks</h1>
+                </div>
+                {editing === null && (
+                    <button onClick={() => setEditing("new")} className="text-blue-600 flex items-center gap-1 text-sm font-medium">
+                        <Plus className="w-4 h-4" /> Add
+                    </button>
+                )}
+            </header>
+
+            {error && <p className="text-red-500 text-sm">{error}</p>}
+            {message && <p className="text-green-600 text-sm">{message}</p>}
+
+            {editing === "new" && (
+                <WebhookForm initial={EMPTY} onSave={handleCreate} onCancel={() => setEditing(null)} />
+            )}
+
+            <section className="space-y-3">
+                {webhooks.map((webhook) => editing === webhook.id ? (
+                    <WebhookForm
+                        key={webhook.id}
+                        initial={{ url: webhook.url, description: webhook.description, events: webhook.events, active: webhook.active }}
+                        onSave={(input) => handleUpdate(webhook.id, input)}
+                        onCancel={() => setEditing(null)}
+                    />
+                ) : (
+                    <div key={webhook.id} className="card space-y-2">
+                        <div className="flex justify-between items-start gap-2">
+                            <div className="min-w-0">
+                                <div className="font-mono text-sm font-bold break-all">{webhook.url}</div>
+                                {webhook.description && <div className="text-xs text-gray-500">{webhook.description}</div>}
+                            </div>
+                            <span className={`px-2 py-1 rounded text-xs font-bold flex-shrink-0 ${webhook.active ? "bg-green-100 text-green-700" : "bg-gray-100 text-gray-500"}`}>
+                                {webhook.active ? "ACTIVE" : "PAUSED"}
+                            </span>
+                        </div>
+
+                        <div className="flex flex-wrap gap-1">
+                            {webhook.events.map((event) => (
+                                <span key={event} className="px-2 py-0.5 rounded bg-blue-50 text-blue-700 text-xs font-mono">{event}</span>
+                            ))}
+                        </div>
+
+                        <div className="flex items-center gap-2 text-xs">
+                            <span className="text-gray-500">Secret</span>
+                            <code className="font-mono bg-gray-50 px-1 rounded truncate">
+                                {shownSecret === webhook.id ? webhook.secret : "whsec_••••••••"}
+                            </code>
+                            <button
+                                onClick={() => setShownSecret(shownSecret === webhook.id ? null : webhook.id)}
+                                className="text-gray-500"
+                                title={shownSecret === webhook.id ? "Hide" : "Show"}
+                            >
+                                {shownSecret === webhook.id ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+                            </button>
+                            <button onClick={() => handleRotate(webhook.id)} className="text-gray-500" title="Rotate secret">
+                                <KeyRound className="w-4 h-4" />
+                            </button>
+                        </div>
+
+                        <div className="flex justify-end gap-4 text-sm font-medium">
+                            <Link href={`/admin/webhooks/${webhook.id}`} className="text-blue-600 flex items-center gap-1">
+                                <ScrollText className="w-4 h-4" /> Log
+                            </Link>
+                            <button
+                                onClick={() => handleTest(webhook.id)}
+                                disabled={busyId !== null}
+                                className="text-blue-600 flex items-center gap-1 disabled:opacity-50"
+                            >
+                                {busyId === webhook.id ? <Loader2 className="animate-spin w-4 h-4" /> : <Send className="w-4 h-4" />} Test
+                            </button>
+                            <button onClick={() => setEditing(webhook.id)} className="text-blue-600 flex items-center gap-1">
+                                <Pencil className="w-4 h-4" /> Edit
+                            </button>
+                            <button onClick={() => handleDelete(webhook.id)} className="text-red-500 flex items-center gap-1">
+                                <Trash2 className="w-4 h-4" />
+                            </button>
+                        </div>
+                    </div>
+                ))}
+                {webhooks.length === 0 && editing !== "new" && (
+                    <p className="text-center text-gray-400 py-8">No webhooks yet.</p>
+                )}
+            </section>
+        </div>
+    );
+}
@@ -0,0 +1,105 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { ChevronLeft, Loader2, RotateCw } from "lucide-react";
+import { resendWebhookDelivery, Webhook, WebhookDelivery } from "@/actions/webhook-actions";
+
+// A pending delivery that already failed is retrying
+function badge(delivery: WebhookDelivery): { label: string; style: string } {
+    if (delivery.status === "delivered") return { label: "DELIVERED", style: "bg-green-100 text-green-700" };
+    if (delivery.status === "dead") return { label: "DEAD", style: "bg-red-100 text-red-700" };
+    if (delivery.attempts > 0) return { label: "RETRYING", style: "bg-yellow-100 text-yellow-700" };
+    return { label: "QUEUED", style: "bg-gray-100 text-gray-600" };
+}
+
+interface WebhookDeliveriesProps {
+    webhook?: Webhook;
+    deliveries: WebhookDelivery[];
+    maxAttempts: number;
+    error?: string;
+}
+
+export default function WebhookDeliveries({ webhook, deliveries, maxAttempts, error: loadError }: WebhookDeliveriesProps) {
+    const router = useRouter();
+    const [error, setError] = useState(loadError || "");
+    const [resending, setResending] = useState<string | null>(null);
+    const [openId, setOpenId] = useState<string | null>(null); // delivery whose payload is shown
+
+    const handleResend = async (id: string) => {
+        setResending(id);
+        setError("");
+        const res = await resendWebhookDelivery(id);
+        if (res.error) setError(res.error);
+        router.refresh();
+        setResending(null);
+    };
+
+    return (
+        <div className="container-mobile space-y-6">
+            <header className="flex items-center gap-4">
+                <Link href="/admin/webhooks" className="text-gray-500">
+                    <ChevronLeft className="w-6 h-6" />
+                </Link>
+                <div className="min-w-0">
+                    <h1 className="text-2xl font-bold">Delivery Log</h1>
+                    {webhook && <div className="text-xs font-mono text-gray-500 truncate">{webhook.url}</div>}
+                </div>
+            </header>
+
+            {error && <p className="text-red-500 text-sm">{error}</p>}
+
+            <section className="space-y-2">
+                {deliveries.map((delivery) => {
+                    const { label, style } = badge(delivery);
+                    return (
+                        <div key={delivery.id} className="card py-3 space-y-1">
+                            <div className="flex justify-between items-center gap-2">
+                                <button
+                                    onClick={() => setOpenId(openId === delivery.id ? null : delivery.id)}
+                                    className="font-mono font-bold text-left truncate"
+                                    title="Show payload"
+                                >
+                                    {delivery.event}
+                                    {typeof delivery.payload.data.ro_number === "string" && (
+                                        <span className="ml-2 font-normal text-gray-500">{delivery.payload.data.ro_number}</span>
+                                    )}
+                                </button>
+                                <span className={`px-2 py-1 rounded text-xs font-bold flex-shrink-0 ${style}`}>{label}</span>
+                            </div>
+                            <div className="text-xs text-gray-500">
+                                {new Date(delivery.created_at).toLocaleString()} · {delivery.attempts}/{maxAttempts} attempts
+                                {delivery.last_response_status && <> · HTTP {delivery.last_response_status}</>}
+                                {delivery.status === "pending" && delivery.attempts > 0 && delivery.next_attempt_at && (
+                                    <> · Next try {new Date(delivery.next_attempt_at).toLocaleTimeString()}</>
+                                )}
+                            </div>
+                            {delivery.last_error && delivery.status !== "delivered" && (
+                                <p className="text-xs text-red-600 break-all">{delivery.last_error}</p>
+                            )}
+                            {openId === delivery.id && (
+                                <pre className="text-xs bg-gray-50 rounded p-2 overflow-x-auto">
+                                    {JSON.stringify(delivery.payload, null, 2)}
+                                </pre>
+                            )}
+                            <div className="flex justify-end">
+                                <button
+                                    onClick={() => handleResend(delivery.id)}
+                                    disabled={resending !== null}
+                                    className="text-sm text-blue-600 font-medium flex items-center gap-1 disabled:opacity-50"
+                                >
+                                    {resending === delivery.id ? <Loader2 className="animate-spin w-4 h-4" /> : <RotateCw className="w-4 h-4" />}
+                                    Resend
+                                </button>
+                            </div>
+                        </div>
+                    );
+                })}
+                {deliveries.length === 0 && !error && (
+                    <p className="text-center text-gray-400 py-8">Nothing delivered yet.</p>
+                )}
+            </section>
+        </div>
+    );
+}
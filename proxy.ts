@@ -0,0 +1,10 @@
+import { type NextRequest } from "next/server";
+import { updateSession } from "@/utils/supabase/middleware";
+
+export async function proxy(request: NextRequest) {
+    return updateSession(request);
+}
+
+export const config = {
+    matcher: ["/", "/ro/:path*", "/finals/:path*", "/catalog/:path*", "/admin/:path*", "/reports", "/settings"],
+};
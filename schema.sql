@@ -1,23 +1,86 @@
 -- Enable UUID extension
 create extension if not exists "uuid-ossp";
 
+-- Profiles (one per Supabase Auth user, filled by the trigger below)
+create table profiles (
+  id uuid primary key references auth.users(id) on delete cascade,
+  email text not null,
+  full_name text,
+  role text not null check (role in ('technician', 'parts_manager', 'admin')) default 'technician',
+  created_at timestamp with time zone default now()
+);
+
+-- Role of the calling user, for RLS policies
+create or replace function user_role()
+returns text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select role from profiles where id = auth.uid();
+$$;
+
+create or replace function handle_new_user()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  insert into profiles (id, email, full_name)
+  values (new.id, new.email, new.raw_user_meta_data ->> 'full_name');
+  return new;
+end;
+$$;
+
+create trigger on_auth_user_created
+  after insert on auth.users
+  for each row execute function handle_new_user();
+
 -- RO Table
 create table ro (
   id uuid primary key default uuid_generate_v4(),
   ro_number text not null unique,
   status text not null check (status in ('draft', 'finalized')) default 'draft',
   created_at timestamp with time zone default now(),
-  finalized_at timestamp with time zone
+  finalized_at timestamp with time zone,
+  amend_reason text, -- why a finalized RO was reopened, carried onto the next final version
+  amended_at timestamp with time zone,
+  created_by uuid references profiles(id),
+  finalized_by uuid references profiles(id)
 );
 
 -- Scanned Parts Table (Active/Draft)
+-- One row per device and barcode; quantity is that device's increment and the
+-- line total is sum(quantity) over devices, so concurrent scans merge instead of overwriting.
 create table ro_scanned_parts (
   id uuid primary key default uuid_generate_v4(),
   ro_id uuid not null references ro(id) on delete cascade,
   barcode_value text not null,
+  device_id text not null default 'server',
   quantity integer not null default 1,
   created_at timestamp with time zone default now(),
   updated_at timestamp with time zone default now(),
+  scanned_by uuid references profiles(id),
+  gs1 jsonb, -- fields from the last GS1 label scanned on this device (lot, expiry, serial, ...)
+  unique(ro_id, barcode_value, device_id)
+);
+
+-- Outbox scans already applied by increment_scanned_part; the id comes from the device, so a replay is a no-op
+create table ro_applied_mutations (
+  id uuid primary key,
+  ro_id uuid not null references ro(id) on delete cascade,
+  applied_at timestamp with time zone default now()
+);
+
+-- Expected Parts Table (bill of materials set by the service writer)
+create table ro_expected_parts (
+  id uuid primary key default uuid_generate_v4(),
+  ro_id uuid not null references ro(id) on delete cascade,
+  barcode_value text not null,
+  expected_quantity integer not null check (expected_quantity > 0),
+  created_at timestamp with time zone default now(),
   unique(ro_id, barcode_value)
 );
 
@@ -26,7 +89,13 @@ create table ro_final_entries (
   id uuid primary key default uuid_generate_v4(),
   ro_id uuid not null references ro(id),
   ro_number text not null,
-  finalized_at timestamp with time zone default now()
+  finalized_at timestamp with time zone default now(),
+  override_reason text, -- set when finalized despite expected-parts discrepancies
+  version integer not null default 1,
+  previous_entry_id uuid references ro_final_entries(id),
+  amend_reason text,
+  finalized_by uuid references profiles(id),
+  unique(ro_id, version)
 );
 
 -- Finalized Parts Table (Snapshot Items)
@@ -37,55 +106,473 @@ create table ro_final_parts (
   quantity integer not null
 );
 
+-- Parts Catalog (barcode -> part number resolution)
+create table parts_catalog (
+  id uuid primary key default uuid_generate_v4(),
+  part_number text not null unique,
+  barcode text not null unique,
+  alt_barcodes text[] not null default '{}',
+  description text,
+  brand text,
+  unit_cost numeric(12, 2),
+  created_at timestamp with time zone default now(),
+  updated_at timestamp with time zone default now()
+);
+
+-- Catalog tombstones: devices pull these with the changes so deleted parts leave their copy too.
+-- Written by the trigger below, whichever way the row was deleted or renamed.
+create table parts_catalog_deletions (
+  id uuid primary key default uuid_generate_v4(),
+  part_number text not null,
+  deleted_at timestamp with time zone default now()
+);
+
+create or replace function record_catalog_deletion()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op = 'DELETE' or old.part_number <> new.part_number then
+    insert into parts_catalog_deletions (part_number) values (old.part_number);
+  end if;
+  return null;
+end;
+$$;
+
+create trigger parts_catalog_record_deletion
+  after delete or update of part_number on parts_catalog
+  for each row execute function record_catalog_deletion();
+
+-- Barcode rules for scanning (single row, edited by admins, cached on every device)
+create table scanner_rules (
+  id integer primary key default 1 check (id = 1),
+  rules jsonb not null, -- see BarcodeRules in utils/barcode-rules.ts
+  updated_at timestamp with time zone default now(),
+  updated_by uuid references profiles(id)
+);
+
+-- RO Audit Log (append-only, one row per change made on a device)
+create table ro_events (
+  id uuid primary key, -- generated on the device, so re-uploads are no-ops
+  ro_id uuid not null references ro(id),
+  event_type text not null check (event_type in ('create', 'scan', 'undo', 'quantity', 'delete', 'restore', 'finalize', 'amend')),
+  barcode_value text,
+  before jsonb, -- e.g. {"quantity": 3} or {"status": "draft"}
+  after jsonb,
+  reason text,
+  user_id uuid references profiles(id),
+  device_id text,
+  occurred_at timestamp with time zone not null, -- device clock
+  recorded_at timestamp with time zone default now()
+);
+
+create or replace function reject_ro_event_changes()
+returns trigger
+language plpgsql
+as $$
+begin
+  raise exception 'ro_events is append-only';
+end;
+$$;
+
+create trigger ro_events_append_only
+  before update or delete on ro_events
+  for each row execute function reject_ro_event_changes();
+
+-- RO Photos (the images live in the ro-photos Storage bucket)
+create table ro_photos (
+  id uuid primary key, -- generated on the device, so re-uploads are no-ops
+  ro_id uuid not null references ro(id) on delete cascade,
+  barcode_value text, -- the part line, null for photos of the whole RO
+  storage_path text not null,
+  content_type text not null default 'image/jpeg',
+  taken_by uuid references profiles(id),
+  device_id text,
+  taken_at timestamp with time zone not null, -- device clock
+  uploaded_at timestamp with time zone default now()
+);
+
+-- DMS Outbound Deliveries (one job per final entry, sent by utils/dms.ts)
+-- pending: waiting for next_attempt_at; delivered; dead: out of retries, the dead-letter list
+create table dms_deliveries (
+  final_entry_id uuid primary key references ro_final_entries(id) on delete cascade,
+  status text not null default 'pending' check (status in ('pending', 'delivered', 'dead')),
+  attempts integer not null default 0,
+  next_attempt_at timestamp with time zone default now(),
+  last_error text,
+  last_response_status integer,
+  delivered_at timestamp with time zone,
+  created_at timestamp with time zone default now(),
+  updated_at timestamp with time zone default now()
+);
+
+-- Webhooks: internal tools subscribe to RO lifecycle events (see utils/webhook-events.ts)
+create table webhooks (
+  id uuid primary key default uuid_generate_v4(),
+  url text not null,
+  description text,
+  events text[] not null default '{}',
+  secret text not null, -- signs every delivery, shown to admins
+  active boolean not null default true,
+  created_by uuid references profiles(id),
+  created_at timestamp with time zone default now()
+);
+
+-- Webhook delivery log, also the retry queue (statuses as in dms_deliveries)
+create table webhook_deliveries (
+  id uuid primary key, -- also the payload id, so receivers can skip repeats
+  webhook_id uuid not null references webhooks(id) on delete cascade,
+  event text not null,
+  payload jsonb not null,
+  status text not null default 'pending' check (status in ('pending', 'delivered', 'dead')),
+  attempts integer not null default 0,
+  next_attempt_at timestamp with time zone default now(),
+  last_error text,
+  last_response_status integer,
+  delivered_at timestamp with time zone,
+  created_at timestamp with time zone default now()
+);
+
+insert into storage.buckets (id, name, public)
+values ('ro-photos', 'ro-photos', false)
+on conflict (id) do nothing;
+
 -- Indexes for performance
 create index idx_ro_ro_number on ro(ro_number);
 create index idx_ro_scanned_parts_ro_id on ro_scanned_parts(ro_id);
+create index idx_ro_expected_parts_ro_id on ro_expected_parts(ro_id);
 create index idx_ro_final_entries_ro_number on ro_final_entries(ro_number);
+create index idx_ro_final_entries_previous_entry_id on ro_final_entries(previous_entry_id);
 create index idx_ro_final_parts_final_entry_id on ro_final_parts(final_entry_id);
+create index idx_ro_final_parts_barcode_value on ro_final_parts(barcode_value);
+create index idx_ro_final_entries_finalized_at on ro_final_entries(finalized_at);
+create index idx_parts_catalog_alt_barcodes on parts_catalog using gin(alt_barcodes);
+create index idx_parts_catalog_updated_at on parts_catalog(updated_at);
+create index idx_parts_catalog_deletions_deleted_at on parts_catalog_deletions(deleted_at);
+create index idx_ro_events_ro_id_occurred_at on ro_events(ro_id, occurred_at);
+create index idx_ro_photos_ro_id on ro_photos(ro_id);
+create index idx_dms_deliveries_due on dms_deliveries(status, next_attempt_at);
+create index idx_webhooks_events on webhooks using gin(events);
+create index idx_webhook_deliveries_due on webhook_deliveries(status, next_attempt_at);
+create index idx_webhook_deliveries_webhook_id_created_at on webhook_deliveries(webhook_id, created_at);
 
 -- RLS Policies
+alter table profiles enable row level security;
 alter table ro enable row level security;
 alter table ro_scanned_parts enable row level security;
+alter table ro_applied_mutations enable row level security;
+alter table ro_expected_parts enable row level security;
 alter table ro_final_entries enable row level security;
 alter table ro_final_parts enable row level security;
+alter table parts_catalog enable row level security;
+alter table parts_catalog_deletions enable row level security;
+alter table ro_events enable row level security;
+alter table scanner_rules enable row level security;
+alter table ro_photos enable row level security;
+alter table dms_deliveries enable row level security;
+alter table webhooks enable row level security;
+alter table webhook_deliveries enable row level security;
+
+create policy "Allow signed-in read profiles" on profiles for select to authenticated using (true);
+create policy "Allow signed-in read ro" on ro for select to authenticated using (true);
+create policy "Allow signed-in read ro_scanned_parts" on ro_scanned_parts for select to authenticated using (true);
+create policy "Allow signed-in read ro_expected_parts" on ro_expected_parts for select to authenticated using (true);
+create policy "Allow signed-in read ro_final_entries" on ro_final_entries for select to authenticated using (true);
+create policy "Allow signed-in read ro_final_parts" on ro_final_parts for select to authenticated using (true);
+create policy "Allow signed-in read parts_catalog" on parts_catalog for select to authenticated using (true);
+create policy "Allow signed-in read parts_catalog_deletions" on parts_catalog_deletions for select to authenticated using (true);
+create policy "Allow signed-in read ro_events" on ro_events for select to authenticated using (true);
+create policy "Allow signed-in read scanner_rules" on scanner_rules for select to authenticated using (true);
+create policy "Allow signed-in read ro_photos" on ro_photos for select to authenticated using (true);
 
-create policy "Allow public read ro" on ro for select using (true);
-create policy "Allow public read ro_scanned_parts" on ro_scanned_parts for select using (true);
-create policy "Allow public read ro_final_entries" on ro_final_entries for select using (true);
-create policy "Allow public read ro_final_parts" on ro_final_parts for select using (true);
+-- Writes (the server actions use the service role and repeat these checks in code)
+-- Technicians: create ROs, scan and edit quantities on drafts
+create policy "Allow signed-in create ro" on ro for insert to authenticated with check (created_by = auth.uid());
+create policy "Allow scanning on draft ro" on ro_scanned_parts for insert to authenticated
+  with check (exists (select 1 from ro where ro.id = ro_id and ro.status = 'draft'));
+create policy "Allow quantity edits on draft ro" on ro_scanned_parts for update to authenticated
+  using (exists (select 1 from ro where ro.id = ro_id and ro.status = 'draft'));
+create policy "Allow signed-in add ro_photos" on ro_photos for insert to authenticated with check (taken_by = auth.uid());
+-- Parts managers and admins: delete lines and set expected parts
+create policy "Allow managers delete scanned parts" on ro_scanned_parts for delete to authenticated
+  using (user_role() in ('parts_manager', 'admin'));
+create policy "Allow managers write expected parts" on ro_expected_parts for all to authenticated
+  using (user_role() in ('parts_manager', 'admin'))
+  with check (user_role() in ('parts_manager', 'admin'));
+-- Everyone: append their own audit events (no update or delete policy, the trigger blocks those too)
+create policy "Allow signed-in append ro_events" on ro_events for insert to authenticated with check (user_id = auth.uid());
+-- Admins: catalog and users
+create policy "Allow admins write parts_catalog" on parts_catalog for all to authenticated
+  using (user_role() = 'admin')
+  with check (user_role() = 'admin');
+create policy "Allow admins write scanner_rules" on scanner_rules for all to authenticated
+  using (user_role() = 'admin')
+  with check (user_role() = 'admin');
+create policy "Allow admins update profiles" on profiles for update to authenticated
+  using (user_role() = 'admin');
+-- Admins: DMS delivery status (the app writes it with the service role)
+create policy "Allow admins read dms_deliveries" on dms_deliveries for select to authenticated
+  using (user_role() = 'admin');
+-- Admins: webhooks hold signing secrets, so nobody else reads them
+create policy "Allow admins write webhooks" on webhooks for all to authenticated
+  using (user_role() = 'admin')
+  with check (user_role() = 'admin');
+create policy "Allow admins read webhook_deliveries" on webhook_deliveries for select to authenticated
+  using (user_role() = 'admin');
 
 -- RPC Function for Finalization (Transaction)
-create or replace function finalize_ro(p_ro_id uuid, p_ro_number text)
+create or replace function finalize_ro(
+  p_ro_id uuid,
+  p_ro_number text,
+  p_override_reason text default null,
+  p_user_id uuid default null
+)
 returns void
 language plpgsql
 security definer
+set search_path = public
 as $$
 declare
   v_final_entry_id uuid;
+  v_previous ro_final_entries;
+  v_amend_reason text;
+  v_status text;
 begin
-  -- 1. Check if RO is already finalized
-  if exists (select 1 from ro where id = p_ro_id and status = 'finalized') then
+  -- 0. Only parts managers and admins finalize
+  if not exists (select 1 from profiles where id = p_user_id and role in ('parts_manager', 'admin')) then
+    raise exception 'You do not have permission to do this';
+  end if;
+
+  -- 1. Lock the RO until commit, so scans and quantity edits (which lock it too) either land before the
+  -- snapshot or see the finalized status; then check it is still a draft
+  select status into v_status from ro where id = p_ro_id for update;
+
+  if v_status is null then
+    raise exception 'RO not found';
+  end if;
+
+  if v_status <> 'draft' then
     raise exception 'RO is already finalized';
   end if;
 
-  -- 2. Create Final Entry
-  insert into ro_final_entries (ro_id, ro_number, finalized_at)
-  values (p_ro_id, p_ro_number, now())
+  -- 2. Create Final Entry, as the next version after an amend
+  select * into v_previous
+  from ro_final_entries
+  where ro_id = p_ro_id
+  order by version desc
+  limit 1;
+
+  select amend_reason into v_amend_reason from ro where id = p_ro_id;
+
+  insert into ro_final_entries (ro_id, ro_number, finalized_at, override_reason, version, previous_entry_id, amend_reason, finalized_by)
+  values (p_ro_id, p_ro_number, now(), p_override_reason, coalesce(v_previous.version, 0) + 1, v_previous.id, v_amend_reason, p_user_id)
   returning id into v_final_entry_id;
 
-  -- 3. Copy parts to Final Parts
+  -- 3. Copy parts to Final Parts, summing the per-device increments
   insert into ro_final_parts (final_entry_id, barcode_value, quantity)
-  select v_final_entry_id, barcode_value, quantity
+  select v_final_entry_id, barcode_value, sum(quantity)
   from ro_scanned_parts
-  where ro_id = p_ro_id;
+  where ro_id = p_ro_id
+  group by barcode_value
+  having sum(quantity) > 0;
 
   -- 4. Update RO status
   update ro
-  set status = 'finalized', finalized_at = now()
+  set status = 'finalized', finalized_at = now(), finalized_by = p_user_id, amend_reason = null, amended_at = null
   where id = p_ro_id;
+
+  -- 5. Queue the snapshot for the DMS
+  insert into dms_deliveries (final_entry_id) values (v_final_entry_id);
 end;
 $$;
 
+-- p_user_id is trusted, so only the server (service role) may call it
+revoke execute on function finalize_ro(uuid, text, text, uuid) from public, anon, authenticated;
+grant execute on function finalize_ro(uuid, text, text, uuid) to service_role;
+
+-- RPC Function for Amending (reopen a finalized RO)
+-- Final entries are never touched: the next finalize writes a new version.
+create or replace function amend_ro(p_ro_id uuid, p_reason text, p_user_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not exists (select 1 from profiles where id = p_user_id and role in ('parts_manager', 'admin')) then
+    raise exception 'You do not have permission to do this';
+  end if;
+
+  if coalesce(trim(p_reason), '') = '' then
+    raise exception 'An amend reason is required';
+  end if;
+
+  -- Same lock as finalize_ro, so an amend and a finalize of one RO run one after the other
+  perform 1 from ro where id = p_ro_id for update;
+
+  update ro
+  set status = 'draft', amend_reason = p_reason, amended_at = now()
+  where id = p_ro_id and status = 'finalized';
+
+  if not found then
+    raise exception 'RO is not finalized';
+  end if;
+end;
+$$;
+
+-- Server only, like finalize_ro
+revoke execute on function amend_ro(uuid, text, uuid) from public, anon, authenticated;
+grant execute on function amend_ro(uuid, text, uuid) to service_role;
+
+-- RPC Function for Scanning (atomic increment)
+-- Locks the RO row so a concurrent finalize cannot slip in between the check and the insert.
+create or replace function increment_scanned_part(
+  p_ro_id uuid,
+  p_barcode_value text,
+  p_device_id text,
+  p_quantity integer default 1,
+  p_user_id uuid default null,
+  p_gs1 jsonb default null,
+  p_mutation_id uuid default null
+)
+returns ro_scanned_parts
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_status text;
+  v_part ro_scanned_parts;
+begin
+  if p_quantity < 1 then
+    raise exception 'Quantity must be at least 1';
+  end if;
+
+  select status into v_status from ro where id = p_ro_id for share;
+
+  if v_status is null then
+    raise exception 'RO not found';
+  end if;
+
+  if v_status <> 'draft' then
+    raise exception 'RO is already finalized';
+  end if;
+
+  -- A replayed outbox entry that was applied before: nothing to do
+  if p_mutation_id is not null then
+    insert into ro_applied_mutations (id, ro_id) values (p_mutation_id, p_ro_id)
+    on conflict (id) do nothing;
+
+    if not found then
+      return null;
+    end if;
+  end if;
+
+  insert into ro_scanned_parts (ro_id, barcode_value, device_id, quantity, scanned_by, gs1)
+  values (p_ro_id, p_barcode_value, p_device_id, p_quantity, p_user_id, p_gs1)
+  on conflict (ro_id, barcode_value, device_id)
+  do update set quantity = ro_scanned_parts.quantity + excluded.quantity,
+                scanned_by = excluded.scanned_by,
+                gs1 = coalesce(excluded.gs1, ro_scanned_parts.gs1),
+                updated_at = now()
+  returning * into v_part;
+
+  return v_part;
+end;
+$$;
+
+-- Server only, like finalize_ro
+revoke execute on function increment_scanned_part(uuid, text, text, integer, uuid, jsonb, uuid) from public, anon, authenticated;
+grant execute on function increment_scanned_part(uuid, text, text, integer, uuid, jsonb, uuid) to service_role;
+
+-- RPC Function for Quantity Edits (compare-and-set on the merged line total)
+-- Only this device's row changes. Nothing is written, and conflict comes back with the current total, when
+-- other devices changed the line since p_base_quantity was read, or when p_total is below what they
+-- scanned (this row would have to go negative).
+create or replace function set_part_total(
+  p_ro_id uuid,
+  p_barcode_value text,
+  p_device_id text,
+  p_total integer,
+  p_base_quantity integer,
+  p_user_id uuid default null
+)
+returns table (conflict boolean, line_total integer)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_status text;
+  v_total integer;
+  v_others integer;
+begin
+  if p_total < 1 then
+    raise exception 'Quantity must be at least 1';
+  end if;
+
+  -- An exclusive lock, so scans (which take a share lock) wait until the new total is written
+  select status into v_status from ro where id = p_ro_id for update;
+
+  if v_status is null then
+    raise exception 'RO not found';
+  end if;
+
+  if v_status <> 'draft' then
+    raise exception 'RO is already finalized';
+  end if;
+
+  select coalesce(sum(quantity), 0), coalesce(sum(quantity) filter (where device_id <> p_device_id), 0)
+  into v_total, v_others
+  from ro_scanned_parts
+  where ro_id = p_ro_id and barcode_value = p_barcode_value;
+
+  if v_total <> p_base_quantity or p_total < v_others then
+    return query select true, v_total;
+    return;
+  end if;
+
+  if p_total = v_others then
+    delete from ro_scanned_parts
+    where ro_id = p_ro_id and barcode_value = p_barcode_value and device_id = p_device_id;
+  else
+    insert into ro_scanned_parts (ro_id, barcode_value, device_id, quantity, scanned_by)
+    values (p_ro_id, p_barcode_value, p_device_id, p_total - v_others, p_user_id)
+    on conflict (ro_id, barcode_value, device_id)
+    do update set quantity = excluded.quantity,
+                  scanned_by = excluded.scanned_by,
+                  updated_at = now();
+  end if;
+
+  return query select false, p_total;
+end;
+$$;
+
+-- Server only, like finalize_ro
+revoke execute on function set_part_total(uuid, text, text, integer, integer, uuid) from public, anon, authenticated;
+grant execute on function set_part_total(uuid, text, text, integer, integer, uuid) to service_role;
+
+-- Report source: lines of the latest final snapshot of every RO finalized in [p_from, p_to).
+-- Older versions of amended ROs are skipped so their parts are not counted twice.
+create or replace function final_part_lines(p_from timestamp with time zone, p_to timestamp with time zone)
+returns table (ro_id uuid, finalized_at timestamp with time zone, barcode_value text, quantity integer)
+language sql
+stable
+as $$
+  select e.ro_id, e.finalized_at, p.barcode_value, p.quantity
+  from ro_final_entries e
+  join ro_final_parts p on p.final_entry_id = e.id
+  where e.finalized_at >= p_from
+    and e.finalized_at < p_to
+    and not exists (
+      select 1 from ro_final_entries newer
+      where newer.ro_id = e.ro_id and newer.version > e.version
+    )
+  order by e.finalized_at, e.ro_id, p.barcode_value;
+$$;
+
 -- Instructions:
 -- 1. Go to Supabase Dashboard -> SQL Editor
 -- 2. Paste this content and run it.
@@ -0,0 +1,91 @@
+import { describe, expect, it } from "vitest";
+import { BarcodeRules, checkBarcode, checkROBarcode, DEFAULT_BARCODE_RULES, hasValidGtinCheckDigit, isRONumber } from "./barcode-rules";
+
+const rules = (changes: Partial<BarcodeRules> = {}): BarcodeRules => ({ ...DEFAULT_BARCODE_RULES, ...changes });
+
+describe("hasValidGtinCheckDigit", () => {
+    it("checks EAN-13, UPC-A and EAN-8 codes", () => {
+        expect(hasValidGtinCheckDigit("4006381333931")).toBe(true);
+        expect(hasValidGtinCheckDigit("036000291452")).toBe(true);
+        expect(hasValidGtinCheckDigit("96385074")).toBe(true);
+        expect(hasValidGtinCheckDigit("4006381333932")).toBe(false);
+    });
+
+    it("rejects anything that is not all digits", () => {
+        expect(hasValidGtinCheckDigit("40063813339A1")).toBe(false);
+        expect(hasValidGtinCheckDigit("")).toBe(false);
+    });
+});
+
+describe("checkROBarcode", () => {
+    it("accepts anything without an RO pattern", () => {
+        expect(checkROBarcode("WHATEVER", rules())).toEqual({ ok: true });
+    });
+
+    it("only accepts codes matching the whole RO pattern", () => {
+        const withPattern = rules({ roPattern: "RO\\d{5}" });
+        expect(checkROBarcode("RO12345", withPattern)).toEqual({ ok: true });
+        expect(checkROBarcode("RO123456", withPattern)).toEqual({ ok: false, reason: "Not an RO number" });
+        expect(checkROBarcode("XRO12345", withPattern).ok).toBe(false);
+    });
+
+    it("ignores an invalid RO pattern", () => {
+        expect(checkROBarcode("RO12345", rules({ roPattern: "RO(" }))).toEqual({ ok: true });
+        expect(isRONumber("RO(", rules({ roPattern: "RO(" }))).toBe(false);
+    });
+});
+
+describe("checkBarcode", () => {
+    it("accepts a part code under the default rules", () => {
+        expect(checkBarcode("ABC-123", rules())).toEqual({ ok: true });
+        expect(checkBarcode("4006381333931", rules(), "ean_13")).toEqual({ ok: true });
+    });
+
+    it("rejects RO numbers once an RO pattern is set", () => {
+        expect(checkBarcode("RO12345", rules({ roPattern: "RO\\d{5}" })).ok).toBe(false);
+        expect(checkBarcode("RO12345", rules())).toEqual({ ok: true });
+    });
+
+    it("rejects codes shorter than the minimum length", () => {
+        expect(checkBarcode("AB", rules())).toEqual({ ok: false, reason: "Too short: 2 characters, at least 3 needed" });
+        expect(checkBarcode("AB", rules({ minLength: 2 }))).toEqual({ ok: true });
+    });
+
+    it("rejects VINs unless allowed", () => {
+        expect(checkBarcode("1HGCM82633A004352", rules()).ok).toBe(false);
+        expect(checkBarcode("1HGCM82633A004352", rules({ rejectVins: false }))).toEqual({ ok: true });
+        expect(checkBarcode("12345678901234567", rules())).toEqual({ ok: true }); // digits only
+    });
+
+    it("rejects symbologies that are not allowed", () => {
+        expect(checkBarcode("ABC-123", rules(), "qr_code")).toEqual({ ok: false, reason: "QR Code barcodes are not allowed" });
+    });
+
+    it("checks the check digit of EAN/UPC codes, also when typed", () => {
+        expect(checkBarcode("4006381333932", rules()).ok).toBe(false);
+        expect(checkBarcode("036000291453", rules(), "upc_a")).toEqual({ ok: false, reason: "Check digit does not match (UPC-A)" });
+        expect(checkBarcode("4006381333932", rules({ checkDigits: false }))).toEqual({ ok: true });
+        expect(checkBarcode("12345", rules())).toEqual({ ok: true }); // no GTIN length
+    });
+
+    it("requires a match with one of the supplier patterns when any are set", () => {
+        const withPatterns = rules({
+            supplierPatterns: [
+                { supplier: "Acme", pattern: "AC-\\d{4}" },
+                { supplier: "Bolt", pattern: "B\\d+" },
+            ],
+        });
+        expect(checkBarcode("AC-1234", withPatterns)).toEqual({ ok: true });
+        expect(checkBarcode("B77", withPatterns)).toEqual({ ok: true });
+        expect(checkBarcode("AC-12345", withPatterns)).toEqual({ ok: false, reason: "Does not match any supplier pattern (Acme, Bolt)" });
+    });
+
+    it("ignores invalid and empty supplier patterns", () => {
+        const invalidOnly = rules({ supplierPatterns: [{ supplier: "Broken", pattern: "AC-(" }, { supplier: "Empty", pattern: "" }] });
+        expect(checkBarcode("ANYTHING", invalidOnly)).toEqual({ ok: true });
+
+        const mixed = rules({ supplierPatterns: [{ supplier: "Broken", pattern: "AC-(" }, { supplier: "Bolt", pattern: "B\\d+" }] });
+        expect(checkBarcode("B77", mixed)).toEqual({ ok: true });
+        expect(checkBarcode("ANYTHING", mixed)).toEqual({ ok: false, reason: "Does not match any supplier pattern (Bolt)" });
+    });
+});
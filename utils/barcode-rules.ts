@@ -0,0 +1,159 @@
+// Which scans count as part barcodes: allowed symbologies, supplier patterns and check digits.
+// Admins edit the rules (scanner_rules table); devices keep a copy so offline scans are checked too.
+
+// Names as reported by the native BarcodeDetector, ZXing formats are mapped onto these
+export type Symbology =
+    | "code_128"
+    | "code_39"
+    | "code_93"
+    | "codabar"
+    | "ean_13"
+    | "ean_8"
+    | "upc_a"
+    | "upc_e"
+    | "itf"
+    | "data_matrix"
+    | "qr_code"
+    | "pdf417"
+    | "aztec";
+
+export const SYMBOLOGIES: { symbology: Symbology; label: string }[] = [
+    { symbology: "code_128", label: "Code 128" },
+    { symbology: "code_39", label: "Code 39" },
+    { symbology: "code_93", label: "Code 93" },
+    { symbology: "codabar", label: "Codabar" },
+    { symbology: "ean_13", label: "EAN-13" },
+    { symbology: "ean_8", label: "EAN-8" },
+    { symbology: "upc_a", label: "UPC-A" },
+    { symbology: "upc_e", label: "UPC-E" },
+    { symbology: "itf", label: "ITF" },
+    { symbology: "data_matrix", label: "DataMatrix" },
+    { symbology: "qr_code", label: "QR Code" },
+    { symbology: "pdf417", label: "PDF417" },
+    { symbology: "aztec", label: "Aztec" },
+];
+
+export interface SupplierPattern {
+    supplier: string;
+    pattern: string; // regular expression source, matched against the whole code
+}
+
+export interface BarcodeRules {
+    symbologies: Symbology[]; // allowed for camera scans
+    supplierPatterns: SupplierPattern[]; // when any are set, a code must match one of them
+    checkDigits: boolean; // verify EAN/UPC check digits, also for typed or wedge-scanned codes
+    rejectVins: boolean;
+    minLength: number;
+    roPattern: string; // RO numbers as printed on the repair order paperwork, "" when not set
+}
+
+export type RuleCheck = { ok: true } | { ok: false; reason: string };
+
+export const DEFAULT_BARCODE_RULES: BarcodeRules = {
+    symbologies: ["code_128", "code_39", "ean_13", "upc_a", "data_matrix"],
+    supplierPatterns: [],
+    checkDigits: true,
+    rejectVins: true,
+    minLength: 3,
+    roPattern: "",
+};
+
+const RULES_KEY = "ro_scanner_barcode_rules";
+
+export function getBarcodeRules(): BarcodeRules {
+    if (typeof window === "undefined") return DEFAULT_BARCODE_RULES;
+    const raw = localStorage.getItem(RULES_KEY);
+    if (!raw) return DEFAULT_BARCODE_RULES;
+    try {
+        return { ...DEFAULT_BARCODE_RULES, ...(JSON.parse(raw) as Partial<BarcodeRules>) };
+    } catch {
+        return DEFAULT_BARCODE_RULES; // Corrupt copy, the next rules sync replaces it
+    }
+}
+
+export function setBarcodeRules(rules: BarcodeRules) {
+    localStorage.setItem(RULES_KEY, JSON.stringify(rules));
+}
+
+export function symbologyLabel(symbology: Symbology) {
+    return SYMBOLOGIES.find((s) => s.symbology === symbology)?.label || symbology;
+}
+
+// GTIN mod-10: weights 3,1,3... from the digit left of the check digit
+export function hasValidGtinCheckDigit(code: string) {
+    if (!/^\d+$/.test(code)) return false;
+    const digits = code.split("").map(Number);
+    const check = digits.pop()!;
+    const sum = digits.reverse().reduce((acc, d, i) => acc + d * (i % 2 === 0 ? 3 : 1), 0);
+    return (10 - (sum % 10)) % 10 === check;
+}
+
+// 17 characters, no I/O/Q, letters and digits mixed
+function looksLikeVin(code: string) {
+    return /^[A-HJ-NPR-Z0-9]{17}$/i.test(code) && /\d/.test(code) && /[A-Z]/i.test(code);
+}
+
+// Typed and wedge-scanned codes have no symbology, plain 8/12/13 digit codes are treated as EAN/UPC
+function inferSymbology(code: string): Symbology | undefined {
+    if (!/^\d+$/.test(code)) return undefined;
+    if (code.length === 13) return "ean_13";
+    if (code.length === 12) return "upc_a";
+    if (code.length === 8) return "ean_8";
+    return undefined;
+}
+
+export function validatePattern(pattern: string): string | null {
+    try {
+        new RegExp(pattern);
+        return null;
+    } catch (err) {
+        return (err as Error).message;
+    }
+}
+
+// Only answers yes once an RO pattern is configured
+export function isRONumber(code: string, rules: BarcodeRules) {
+    if (!rules.roPattern || validatePattern(rules.roPattern) !== null) return false;
+    return new RegExp(`^(?:${rules.roPattern})$`).test(code);
+}
+
+// For scans on the Dashboard, where only RO numbers are expected. An invalid pattern is ignored
+// like an invalid supplier pattern, rather than rejecting every RO.
+export function checkROBarcode(code: string, rules: BarcodeRules): RuleCheck {
+    if (rules.roPattern && validatePattern(rules.roPattern) === null && !isRONumber(code, rules)) {
+        return { ok: false, reason: "Not an RO number" };
+    }
+    return { ok: true };
+}
+
+export function checkBarcode(code: string, rules: BarcodeRules, symbology?: Symbology): RuleCheck {
+    if (isRONumber(code, rules)) {
+        return { ok: false, reason: "Looks like an RO number, not a part barcode" };
+    }
+
+    if (code.length < rules.minLength) {
+        return { ok: false, reason: `Too short: ${code.length} characters, at least ${rules.minLength} needed` };
+    }
+
+    if (rules.rejectVins && looksLikeVin(code)) {
+        return { ok: false, reason: "Looks like a VIN, not a part barcode" };
+    }
+
+    if (symbology && !rules.symbologies.includes(symbology)) {
+        return { ok: false, reason: `${symbologyLabel(symbology)} barcodes are not allowed` };
+    }
+
+    const gtinType = symbology ?? inferSymbology(code);
+    if (rules.checkDigits && (gtinType === "ean_13" || gtinType === "upc_a" || gtinType === "ean_8")) {
+        if (!hasValidGtinCheckDigit(code)) {
+            return { ok: false, reason: `Check digit does not match (${symbologyLabel(gtinType)})` };
+        }
+    }
+
+    const patterns = rules.supplierPatterns.filter((p) => p.pattern && validatePattern(p.pattern) === null);
+    if (patterns.length > 0 && !patterns.some((p) => new RegExp(`^(?:${p.pattern})$`).test(code))) {
+        return { ok: false, reason: `Does not match any supplier pattern (${patterns.map((p) => p.supplier).join(", ")})` };
+    }
+
+    return { ok: true };
+}
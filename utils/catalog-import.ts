@@ -0,0 +1,135 @@
+// Parsing and validation for supplier price files (CSV / XLSX) before they hit the catalog
+
+import * as XLSX from "xlsx";
+import { CatalogEntry } from "@/utils/db";
+
+export type ImportField = "barcode" | "part_number" | "description" | "brand" | "unit_cost";
+
+export type ColumnMapping = Record<ImportField, number | null>; // column index in the sheet
+
+export const IMPORT_FIELDS: { field: ImportField; label: string; required: boolean }[] = [
+    { field: "barcode", label: "Barcode", required: true },
+    { field: "part_number", label: "Part Number", required: true },
+    { field: "description", label: "Description", required: false },
+    { field: "brand", label: "Brand", required: false },
+    { field: "unit_cost", label: "Cost", required: false },
+];
+
+// Header names we have seen in supplier files, lowercase
+const HEADER_HINTS: Record<ImportField, string[]> = {
+    barcode: ["barcode", "ean", "upc", "gtin", "bar code"],
+    part_number: ["part number", "part no", "part #", "partnumber", "part_number", "sku", "item"],
+    description: ["description", "desc", "name", "item description"],
+    brand: ["brand", "manufacturer", "make", "mfr"],
+    unit_cost: ["cost", "unit cost", "price", "unit price", "net price"],
+};
+
+export interface ImportRow {
+    line: number; // 1-based row in the file, for error messages
+    action: "insert" | "update" | "unchanged" | "reject";
+    reason?: string;
+    entry?: {
+        part_number: string;
+        barcode: string;
+        description?: string;
+        brand?: string;
+        unit_cost?: number;
+    };
+}
+
+export interface ParsedSheet {
+    headers: string[];
+    rows: string[][];
+}
+
+// Reads the first sheet of a CSV or XLSX file, first row is the header
+export async function readSheet(file: File): Promise<ParsedSheet> {
+    const buffer = await file.arrayBuffer();
+    // CSV: keep barcodes as text, otherwise leading zeros get dropped
+    const workbook = XLSX.read(buffer, { type: "array", raw: file.name.toLowerCase().endsWith(".csv") });
+    const sheet = workbook.Sheets[workbook.SheetNames[0]];
+    if (!sheet) throw new Error("The file has no sheets");
+
+    const table = XLSX.utils.sheet_to_json<unknown[]>(sheet, { header: 1, raw: false, defval: "" });
+    const [headerRow = [], ...rows] = table;
+
+    return {
+        headers: headerRow.map((h) => String(h).trim()),
+        rows: rows
+            .map((r) => r.map((c) => String(c ?? "").trim()))
+            .filter((r) => r.some((c) => c !== "")),
+    };
+}
+
+export function guessMapping(headers: string[]): ColumnMapping {
+    const normalized = headers.map((h) => h.toLowerCase());
+    const mapping = {} as ColumnMapping;
+
+    IMPORT_FIELDS.forEach(({ field }) => {
+        const index = normalized.findIndex((h) => HEADER_HINTS[field].includes(h));
+        mapping[field] = index >= 0 ? index : null;
+    });
+
+    return mapping;
+}
+
+function parseCost(value: string): number | undefined | null {
+    if (value === "") return undefined;
+    const cost = Number(value.replace(/[$,\s]/g, ""));
+    return Number.isFinite(cost) && cost >= 0 ? Math.round(cost * 100) / 100 : null;
+}
+
+// Sort every row into insert / update / unchanged / reject against the current catalog
+export function classifyRows(sheet: ParsedSheet, mapping: ColumnMapping, existing: CatalogEntry[]): ImportRow[] {
+    const byPartNumber = new Map(existing.map((e) => [e.part_number, e]));
+    const barcodeOwner = new Map<string, string>();
+    existing.forEach((e) => e.barcodes.forEach((b) => barcodeOwner.set(b, e.part_number)));
+
+    const seenBarcodes = new Set<string>();
+    const seenPartNumbers = new Set<string>();
+    const cell = (row: string[], field: ImportField) => {
+        const index = mapping[field];
+        return index === null ? "" : row[index] ?? "";
+    };
+
+    return sheet.rows.map((row, i) => {
+        const line = i + 2; // header is line 1
+        const barcode = cell(row, "barcode");
+        const partNumber = cell(row, "part_number").toUpperCase();
+
+        if (!barcode) return { line, action: "reject", reason: "Missing barcode" };
+        if (!partNumber) return { line, action: "reject", reason: "Missing part number" };
+
+        const cost = parseCost(cell(row, "unit_cost"));
+        if (cost === null) return { line, action: "reject", reason: `Invalid cost "${cell(row, "unit_cost")}"` };
+
+        if (seenBarcodes.has(barcode)) return { line, action: "reject", reason: `Duplicate barcode ${barcode} in file` };
+        if (seenPartNumbers.has(partNumber)) return { line, action: "reject", reason: `Duplicate part number ${partNumber} in file` };
+
+        const owner = barcodeOwner.get(barcode);
+        if (owner && owner !== partNumber) {
+            return { line, action: "reject", reason: `Barcode already belongs to ${owner}` };
+        }
+
+        seenBarcodes.add(barcode);
+        seenPartNumbers.add(partNumber);
+
+        const entry = {
+            part_number: partNumber,
+            barcode,
+            description: cell(row, "description") || undefined,
+            brand: cell(row, "brand") || undefined,
+            unit_cost: cost,
+        };
+
+        const current = byPartNumber.get(partNumber);
+        if (!current) return { line, action: "insert", entry };
+
+        const unchanged = current.barcode === entry.barcode
+            && (current.description ?? undefined) === entry.description
+            && (current.brand ?? undefined) === entry.brand
+            && (current.unit_cost ?? undefined) === entry.unit_cost;
+
+        return { line, action: unchanged ? "unchanged" : "update", entry };
+    });
+}
@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+import { csvField, toCSV } from "./csv";
+
+describe("csvField", () => {
+    it("leaves plain values alone", () => {
+        expect(csvField("ABC-123")).toBe("ABC-123");
+        expect(csvField("#12")).toBe("#12");
+        expect(csvField(42)).toBe("42");
+        expect(csvField(-5)).toBe("-5");
+    });
+
+    it("writes empty fields for missing values and non-finite numbers", () => {
+        expect(csvField(null)).toBe("");
+        expect(csvField(undefined)).toBe("");
+        expect(csvField(NaN)).toBe("");
+        expect(csvField(Infinity)).toBe("");
+    });
+
+    it("quotes fields containing the delimiter", () => {
+        expect(csvField("a,b")).toBe('"a,b"');
+        expect(csvField("a;b", ";")).toBe('"a;b"');
+        expect(csvField("a;b")).toBe("a;b");
+    });
+
+    it("doubles embedded quotes", () => {
+        expect(csvField('3/8" hose')).toBe('"3/8"" hose"');
+    });
+
+    it("quotes line breaks", () => {
+        expect(csvField("line\nbreak")).toBe('"line\nbreak"');
+        expect(csvField("line\r\nbreak")).toBe('"line\r\nbreak"');
+    });
+
+    it("quotes leading and trailing whitespace so it survives parsing", () => {
+        expect(csvField(" pad")).toBe('" pad"');
+        expect(csvField("pad ")).toBe('"pad "');
+    });
+
+    it("neutralizes text that a spreadsheet would run as a formula", () => {
+        expect(csvField("=SUM(A1:A9)")).toBe("'=SUM(A1:A9)");
+        expect(csvField("+1")).toBe("'+1");
+        expect(csvField("-5")).toBe("'-5");
+        expect(csvField("@cmd")).toBe("'@cmd");
+        expect(csvField("\tx")).toBe("'\tx");
+        expect(csvField("\rx")).toBe("\"'\rx\"");
+        expect(csvField('=HYPERLINK("x")')).toBe('"\'=HYPERLINK(""x"")"');
+    });
+
+    it("keeps formulas when neutralizing is off", () => {
+        expect(csvField("=1+1", ",", false)).toBe("=1+1");
+    });
+
+    it("quotes a tab only when it is the delimiter", () => {
+        expect(csvField("a\tb")).toBe("a\tb");
+        expect(csvField("a\tb", "\t")).toBe('"a\tb"');
+        expect(csvField("a,b", "\t")).toBe("a,b");
+    });
+});
+
+describe("toCSV", () => {
+    it("joins rows with CRLF, ends with one and starts with a BOM", () => {
+        expect(toCSV([["RO", "Qty"], ["1001", 2]])).toBe("\uFEFFRO,Qty\r\n1001,2\r\n");
+    });
+
+    it("leaves the BOM out on request", () => {
+        expect(toCSV([["a"]], { bom: false })).toBe("a\r\n");
+    });
+
+    it("uses the delimiter between and inside fields", () => {
+        expect(toCSV([["a\tb", "c", null]], { delimiter: "\t", bom: false })).toBe('"a\tb"\tc\t\r\n');
+    });
+
+    it("passes the formula option through", () => {
+        expect(toCSV([["=1"]], { bom: false })).toBe("'=1\r\n");
+        expect(toCSV([["=1"]], { bom: false, neutralizeFormulas: false })).toBe("=1\r\n");
+    });
+});
@@ -0,0 +1,54 @@
+// CSV writing shared by every export: RFC 4180 quoting, spreadsheet formula neutralization, Blob downloads
+
+export type CSVValue = string | number | null | undefined;
+
+export interface CSVOptions {
+    delimiter?: string; // default ","
+    neutralizeFormulas?: boolean; // default true
+    bom?: boolean; // default true, so Excel reads the file as UTF-8
+}
+
+// Excel, Sheets and LibreOffice run text starting with these as a formula (CSV injection)
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+// One field: formulas get a leading apostrophe, then the field is quoted if it holds the delimiter,
+// a quote, a line break or edge whitespace. Numbers are written as they are.
+export function csvField(value: CSVValue, delimiter = ",", neutralizeFormulas = true): string {
+    if (value === null || value === undefined) return "";
+    if (typeof value === "number") return Number.isFinite(value) ? String(value) : "";
+
+    let text = value;
+    if (neutralizeFormulas && FORMULA_START.test(text)) text = `'${text}`;
+
+    const needsQuotes = text.includes(delimiter)
+        || /["\r\n]/.test(text)
+        || text !== text.trim();
+    return needsQuotes ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// Rows joined with CRLF as RFC 4180 asks; the first row is usually the header
+export function toCSV(rows: CSVValue[][], options: CSVOptions = {}): string {
+    const { delimiter = ",", neutralizeFormulas = true, bom = true } = options;
+    const body = rows
+        .map((row) => row.map((value) => csvField(value, delimiter, neutralizeFormulas)).join(delimiter))
+        .join("\r\n");
+    return `${bom ? "\uFEFF" : ""}${body}\r\n`;
+}
+
+// Saves through a temporary object URL; data: URIs break on "#" and get long for big files
+export function downloadBlob(blob: Blob, fileName: string) {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    // Some browsers start the download after click returns
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+export function downloadCSV(rows: CSVValue[][], fileName: string, options: CSVOptions = {}) {
+    const type = options.delimiter === "\t" ? "text/tab-separated-values" : "text/csv";
+    downloadBlob(new Blob([toCSV(rows, options)], { type: `${type};charset=utf-8` }), fileName);
+}
@@ -1,7 +1,23 @@
 // Basic IndexedDB wrapper for Local-First RO Scanner
 
+import { ExpectedPart, reconcile, Reconciliation } from "@/utils/reconcile";
+import { displayName, getCachedUser } from "@/utils/session";
+import { can, Permission, PERMISSION_DENIED } from "@/utils/permissions";
+import { getDeviceId } from "@/utils/device";
+import { GS1Fields } from "@/utils/gs1";
+
 const DB_NAME = "ro_scanner_db";
-const DB_VERSION = 1;
+const DB_VERSION = 6;
+
+// Dispatched on window whenever a mutation lands in the outbox
+export const OUTBOX_EVENT = "ro-outbox-queued";
+
+// Offline writes follow the same role rules as the server actions
+function allowed(permission: Permission) {
+    return can(getCachedUser()?.role, permission);
+}
+
+export type SyncStatus = "pending" | "synced" | "failed";
 
 export interface ScannedPart {
     id: string; // generated UUID or simple random string
@@ -10,6 +26,8 @@ export interface ScannedPart {
     quantity: number;
     created_at: string;
     updated_at: string;
+    scanned_by?: string; // display name(s), locally the last scanner or the merged list from the server
+    gs1?: GS1Fields; // fields from the last GS1 label scanned into this line
 }
 
 export interface RO {
@@ -18,6 +36,118 @@ export interface RO {
     status: "draft" | "finalized";
     created_at: string;
     finalized_at?: string;
+    sync_status?: SyncStatus; // missing on records created before the outbox existed
+    expected_parts?: ExpectedPart[];
+    override_reason?: string; // why it was finalized despite discrepancies
+    amend_reason?: string; // set while a finalized RO is reopened for changes
+    created_by?: string; // display name
+    finalized_by?: string; // display name
+}
+
+export type OutboxOperation =
+    | "createRO"
+    | "scanPart"
+    | "undoScan"
+    | "updatePartQuantity"
+    | "deletePart"
+    | "finalizeRO"
+    | "amendRO"
+    | "setExpectedParts";
+
+// Parts are referenced by barcode, local part ids mean nothing to the server
+export interface OutboxPayload {
+    barcode_value?: string;
+    quantity?: number;
+    base_quantity?: number; // merged total the user saw when editing, used to detect conflicts
+    expected_parts?: ExpectedPart[];
+    override_reason?: string;
+    reconciliation?: Reconciliation; // finalizeRO: what the device showed, the server checks it still holds
+    amend_reason?: string;
+    gs1?: GS1Fields;
+}
+
+export interface OutboxEntry {
+    id?: number; // auto-increment, doubles as replay order
+    mutation_id?: string; // sent with scans, the server skips one it already applied; missing on older entries
+    ro_number: string;
+    operation: OutboxOperation;
+    payload: OutboxPayload;
+    attempts: number;
+    next_attempt_at: string;
+    last_error?: string;
+    created_at: string;
+}
+
+// A manual quantity edit that raced with changes from another device
+export interface QuantityConflict {
+    id: string;
+    kind?: "quantity"; // missing on older records
+    ro_number: string;
+    barcode_value: string;
+    local_quantity: number; // what this device set
+    remote_quantity: number; // merged total on the server at replay time
+    base_quantity: number; // what this device saw before editing
+    created_at: string;
+}
+
+// A queued mutation the server refused for good, e.g. the RO was finalized meanwhile. Parked here
+// so it stops blocking the rest of the RO's queue until the user retries or discards it.
+export interface FailedMutation {
+    id: string;
+    kind: "failed";
+    ro_number: string;
+    entry: OutboxEntry;
+    error: string;
+    created_at: string;
+}
+
+export type SyncConflict = QuantityConflict | FailedMutation;
+
+export type ROEventType = "create" | "scan" | "undo" | "quantity" | "delete" | "restore" | "finalize" | "amend";
+
+// What a mutation changed, stored as-is in ro_events.before / after
+export interface ROEventValues {
+    quantity?: number;
+    status?: RO["status"];
+}
+
+// Append-only audit log entry, written in the same transaction as the change it describes
+export interface ROEvent {
+    id: string; // generated on the device and reused as the server key, so uploads are idempotent
+    ro_number: string;
+    event_type: ROEventType;
+    barcode_value?: string;
+    before?: ROEventValues;
+    after?: ROEventValues;
+    reason?: string;
+    user_name?: string; // display name
+    device_id?: string;
+    created_at: string;
+    synced?: boolean; // uploaded to ro_events
+}
+
+// Photo of a part line or of the whole RO, e.g. when a damaged label forced manual entry
+export interface ROPhoto {
+    id: string; // generated on the device and reused as the server key
+    ro_number: string;
+    barcode_value?: string; // the line it belongs to, none for photos of the whole RO
+    blob?: Blob; // JPEG, kept for photos taken on this device
+    url?: string; // signed Storage URL for photos from other devices, expires
+    taken_by?: string; // display name
+    created_at: string;
+    synced?: boolean; // uploaded to ro_photos
+}
+
+// Offline copy of parts_catalog
+export interface CatalogEntry {
+    part_number: string;
+    barcode: string;
+    alt_barcodes: string[];
+    barcodes: string[]; // barcode + alt_barcodes, backs the multiEntry lookup index
+    description?: string;
+    brand?: string;
+    unit_cost?: number;
+    updated_at: string;
 }
 
 // Open DB Helper
@@ -47,6 +177,36 @@ function openDB(): Promise<IDBDatabase> {
                     unique: true,
                 });
             }
+
+            // Store for pending server mutations (v2)
+            if (!db.objectStoreNames.contains("outbox")) {
+                const outboxStore = db.createObjectStore("outbox", { keyPath: "id", autoIncrement: true });
+                outboxStore.createIndex("ro_number", "ro_number", { unique: false });
+            }
+
+            // Store for unresolved quantity conflicts (v3)
+            if (!db.objectStoreNames.contains("conflicts")) {
+                const conflictStore = db.createObjectStore("conflicts", { keyPath: "id" });
+                conflictStore.createIndex("ro_number", "ro_number", { unique: false });
+            }
+
+            // Store for the parts catalog (v4)
+            if (!db.objectStoreNames.contains("catalog")) {
+                const catalogStore = db.createObjectStore("catalog", { keyPath: "part_number" });
+                catalogStore.createIndex("barcodes", "barcodes", { unique: false, multiEntry: true });
+            }
+
+            // Store for the RO audit log (v5)
+            if (!db.objectStoreNames.contains("events")) {
+                const eventStore = db.createObjectStore("events", { keyPath: "id" });
+                eventStore.createIndex("ro_number", "ro_number", { unique: false });
+            }
+
+            // Store for photos (v6)
+            if (!db.objectStoreNames.contains("photos")) {
+                const photoStore = db.createObjectStore("photos", { keyPath: "id" });
+                photoStore.createIndex("ro_number", "ro_number", { unique: false });
+            }
         };
 
         request.onsuccess = () => resolve(request.result);
@@ -54,6 +214,48 @@ function openDB(): Promise<IDBDatabase> {
     });
 }
 
+// Queue a server mutation inside an open transaction that includes the "outbox" and "ros" stores
+function queueMutation(tx: IDBTransaction, roNumber: string, operation: OutboxOperation, payload: OutboxPayload = {}) {
+    const now = new Date().toISOString();
+    const entry: OutboxEntry = {
+        mutation_id: crypto.randomUUID(),
+        ro_number: roNumber,
+        operation,
+        payload,
+        attempts: 0,
+        next_attempt_at: now,
+        created_at: now,
+    };
+    tx.objectStore("outbox").add(entry);
+
+    const roStore = tx.objectStore("ros");
+    const roReq = roStore.get(roNumber);
+    roReq.onsuccess = () => {
+        if (roReq.result) roStore.put({ ...roReq.result, sync_status: "pending" });
+    };
+
+    tx.addEventListener("complete", () => window.dispatchEvent(new Event(OUTBOX_EVENT)));
+}
+
+// Record an audit event inside an open transaction that includes the "events" store
+function logEvent(
+    tx: IDBTransaction,
+    roNumber: string,
+    eventType: ROEventType,
+    fields: Pick<ROEvent, "barcode_value" | "before" | "after" | "reason"> = {}
+) {
+    const event: ROEvent = {
+        ...fields,
+        id: crypto.randomUUID(),
+        ro_number: roNumber,
+        event_type: eventType,
+        user_name: displayName(getCachedUser()) || undefined,
+        device_id: getDeviceId(),
+        created_at: new Date().toISOString(),
+    };
+    tx.objectStore("events").add(event);
+}
+
 // ---------------------- RO Operations ----------------------
 
 export async function createRO(roNumber: string): Promise<{ success: boolean; data?: RO; error?: string }> {
@@ -64,10 +266,12 @@ export async function createRO(roNumber: string): Promise<{ success: boolean; da
             ro_number: roNumber.toUpperCase(),
             status: "draft",
             created_at: new Date().toISOString(),
+            sync_status: "pending",
+            created_by: displayName(getCachedUser()) || undefined,
         };
 
         return new Promise((resolve) => {
-            const tx = db.transaction("ros", "readwrite");
+            const tx = db.transaction(["ros", "outbox", "events"], "readwrite");
             const store = tx.objectStore("ros");
 
             // Check existence first (optional, but good for error parity with supabase)
@@ -77,6 +281,8 @@ export async function createRO(roNumber: string): Promise<{ success: boolean; da
                     resolve({ success: false, error: "RO Number already exists" });
                 } else {
                     store.put(ro);
+                    queueMutation(tx, ro.ro_number, "createRO");
+                    logEvent(tx, ro.ro_number, "create", { after: { status: "draft" } });
                     tx.oncomplete = () => resolve({ success: true, data: ro });
                     tx.onerror = () => resolve({ success: false, error: "Failed to create RO" });
                 }
@@ -132,6 +338,25 @@ export async function getRO(roNumber: string): Promise<{ success: boolean; data?
     }
 }
 
+// ROs finalized on or synced to this device in an inclusive date range (YYYY-MM-DD, local time), oldest first
+export async function getFinalizedROs(from: string, to: string): Promise<{ success: boolean; data?: RO[]; error?: string }> {
+    const start = new Date(`${from}T00:00:00`).getTime();
+    const end = new Date(`${to}T23:59:59.999`).getTime();
+
+    const res = await getRecentROs();
+    if (!res.data) return res;
+
+    const ros = res.data
+        .filter((ro) => ro.status === "finalized" && ro.finalized_at)
+        .filter((ro) => {
+            const at = new Date(ro.finalized_at!).getTime();
+            return at >= start && at <= end;
+        })
+        .sort((a, b) => new Date(a.finalized_at!).getTime() - new Date(b.finalized_at!).getTime());
+
+    return { success: true, data: ros };
+}
+
 export async function searchRO(query: string): Promise<{ success: boolean; data?: RO[]; error?: string }> {
     try {
         const db = await openDB();
@@ -155,10 +380,23 @@ export async function searchRO(query: string): Promise<{ success: boolean; data?
     }
 }
 
-export async function finalizeRO(roNumber: string): Promise<{ success: boolean; error?: string }> {
+export async function finalizeRO(roNumber: string, overrideReason?: string): Promise<{ success: boolean; error?: string }> {
+    if (!allowed("finalize")) return { success: false, error: PERMISSION_DENIED };
+
     try {
+        // Same rule as the server action: discrepancies need a written reason
+        const partsRes = await getScannedParts(roNumber);
+        const roRes = await getRO(roNumber);
+        let reconciliation: Reconciliation | undefined;
+        if (roRes.data && partsRes.data) {
+            reconciliation = reconcile(roRes.data.expected_parts, partsRes.data);
+            if (reconciliation.hasDiscrepancies && !overrideReason?.trim()) {
+                return { success: false, error: "Scanned parts do not match the expected list. An override reason is required." };
+            }
+        }
+
         const db = await openDB();
-        const tx = db.transaction("ros", "readwrite");
+        const tx = db.transaction(["ros", "outbox", "events"], "readwrite");
         const store = tx.objectStore("ros");
 
         return new Promise((resolve) => {
@@ -172,10 +410,19 @@ export async function finalizeRO(roNumber: string): Promise<{ success: boolean;
 
                 ro.status = "finalized";
                 ro.finalized_at = new Date().toISOString();
+                ro.override_reason = overrideReason?.trim() || undefined;
+                ro.amend_reason = undefined;
+                ro.finalized_by = displayName(getCachedUser()) || undefined;
 
-                const putReq = store.put(ro);
-                putReq.onsuccess = () => resolve({ success: true });
-                putReq.onerror = () => resolve({ success: false, error: "Failed to finalize" });
+                store.put(ro);
+                queueMutation(tx, roNumber, "finalizeRO", { override_reason: ro.override_reason, reconciliation });
+                logEvent(tx, roNumber, "finalize", {
+                    before: { status: "draft" },
+                    after: { status: "finalized" },
+                    reason: ro.override_reason,
+                });
+                tx.oncomplete = () => resolve({ success: true });
+                tx.onerror = () => resolve({ success: false, error: "Failed to finalize" });
             };
             req.onerror = () => resolve({ success: false, error: "DB Error" });
         });
@@ -184,6 +431,67 @@ export async function finalizeRO(roNumber: string): Promise<{ success: boolean;
     }
 }
 
+// Reopen a finalized RO; the next finalize creates a new final version on the server
+export async function amendRO(roNumber: string, reason: string): Promise<{ success: boolean; error?: string }> {
+    if (!allowed("amend")) return { success: false, error: PERMISSION_DENIED };
+    if (!reason.trim()) return { success: false, error: "An amend reason is required" };
+
+    try {
+        const db = await openDB();
+        const tx = db.transaction(["ros", "outbox", "events"], "readwrite");
+        const store = tx.objectStore("ros");
+
+        return new Promise((resolve) => {
+            const req = store.get(roNumber);
+            req.onsuccess = () => {
+                const ro = req.result;
+                if (!ro) { resolve({ success: false, error: "RO not found" }); return; }
+                if (ro.status !== "finalized") { resolve({ success: false, error: "RO is not finalized" }); return; }
+
+                store.put({ ...ro, status: "draft", amend_reason: reason.trim(), override_reason: undefined });
+                queueMutation(tx, roNumber, "amendRO", { amend_reason: reason.trim() });
+                logEvent(tx, roNumber, "amend", {
+                    before: { status: "finalized" },
+                    after: { status: "draft" },
+                    reason: reason.trim(),
+                });
+                tx.oncomplete = () => resolve({ success: true });
+                tx.onerror = () => resolve({ success: false, error: "Failed to amend" });
+            };
+            req.onerror = () => resolve({ success: false, error: "DB Error" });
+        });
+    } catch (err) {
+        return { success: false, error: (err as Error).message };
+    }
+}
+
+export async function setExpectedParts(roNumber: string, expected: ExpectedPart[]): Promise<{ success: boolean; error?: string }> {
+    if (!allowed("setExpected")) return { success: false, error: PERMISSION_DENIED };
+
+    try {
+        const db = await openDB();
+        const tx = db.transaction(["ros", "outbox"], "readwrite");
+        const store = tx.objectStore("ros");
+
+        return new Promise((resolve) => {
+            const req = store.get(roNumber);
+            req.onsuccess = () => {
+                const ro = req.result;
+                if (!ro) { resolve({ success: false, error: "RO not found" }); return; }
+                if (ro.status !== "draft") { resolve({ success: false, error: "RO is finalized" }); return; }
+
+                store.put({ ...ro, expected_parts: expected });
+                queueMutation(tx, roNumber, "setExpectedParts", { expected_parts: expected });
+                tx.oncomplete = () => resolve({ success: true });
+                tx.onerror = () => resolve({ success: false, error: "Failed to save expected parts" });
+            };
+            req.onerror = () => resolve({ success: false, error: "DB Error" });
+        });
+    } catch (err) {
+        return { success: false, error: (err as Error).message };
+    }
+}
+
 // ---------------------- Part Operations ----------------------
 
 export async function getScannedParts(roId: string): Promise<{ success: boolean; data?: ScannedPart[]; error?: string }> {
@@ -209,7 +517,15 @@ export async function getScannedParts(roId: string): Promise<{ success: boolean;
     }
 }
 
-export async function scanPart(roId: string, barcode: string): Promise<{ success: boolean; data?: ScannedPart; error?: string }> {
+// quantity is more than 1 when a GS1 label encodes a count
+export async function scanPart(
+    roId: string,
+    barcode: string,
+    quantity: number = 1,
+    gs1?: GS1Fields
+): Promise<{ success: boolean; data?: ScannedPart; error?: string }> {
+    if (!allowed("scan")) return { success: false, error: PERMISSION_DENIED };
+
     try {
         const db = await openDB();
 
@@ -218,7 +534,7 @@ export async function scanPart(roId: string, barcode: string): Promise<{ success
         if (!roRes.success || !roRes.data) return { success: false, error: "RO not found" };
         if (roRes.data.status !== "draft") return { success: false, error: "RO is finalized" };
 
-        const tx = db.transaction("parts", "readwrite");
+        const tx = db.transaction(["parts", "ros", "outbox", "events"], "readwrite");
         const store = tx.objectStore("parts");
         const index = store.index("ro_id_barcode");
 
@@ -230,9 +546,17 @@ export async function scanPart(roId: string, barcode: string): Promise<{ success
 
                 if (existing) {
                     // Update
-                    existing.quantity += 1;
+                    logEvent(tx, roId, "scan", {
+                        barcode_value: barcode,
+                        before: { quantity: existing.quantity },
+                        after: { quantity: existing.quantity + quantity },
+                    });
+                    existing.quantity += quantity;
                     existing.updated_at = new Date().toISOString();
+                    existing.scanned_by = displayName(getCachedUser()) || existing.scanned_by;
+                    existing.gs1 = gs1 ?? existing.gs1;
                     store.put(existing);
+                    queueMutation(tx, roId, "scanPart", { barcode_value: barcode, quantity, gs1 });
                     tx.oncomplete = () => resolve({ success: true, data: existing });
                 } else {
                     // Insert
@@ -240,11 +564,15 @@ export async function scanPart(roId: string, barcode: string): Promise<{ success
                         id: crypto.randomUUID(),
                         ro_id: roId,
                         barcode_value: barcode,
-                        quantity: 1,
+                        quantity,
+                        gs1,
                         created_at: new Date().toISOString(),
-                        updated_at: new Date().toISOString()
+                        updated_at: new Date().toISOString(),
+                        scanned_by: displayName(getCachedUser()) || undefined
                     };
                     store.add(newPart);
+                    queueMutation(tx, roId, "scanPart", { barcode_value: barcode, quantity, gs1 });
+                    logEvent(tx, roId, "scan", { barcode_value: barcode, before: { quantity: 0 }, after: { quantity } });
                     tx.oncomplete = () => resolve({ success: true, data: newPart });
                 }
             };
@@ -257,9 +585,47 @@ export async function scanPart(roId: string, barcode: string): Promise<{ success
     }
 }
 
+// One-tap undo from the scanner tally: takes a single scan (quantity units for a counted GS1 label) back off the line
+export async function undoScan(roId: string, barcode: string, quantity: number = 1): Promise<{ success: boolean; error?: string }> {
+    if (!allowed("scan")) return { success: false, error: PERMISSION_DENIED };
+
+    const roRes = await getRO(roId);
+    if (!roRes.success || !roRes.data) return { success: false, error: "RO not found" };
+    if (roRes.data.status !== "draft") return { success: false, error: "RO is finalized" };
+
+    const db = await openDB();
+    const tx = db.transaction(["parts", "ros", "outbox", "events"], "readwrite");
+    const store = tx.objectStore("parts");
+
+    return new Promise((resolve) => {
+        const req = store.index("ro_id_barcode").get([roId, barcode]);
+        req.onsuccess = () => {
+            const part: ScannedPart | undefined = req.result;
+            if (!part) { resolve({ success: false, error: "Part not found" }); return; }
+
+            const remaining = Math.max(part.quantity - quantity, 0);
+            if (remaining > 0) {
+                store.put({ ...part, quantity: remaining, updated_at: new Date().toISOString() });
+            } else {
+                store.delete(part.id);
+            }
+            queueMutation(tx, roId, "undoScan", { barcode_value: barcode, quantity });
+            logEvent(tx, roId, "undo", {
+                barcode_value: barcode,
+                before: { quantity: part.quantity },
+                after: { quantity: remaining },
+            });
+            tx.oncomplete = () => resolve({ success: true });
+        };
+        req.onerror = () => resolve({ success: false, error: "Undo failed" });
+    });
+}
+
 export async function updatePartQuantity(id: string, qty: number): Promise<{ success: boolean; error?: string }> {
+    if (!allowed("editQuantity")) return { success: false, error: PERMISSION_DENIED };
+
     const db = await openDB();
-    const tx = db.transaction("parts", "readwrite");
+    const tx = db.transaction(["parts", "ros", "outbox", "events"], "readwrite");
     const store = tx.objectStore("parts");
 
     return new Promise((resolve) => {
@@ -268,22 +634,606 @@ export async function updatePartQuantity(id: string, qty: number): Promise<{ suc
             const part = req.result;
             if (!part) { resolve({ success: false, error: "Part not found" }); return; }
 
-            part.quantity = qty;
-            part.updated_at = new Date().toISOString();
-            store.put(part);
-            resolve({ success: true });
+            // Same rule as scanPart, checked in this transaction
+            const roReq = tx.objectStore("ros").get(part.ro_id);
+            roReq.onsuccess = () => {
+                if (roReq.result?.status !== "draft") { resolve({ success: false, error: "RO is finalized" }); return; }
+
+                const baseQuantity = part.quantity;
+                part.quantity = qty;
+                part.updated_at = new Date().toISOString();
+                part.scanned_by = displayName(getCachedUser()) || part.scanned_by;
+                store.put(part);
+                queueMutation(tx, part.ro_id, "updatePartQuantity", {
+                    barcode_value: part.barcode_value,
+                    quantity: qty,
+                    base_quantity: baseQuantity,
+                });
+                logEvent(tx, part.ro_id, "quantity", {
+                    barcode_value: part.barcode_value,
+                    before: { quantity: baseQuantity },
+                    after: { quantity: qty },
+                });
+                tx.oncomplete = () => resolve({ success: true });
+            };
         };
         req.onerror = () => resolve({ success: false, error: "Update failed" });
     });
 }
 
 export async function deletePart(id: string): Promise<{ success: boolean; error?: string }> {
+    if (!allowed("deletePart")) return { success: false, error: PERMISSION_DENIED };
+
     const db = await openDB();
-    const tx = db.transaction("parts", "readwrite");
+    const tx = db.transaction(["parts", "ros", "outbox", "events"], "readwrite");
     const store = tx.objectStore("parts");
-    store.delete(id);
     return new Promise(resolve => {
+        const req = store.get(id);
+        req.onsuccess = () => {
+            const part = req.result;
+            if (!part) { resolve({ success: false, error: "Part not found" }); return; }
+
+            const roReq = tx.objectStore("ros").get(part.ro_id);
+            roReq.onsuccess = () => {
+                if (roReq.result?.status !== "draft") { resolve({ success: false, error: "RO is finalized" }); return; }
+
+                store.delete(id);
+                queueMutation(tx, part.ro_id, "deletePart", { barcode_value: part.barcode_value });
+                logEvent(tx, part.ro_id, "delete", {
+                    barcode_value: part.barcode_value,
+                    before: { quantity: part.quantity },
+                });
+            };
+        };
         tx.oncomplete = () => resolve({ success: true });
         tx.onerror = () => resolve({ success: false, error: "Delete failed" });
     });
 }
+
+// Bring back a line removed by a "delete" event, with the quantity it had when deleted
+export async function restorePart(eventId: string): Promise<{ success: boolean; data?: ScannedPart; error?: string }> {
+    if (!allowed("deletePart")) return { success: false, error: PERMISSION_DENIED };
+
+    const db = await openDB();
+    const tx = db.transaction(["parts", "ros", "outbox", "events"], "readwrite");
+
+    return new Promise((resolve) => {
+        let restored: ScannedPart | undefined;
+        const fail = (error: string) => {
+            resolve({ success: false, error });
+            tx.abort();
+        };
+
+        const eventReq = tx.objectStore("events").get(eventId);
+        eventReq.onsuccess = () => {
+            const event: ROEvent | undefined = eventReq.result;
+            if (!event || event.event_type !== "delete" || !event.barcode_value || !event.before?.quantity) {
+                fail("Nothing to restore");
+                return;
+            }
+            const barcode = event.barcode_value;
+            const quantity = event.before.quantity;
+
+            const roReq = tx.objectStore("ros").get(event.ro_number);
+            roReq.onsuccess = () => {
+                if (roReq.result?.status !== "draft") { fail("RO is finalized"); return; }
+
+                const partStore = tx.objectStore("parts");
+                const existingReq = partStore.index("ro_id_barcode").get([event.ro_number, barcode]);
+                existingReq.onsuccess = () => {
+                    if (existingReq.result) { fail("This part is already on the RO"); return; }
+
+                    const now = new Date().toISOString();
+                    restored = {
+                        id: crypto.randomUUID(),
+                        ro_id: event.ro_number,
+                        barcode_value: barcode,
+                        quantity,
+                        created_at: now,
+                        updated_at: now,
+                        scanned_by: displayName(getCachedUser()) || undefined,
+                    };
+                    partStore.add(restored);
+                    // The server line is gone, so this is a quantity set on top of zero
+                    queueMutation(tx, event.ro_number, "updatePartQuantity", {
+                        barcode_value: barcode,
+                        quantity,
+                        base_quantity: 0,
+                    });
+                    logEvent(tx, event.ro_number, "restore", {
+                        barcode_value: barcode,
+                        before: { quantity: 0 },
+                        after: { quantity },
+                    });
+                };
+            };
+        };
+
+        tx.oncomplete = () => resolve({ success: true, data: restored });
+        tx.onerror = () => resolve({ success: false, error: "Restore failed" });
+    });
+}
+
+// ---------------------- Event Operations ----------------------
+
+// Newest first
+export async function getEvents(roNumber: string): Promise<{ success: boolean; data?: ROEvent[]; error?: string }> {
+    try {
+        const db = await openDB();
+        return new Promise((resolve) => {
+            const tx = db.transaction("events", "readonly");
+            const req = tx.objectStore("events").index("ro_number").getAll(roNumber);
+            req.onsuccess = () => {
+                const events: ROEvent[] = (req.result || []).sort(
+                    (a: ROEvent, b: ROEvent) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime()
+                );
+                resolve({ success: true, data: events });
+            };
+            req.onerror = () => resolve({ success: false, error: "Failed to load timeline" });
+        });
+    } catch (err) {
+        return { success: false, error: (err as Error).message };
+    }
+}
+
+// Oldest first, the order they happened in
+export async function getUnsyncedEvents(roNumber: string): Promise<ROEvent[]> {
+    const res = await getEvents(roNumber);
+    return (res.data || []).filter((e) => !e.synced).reverse();
+}
+
+// Store events uploaded from this device or pulled from others; events already here are only marked synced
+export async function saveSyncedEvents(events: ROEvent[]): Promise<void> {
+    const db = await openDB();
+    return new Promise((resolve, reject) => {
+        const tx = db.transaction("events", "readwrite");
+        const store = tx.objectStore("events");
+        events.forEach((event) => {
+            const req = store.get(event.id);
+            req.onsuccess = () => store.put({ ...(req.result || event), synced: true });
+        });
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+    });
+}
+
+// ---------------------- Photo Operations ----------------------
+
+export async function addPhoto(roNumber: string, blob: Blob, barcode?: string): Promise<{ success: boolean; data?: ROPhoto; error?: string }> {
+    if (!allowed("scan")) return { success: false, error: PERMISSION_DENIED };
+
+    const roRes = await getRO(roNumber);
+    if (!roRes.success || !roRes.data) return { success: false, error: "RO not found" };
+    if (roRes.data.status !== "draft") return { success: false, error: "RO is finalized" };
+
+    const photo: ROPhoto = {
+        id: crypto.randomUUID(),
+        ro_number: roNumber,
+        barcode_value: barcode,
+        blob,
+        taken_by: displayName(getCachedUser()) || undefined,
+        created_at: new Date().toISOString(),
+    };
+
+    const db = await openDB();
+    return new Promise((resolve) => {
+        const tx = db.transaction("photos", "readwrite");
+        tx.objectStore("photos").add(photo);
+        tx.oncomplete = () => {
+            window.dispatchEvent(new Event(OUTBOX_EVENT)); // Wake the sync engine for the upload
+            resolve({ success: true, data: photo });
+        };
+        tx.onerror = () => resolve({ success: false, error: "Failed to save photo" });
+    });
+}
+
+// Oldest first
+export async function getPhotos(roNumber: string): Promise<{ success: boolean; data?: ROPhoto[]; error?: string }> {
+    try {
+        const db = await openDB();
+        return new Promise((resolve) => {
+            const req = db.transaction("photos", "readonly").objectStore("photos").index("ro_number").getAll(roNumber);
+            req.onsuccess = () => {
+                const photos: ROPhoto[] = (req.result || []).sort(
+                    (a: ROPhoto, b: ROPhoto) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime()
+                );
+                resolve({ success: true, data: photos });
+            };
+            req.onerror = () => resolve({ success: false, error: "Failed to load photos" });
+        });
+    } catch (err) {
+        return { success: false, error: (err as Error).message };
+    }
+}
+
+// Photos waiting for upload, across all ROs
+export async function getUnsyncedPhotos(): Promise<ROPhoto[]> {
+    const db = await openDB();
+    return new Promise((resolve, reject) => {
+        const req = db.transaction("photos", "readonly").objectStore("photos").getAll();
+        req.onsuccess = () => resolve((req.result || []).filter((p: ROPhoto) => !p.synced && p.blob));
+        req.onerror = () => reject(req.error);
+    });
+}
+
+// Store photos uploaded from this device or listed by the server; local blobs are kept, urls refreshed
+export async function saveSyncedPhotos(photos: ROPhoto[]): Promise<void> {
+    const db = await openDB();
+    return new Promise((resolve, reject) => {
+        const tx = db.transaction("photos", "readwrite");
+        const store = tx.objectStore("photos");
+        photos.forEach((photo) => {
+            const req = store.get(photo.id);
+            req.onsuccess = () => store.put({ ...photo, ...(req.result || {}), url: photo.url ?? req.result?.url, synced: true });
+        });
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+    });
+}
+
+// ---------------------- Outbox Operations ----------------------
+
+export async function getOutbox(): Promise<OutboxEntry[]> {
+    const db = await openDB();
+    return new Promise((resolve, reject) => {
+        const tx = db.transaction("outbox", "readonly");
+        const req = tx.objectStore("outbox").getAll(); // ordered by auto-increment key
+        req.onsuccess = () => resolve(req.result || []);
+        req.onerror = () => reject(req.error);
+    });
+}
+
+// mergedIds are folded into entry in the same transaction, e.g. a failed scan batch into its first entry
+export async function updateOutboxEntry(entry: OutboxEntry, mergedIds: number[] = []): Promise<void> {
+    const db = await openDB();
+    return new Promise((resolve, reject) => {
+        const tx = db.transaction("outbox", "readwrite");
+        const store = tx.objectStore("outbox");
+        store.put(entry);
+        mergedIds.forEach((id) => store.delete(id));
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+    });
+}
+
+// All or nothing, so a replayed batch never comes back in part
+export async function removeOutboxEntries(ids: number[]): Promise<void> {
+    const db = await openDB();
+    return new Promise((resolve, reject) => {
+        const tx = db.transaction("outbox", "readwrite");
+        const store = tx.objectStore("outbox");
+        ids.forEach((id) => store.delete(id));
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+    });
+}
+
+export async function setROSyncStatus(roNumber: string, status: SyncStatus): Promise<void> {
+    const db = await openDB();
+    return new Promise((resolve, reject) => {
+        const tx = db.transaction("ros", "readwrite");
+        const store = tx.objectStore("ros");
+        const req = store.get(roNumber);
+        req.onsuccess = () => {
+            if (req.result) store.put({ ...req.result, sync_status: status });
+        };
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+    });
+}
+
+// Marks the RO synced unless something was queued for it meanwhile; the check and the write share
+// one transaction, so a mutation can't slip in between. Returns whether it was marked.
+export async function markROSynced(roNumber: string): Promise<boolean> {
+    const db = await openDB();
+    return new Promise((resolve, reject) => {
+        const tx = db.transaction(["ros", "outbox"], "readwrite");
+        let marked = false;
+
+        const countReq = tx.objectStore("outbox").index("ro_number").count(roNumber);
+        countReq.onsuccess = () => {
+            if (countReq.result > 0) return;
+
+            const store = tx.objectStore("ros");
+            const req = store.get(roNumber);
+            req.onsuccess = () => {
+                if (req.result) store.put({ ...req.result, sync_status: "synced" });
+            };
+            marked = true;
+        };
+        tx.oncomplete = () => resolve(marked);
+        tx.onerror = () => reject(tx.error);
+    });
+}
+
+// Stores an RO that was started on another device, without queueing its creation or logging a
+// "create" event; both already happened there. An RO this device has is left alone.
+export async function saveRemoteRO(ro: RO): Promise<void> {
+    const db = await openDB();
+    return new Promise((resolve, reject) => {
+        const tx = db.transaction("ros", "readwrite");
+        const store = tx.objectStore("ros");
+        const req = store.get(ro.ro_number);
+        req.onsuccess = () => {
+            if (!req.result) store.add(ro);
+        };
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+    });
+}
+
+// Replace the local parts of an RO with the merged server view.
+// Skipped (returns false) while the RO still has unsynced mutations, they would be overwritten.
+export async function applyRemoteParts(
+    roNumber: string,
+    remoteParts: { barcode_value: string; quantity: number; scanned_by?: string; gs1?: GS1Fields }[],
+    remoteRO: Pick<RO, "status" | "finalized_at" | "expected_parts" | "amend_reason" | "created_by" | "finalized_by">
+): Promise<boolean> {
+    const db = await openDB();
+    return new Promise((resolve, reject) => {
+        const tx = db.transaction(["parts", "ros", "outbox"], "readwrite");
+        const partStore = tx.objectStore("parts");
+        let applied = false;
+
+        const countReq = tx.objectStore("outbox").index("ro_number").count(roNumber);
+        countReq.onsuccess = () => {
+            if (countReq.result > 0) return;
+
+            const localReq = partStore.index("ro_id").getAll(roNumber);
+            localReq.onsuccess = () => {
+                const local = new Map<string, ScannedPart>(
+                    (localReq.result || []).map((p: ScannedPart) => [p.barcode_value, p])
+                );
+                const now = new Date().toISOString();
+
+                remoteParts.forEach(({ barcode_value, quantity, scanned_by, gs1 }) => {
+                    const existing = local.get(barcode_value);
+                    local.delete(barcode_value);
+
+                    if (existing) {
+                        if (existing.quantity !== quantity) {
+                            partStore.put({ ...existing, quantity, scanned_by, gs1, updated_at: now });
+                        } else if (existing.scanned_by !== scanned_by || JSON.stringify(existing.gs1) !== JSON.stringify(gs1)) {
+                            partStore.put({ ...existing, scanned_by, gs1 });
+                        }
+                    } else {
+                        partStore.add({
+                            id: crypto.randomUUID(),
+                            ro_id: roNumber,
+                            barcode_value,
+                            quantity,
+                            scanned_by,
+                            gs1,
+                            created_at: now,
+                            updated_at: now,
+                        });
+                    }
+                });
+
+                // Whatever is left was removed on another device
+                local.forEach((p) => partStore.delete(p.id));
+
+                const roStore = tx.objectStore("ros");
+                const roReq = roStore.get(roNumber);
+                roReq.onsuccess = () => {
+                    if (roReq.result) {
+                        roStore.put({
+                            ...roReq.result,
+                            status: remoteRO.status,
+                            finalized_at: remoteRO.finalized_at,
+                            expected_parts: remoteRO.expected_parts,
+                            amend_reason: remoteRO.amend_reason,
+                            created_by: remoteRO.created_by,
+                            finalized_by: remoteRO.finalized_by,
+                        });
+                    }
+                };
+                applied = true;
+            };
+        };
+
+        tx.oncomplete = () => resolve(applied);
+        tx.onerror = () => reject(tx.error);
+    });
+}
+
+// ---------------------- Conflict Operations ----------------------
+
+export async function addConflict(conflict: Omit<QuantityConflict, "id" | "created_at">): Promise<void> {
+    const db = await openDB();
+    return new Promise((resolve, reject) => {
+        const tx = db.transaction("conflicts", "readwrite");
+        tx.objectStore("conflicts").add({
+            ...conflict,
+            kind: "quantity",
+            id: crypto.randomUUID(),
+            created_at: new Date().toISOString(),
+        });
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+    });
+}
+
+export async function getConflicts(roNumber: string): Promise<{ success: boolean; data?: SyncConflict[]; error?: string }> {
+    try {
+        const db = await openDB();
+        return new Promise((resolve) => {
+            const tx = db.transaction("conflicts", "readonly");
+            const req = tx.objectStore("conflicts").index("ro_number").getAll(roNumber);
+            req.onsuccess = () => resolve({ success: true, data: req.result || [] });
+            req.onerror = () => resolve({ success: false, error: "Failed to load conflicts" });
+        });
+    } catch (err) {
+        return { success: false, error: (err as Error).message };
+    }
+}
+
+// "local" re-applies this device's edit on top of the server total, "remote" accepts the server total
+export async function resolveConflict(id: string, keep: "local" | "remote"): Promise<{ success: boolean; error?: string }> {
+    if (keep === "local" && !allowed("editQuantity")) return { success: false, error: PERMISSION_DENIED };
+
+    const db = await openDB();
+    const tx = db.transaction(["conflicts", "parts", "ros", "outbox", "events"], "readwrite");
+    const conflictStore = tx.objectStore("conflicts");
+
+    return new Promise((resolve) => {
+        const req = conflictStore.get(id);
+        req.onsuccess = () => {
+            const conflict: SyncConflict | undefined = req.result;
+            if (!conflict || conflict.kind === "failed") { resolve({ success: false, error: "Conflict not found" }); return; }
+
+            conflictStore.delete(id);
+
+            const partStore = tx.objectStore("parts");
+            const partReq = partStore.index("ro_id_barcode").get([conflict.ro_number, conflict.barcode_value]);
+            partReq.onsuccess = () => {
+                const quantity = keep === "local" ? conflict.local_quantity : conflict.remote_quantity;
+                const part = partReq.result;
+                if (part) partStore.put({ ...part, quantity, updated_at: new Date().toISOString() });
+
+                if (keep === "local") {
+                    queueMutation(tx, conflict.ro_number, "updatePartQuantity", {
+                        barcode_value: conflict.barcode_value,
+                        quantity: conflict.local_quantity,
+                        base_quantity: conflict.remote_quantity,
+                    });
+                    logEvent(tx, conflict.ro_number, "quantity", {
+                        barcode_value: conflict.barcode_value,
+                        before: { quantity: conflict.remote_quantity },
+                        after: { quantity: conflict.local_quantity },
+                        reason: "Kept this device's quantity over a conflicting change",
+                    });
+                }
+            };
+        };
+        tx.oncomplete = () => resolve({ success: true });
+        tx.onerror = () => resolve({ success: false, error: "Failed to resolve conflict" });
+    });
+}
+
+// Moves a rejected entry (and the scans merged into it) out of the outbox in one transaction
+export async function parkOutboxEntry(entry: OutboxEntry, mergedIds: number[], error: string): Promise<void> {
+    const db = await openDB();
+    return new Promise((resolve, reject) => {
+        const tx = db.transaction(["outbox", "conflicts"], "readwrite");
+        const outboxStore = tx.objectStore("outbox");
+        outboxStore.delete(entry.id!);
+        mergedIds.forEach((id) => outboxStore.delete(id));
+
+        const failed: FailedMutation = {
+            id: crypto.randomUUID(),
+            kind: "failed",
+            ro_number: entry.ro_number,
+            entry,
+            error,
+            created_at: new Date().toISOString(),
+        };
+        tx.objectStore("conflicts").add(failed);
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+    });
+}
+
+// "retry" queues the mutation again behind everything else for the RO, "discard" drops it;
+// either way the next pull brings the local RO back in line with the server
+export async function resolveFailedMutation(id: string, action: "retry" | "discard"): Promise<{ success: boolean; error?: string }> {
+    const db = await openDB();
+    const tx = db.transaction(["conflicts", "ros", "outbox"], "readwrite");
+    const conflictStore = tx.objectStore("conflicts");
+
+    return new Promise((resolve) => {
+        const req = conflictStore.get(id);
+        req.onsuccess = () => {
+            const failed: SyncConflict | undefined = req.result;
+            if (!failed || failed.kind !== "failed") { resolve({ success: false, error: "Failed change not found" }); return; }
+
+            conflictStore.delete(id);
+            if (action === "retry") queueMutation(tx, failed.ro_number, failed.entry.operation, failed.entry.payload);
+        };
+        tx.oncomplete = () => resolve({ success: true });
+        tx.onerror = () => resolve({ success: false, error: "Failed to resolve change" });
+    });
+}
+
+// ---------------------- Catalog Operations ----------------------
+
+export async function saveCatalogEntries(entries: Omit<CatalogEntry, "barcodes">[]): Promise<{ success: boolean; error?: string }> {
+    try {
+        const db = await openDB();
+        return new Promise((resolve) => {
+            const tx = db.transaction("catalog", "readwrite");
+            const store = tx.objectStore("catalog");
+            entries.forEach((entry) => {
+                store.put({ ...entry, barcodes: [entry.barcode, ...(entry.alt_barcodes || [])] });
+            });
+            tx.oncomplete = () => resolve({ success: true });
+            tx.onerror = () => resolve({ success: false, error: "Failed to save catalog" });
+        });
+    } catch (err) {
+        return { success: false, error: (err as Error).message };
+    }
+}
+
+// Drops parts deleted on the server; a copy saved after the deletion (the part came back) is kept
+export async function removeCatalogEntries(deleted: { part_number: string; deleted_at: string }[]): Promise<{ success: boolean; error?: string }> {
+    try {
+        const db = await openDB();
+        return new Promise((resolve) => {
+            const tx = db.transaction("catalog", "readwrite");
+            const store = tx.objectStore("catalog");
+            deleted.forEach(({ part_number, deleted_at }) => {
+                const req = store.get(part_number);
+                req.onsuccess = () => {
+                    const entry: CatalogEntry | undefined = req.result;
+                    if (entry && new Date(entry.updated_at).getTime() <= new Date(deleted_at).getTime()) {
+                        store.delete(part_number);
+                    }
+                };
+            });
+            tx.oncomplete = () => resolve({ success: true });
+            tx.onerror = () => resolve({ success: false, error: "Failed to update catalog" });
+        });
+    } catch (err) {
+        return { success: false, error: (err as Error).message };
+    }
+}
+
+export async function getCatalogEntries(): Promise<{ success: boolean; data?: CatalogEntry[]; error?: string }> {
+    try {
+        const db = await openDB();
+        return new Promise((resolve) => {
+            const tx = db.transaction("catalog", "readonly");
+            const req = tx.objectStore("catalog").getAll();
+            req.onsuccess = () => resolve({ success: true, data: req.result || [] });
+            req.onerror = () => resolve({ success: false, error: "Failed to load catalog" });
+        });
+    } catch (err) {
+        return { success: false, error: (err as Error).message };
+    }
+}
+
+// Resolve barcodes (primary or alternate) to catalog entries; unknown barcodes are left out of the map
+export async function lookupBarcodes(barcodes: string[]): Promise<Map<string, CatalogEntry>> {
+    const found = new Map<string, CatalogEntry>();
+    if (barcodes.length === 0) return found;
+
+    try {
+        const db = await openDB();
+        return new Promise((resolve) => {
+            const tx = db.transaction("catalog", "readonly");
+            const index = tx.objectStore("catalog").index("barcodes");
+
+            new Set(barcodes).forEach((barcode) => {
+                const req = index.get(barcode);
+                req.onsuccess = () => {
+                    if (req.result) found.set(barcode, req.result);
+                };
+            });
+
+            tx.oncomplete = () => resolve(found);
+            tx.onerror = () => resolve(found);
+        });
+    } catch {
+        return found;
+    }
+}
@@ -0,0 +1,12 @@
+// Stable per-install device id, used to keep scan increments per device on the server
+
+const DEVICE_KEY = "ro_scanner_device_id";
+
+export function getDeviceId(): string {
+    let id = localStorage.getItem(DEVICE_KEY);
+    if (!id) {
+        id = crypto.randomUUID();
+        localStorage.setItem(DEVICE_KEY, id);
+    }
+    return id;
+}
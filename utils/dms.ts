@@ -0,0 +1,196 @@
+// Outbound DMS (dealer management system) integration: each final snapshot is posted as signed JSON.
+// finalize_ro queues a dms_deliveries row; deliverDMS sends it right after finalizing, and
+// /api/dms/deliver (run by a cron) retries what failed with backoff until it goes to the dead-letter list.
+
+import { createServiceClient } from "@/utils/supabase/server";
+import { postSigned, PostResult } from "@/utils/signature";
+
+export type DMSDeliveryStatus = "pending" | "delivered" | "dead";
+
+export const DMS_MAX_ATTEMPTS = 8; // about two hours of retries, then dead
+const LEASE_SECONDS = 120; // a claimed job is hidden from other runs while it is being sent
+const BATCH_SIZE = 20;
+
+// What the DMS receives
+export interface DMSPayload {
+    event: "ro.finalized";
+    final_entry_id: string; // also sent as Idempotency-Key, resends carry the same id
+    ro_id: string;
+    ro_number: string;
+    version: number;
+    previous_entry_id: string | null; // set for amended ROs, the DMS should replace that version
+    finalized_at: string;
+    finalized_by: { email: string; full_name: string | null } | null;
+    override_reason: string | null;
+    amend_reason: string | null;
+    parts: {
+        barcode: string;
+        part_number: string | null;
+        description: string | null;
+        brand: string | null;
+        unit_cost: number | null;
+        quantity: number;
+    }[];
+}
+
+export interface DMSResult extends PostResult {
+    skipped?: boolean; // not due, or another run has it
+}
+
+// Anything that can take a payload: the HTTP adapter below, or another transport for a different DMS
+export interface DMSAdapter {
+    send(payload: DMSPayload): Promise<DMSResult>;
+}
+
+// POSTs the payload as JSON; 2xx is delivered, anything else is retried. The URL comes from the server
+// environment, not from a user, so it may point into the shop network (or at /api/dms/mock locally).
+export function httpAdapter(url: string, secret: string): DMSAdapter {
+    return {
+        send: (payload) => postSigned(
+            url,
+            secret,
+            JSON.stringify(payload),
+            { "Idempotency-Key": payload.final_entry_id },
+            { allowPrivate: true }
+        ),
+    };
+}
+
+// Configured from DMS_ENDPOINT_URL and DMS_SIGNING_SECRET; null leaves jobs queued
+export function getDMSAdapter(): DMSAdapter | null {
+    const url = process.env.DMS_ENDPOINT_URL;
+    const secret = process.env.DMS_SIGNING_SECRET;
+    return url && secret ? httpAdapter(url, secret) : null;
+}
+
+// 1, 2, 4 ... minutes after each failure
+export function nextAttemptAt(attempts: number, now = new Date()): Date {
+    return new Date(now.getTime() + 2 ** Math.max(0, attempts - 1) * 60_000);
+}
+
+type ServiceClient = Awaited<ReturnType<typeof createServiceClient>>;
+
+async function buildPayload(supabase: ServiceClient, finalEntryId: string): Promise<DMSPayload> {
+    const [entryRes, partsRes] = await Promise.all([
+        supabase
+            .from("ro_final_entries")
+            .select("*, finalized_by_profile:profiles!finalized_by(email, full_name)")
+            .eq("id", finalEntryId)
+            .single(),
+        supabase
+            .from("ro_final_parts")
+            .select("barcode_value, quantity")
+            .eq("final_entry_id", finalEntryId)
+            .order("barcode_value"),
+    ]);
+    if (entryRes.error) throw new Error(entryRes.error.message);
+    if (partsRes.error) throw new Error(partsRes.error.message);
+
+    // Catalog details, matched on the main or an alternate barcode like lookupCatalog
+    const barcodes = partsRes.data.map((p) => p.barcode_value as string);
+    const [main, alt] = barcodes.length > 0
+        ? await Promise.all([
+            supabase.from("parts_catalog").select("*").in("barcode", barcodes),
+            supabase.from("parts_catalog").select("*").overlaps("alt_barcodes", barcodes),
+        ])
+        : [{ data: [] }, { data: [] }];
+    const catalog = [...(main.data || []), ...(alt.data || [])];
+    const find = (barcode: string) =>
+        catalog.find((c) => c.barcode === barcode) ?? catalog.find((c) => (c.alt_barcodes || []).includes(barcode));
+
+    const entry = entryRes.data;
+    return {
+        event: "ro.finalized",
+        final_entry_id: entry.id,
+        ro_id: entry.ro_id,
+        ro_number: entry.ro_number,
+        version: entry.version,
+        previous_entry_id: entry.previous_entry_id ?? null,
+        finalized_at: entry.finalized_at,
+        finalized_by: entry.finalized_by_profile
+            ? { email: entry.finalized_by_profile.email, full_name: entry.finalized_by_profile.full_name ?? null }
+            : null,
+        override_reason: entry.override_reason ?? null,
+        amend_reason: entry.amend_reason ?? null,
+        parts: partsRes.data.map((p) => {
+            const item = find(p.barcode_value);
+            return {
+                barcode: p.barcode_value,
+                part_number: item?.part_number ?? null,
+                description: item?.description ?? null,
+                brand: item?.brand ?? null,
+                unit_cost: item?.unit_cost ?? null,
+                quantity: p.quantity,
+            };
+        }),
+    };
+}
+
+// Sends one queued delivery if it is due and nobody else holds it. Failures are recorded on the row,
+// never thrown, so callers can fire and forget.
+export async function deliverDMS(finalEntryId: string, adapter: DMSAdapter | null = getDMSAdapter()): Promise<DMSResult> {
+    if (!adapter) return { ok: false, error: "DMS endpoint is not configured" };
+
+    const supabase = await createServiceClient();
+    const now = new Date();
+
+    // Claim: push next_attempt_at out so a concurrent run skips it
+    const { data: claimed, error: claimError } = await supabase
+        .from("dms_deliveries")
+        .update({ next_attempt_at: new Date(now.getTime() + LEASE_SECONDS * 1000).toISOString() })
+        .eq("final_entry_id", finalEntryId)
+        .eq("status", "pending")
+        .lte("next_attempt_at", now.toISOString())
+        .select("attempts")
+        .maybeSingle();
+
+    if (claimError) return { ok: false, error: claimError.message };
+    if (!claimed) return { ok: false, skipped: true };
+
+    let result: DMSResult;
+    try {
+        result = await adapter.send(await buildPayload(supabase, finalEntryId));
+    } catch (err) {
+        result = { ok: false, error: (err as Error).message };
+    }
+
+    const attempts = claimed.attempts + 1;
+    const update = result.ok
+        ? { status: "delivered", attempts, delivered_at: new Date().toISOString(), next_attempt_at: null, last_error: null }
+        : attempts >= DMS_MAX_ATTEMPTS
+            ? { status: "dead", attempts, next_attempt_at: null, last_error: result.error }
+            : { status: "pending", attempts, next_attempt_at: nextAttemptAt(attempts).toISOString(), last_error: result.error };
+
+    await supabase
+        .from("dms_deliveries")
+        .update({ ...update, last_response_status: result.status ?? null, updated_at: new Date().toISOString() })
+        .eq("final_entry_id", finalEntryId);
+
+    return result;
+}
+
+// Every delivery that is due, oldest first, a batch at a time
+export async function deliverDueDMS(): Promise<{ delivered: number; failed: number; error?: string }> {
+    const adapter = getDMSAdapter();
+    if (!adapter) return { delivered: 0, failed: 0, error: "DMS endpoint is not configured" };
+
+    const supabase = await createServiceClient();
+    const { data, error } = await supabase
+        .from("dms_deliveries")
+        .select("final_entry_id")
+        .eq("status", "pending")
+        .lte("next_attempt_at", new Date().toISOString())
+        .order("next_attempt_at")
+        .limit(BATCH_SIZE);
+
+    if (error) return { delivered: 0, failed: 0, error: error.message };
+
+    let delivered = 0;
+    let failed = 0;
+    for (const { final_entry_id } of data || []) {
+        const result = await deliverDMS(final_entry_id, adapter);
+        if (result.ok) delivered++;
+        else if (!result.skipped) failed++;
+    }
+    return { delivered, failed };
+}
@@ -0,0 +1,206 @@
+// Batch export of finalized ROs: saved column templates and the file writers
+
+import * as XLSX from "xlsx";
+import type { CatalogEntry } from "@/utils/db";
+import { downloadCSV } from "@/utils/csv";
+
+const TEMPLATES_KEY = "ro_scanner_export_templates";
+
+export type ExportField =
+    | "ro_number"
+    | "version"
+    | "finalized_at"
+    | "finalized_by"
+    | "override_reason"
+    | "amend_reason"
+    | "barcode"
+    | "part_number"
+    | "description"
+    | "brand"
+    | "unit_cost"
+    | "quantity"
+    | "line_total";
+
+export const EXPORT_FIELDS: { field: ExportField; label: string }[] = [
+    { field: "ro_number", label: "RO Number" },
+    { field: "version", label: "Version" },
+    { field: "finalized_at", label: "Finalized" },
+    { field: "finalized_by", label: "Finalized By" },
+    { field: "override_reason", label: "Override Reason" },
+    { field: "amend_reason", label: "Amend Reason" },
+    { field: "barcode", label: "Barcode" },
+    { field: "part_number", label: "Part Number" },
+    { field: "description", label: "Description" },
+    { field: "brand", label: "Brand" },
+    { field: "unit_cost", label: "Unit Cost" },
+    { field: "quantity", label: "Quantity" },
+    { field: "line_total", label: "Line Total" },
+];
+
+export type DateFormat = "iso" | "date" | "us" | "eu";
+
+export const DATE_FORMATS: { format: DateFormat; label: string }[] = [
+    { format: "iso", label: "2026-03-31 14:05" },
+    { format: "date", label: "2026-03-31" },
+    { format: "us", label: "03/31/2026" },
+    { format: "eu", label: "31/03/2026" },
+];
+
+export const DELIMITERS: { delimiter: string; label: string }[] = [
+    { delimiter: ",", label: "Comma" },
+    { delimiter: ";", label: "Semicolon" },
+    { delimiter: "\t", label: "Tab" },
+];
+
+// workbook: every line on one sheet; sheets: a sheet per RO; csv: one CSV file
+export type ExportLayout = "workbook" | "sheets" | "csv";
+
+export const EXPORT_LAYOUTS: { layout: ExportLayout; label: string }[] = [
+    { layout: "workbook", label: "XLSX, one sheet" },
+    { layout: "sheets", label: "XLSX, a sheet per RO" },
+    { layout: "csv", label: "CSV" },
+];
+
+export interface ExportColumn {
+    field: ExportField;
+    header: string;
+}
+
+export interface ExportTemplate {
+    id: string;
+    name: string;
+    columns: ExportColumn[]; // in file order
+    dateFormat: DateFormat;
+    delimiter: string; // CSV only
+    layout: ExportLayout;
+}
+
+export const DEFAULT_TEMPLATE: ExportTemplate = {
+    id: "default",
+    name: "Default",
+    columns: ["ro_number", "version", "finalized_at", "barcode", "part_number", "description", "brand", "unit_cost", "quantity"]
+        .map((field) => ({ field: field as ExportField, header: EXPORT_FIELDS.find((f) => f.field === field)!.label })),
+    dateFormat: "iso",
+    delimiter: ",",
+    layout: "workbook",
+};
+
+// A final entry and its snapshot lines, from the server or rebuilt from IndexedDB when offline
+export interface ExportEntry {
+    id: string;
+    ro_number: string;
+    version?: number; // unknown for local copies
+    finalized_at: string;
+    finalized_by?: string; // display name
+    override_reason?: string;
+    amend_reason?: string;
+    parts: { barcode_value: string; quantity: number }[];
+}
+
+// Templates live on the device so exports work offline; the default can't be removed
+export function getExportTemplates(): ExportTemplate[] {
+    if (typeof window === "undefined") return [DEFAULT_TEMPLATE];
+    const raw = localStorage.getItem(TEMPLATES_KEY);
+    if (!raw) return [DEFAULT_TEMPLATE];
+    try {
+        return [DEFAULT_TEMPLATE, ...(JSON.parse(raw) as ExportTemplate[])];
+    } catch {
+        return [DEFAULT_TEMPLATE]; // Corrupt copy, the next save replaces it
+    }
+}
+
+export function saveExportTemplate(template: ExportTemplate) {
+    const saved = getExportTemplates().filter((t) => t.id !== DEFAULT_TEMPLATE.id && t.id !== template.id);
+    localStorage.setItem(TEMPLATES_KEY, JSON.stringify([...saved, template]));
+}
+
+export function deleteExportTemplate(id: string) {
+    const saved = getExportTemplates().filter((t) => t.id !== DEFAULT_TEMPLATE.id && t.id !== id);
+    localStorage.setItem(TEMPLATES_KEY, JSON.stringify(saved));
+}
+
+const pad = (n: number) => String(n).padStart(2, "0");
+
+// Local time, the way the shop reads it
+export function formatDate(value: string, format: DateFormat): string {
+    const d = new Date(value);
+    if (isNaN(d.getTime())) return value;
+    const [y, m, day] = [d.getFullYear(), pad(d.getMonth() + 1), pad(d.getDate())];
+    switch (format) {
+        case "iso": return `${y}-${m}-${day} ${pad(d.getHours())}:${pad(d.getMinutes())}`;
+        case "date": return `${y}-${m}-${day}`;
+        case "us": return `${m}/${day}/${y}`;
+        case "eu": return `${day}/${m}/${y}`;
+    }
+}
+
+function cell(
+    field: ExportField,
+    entry: ExportEntry,
+    part: ExportEntry["parts"][number],
+    item: CatalogEntry | undefined,
+    template: ExportTemplate
+): string | number {
+    switch (field) {
+        case "ro_number": return entry.ro_number;
+        case "version": return entry.version ?? "";
+        case "finalized_at": return formatDate(entry.finalized_at, template.dateFormat);
+        case "finalized_by": return entry.finalized_by ?? "";
+        case "override_reason": return entry.override_reason ?? "";
+        case "amend_reason": return entry.amend_reason ?? "";
+        case "barcode": return part.barcode_value;
+        case "part_number": return item?.part_number ?? "";
+        case "description": return item?.description ?? "";
+        case "brand": return item?.brand ?? "";
+        case "unit_cost": return item?.unit_cost ?? "";
+        case "quantity": return part.quantity;
+        case "line_total":
+            return item?.unit_cost !== undefined ? Math.round(item.unit_cost * part.quantity * 100) / 100 : "";
+    }
+}
+
+// Header row first, then one row per part line in entry order
+export function exportRows(entries: ExportEntry[], catalog: Map<string, CatalogEntry>, template: ExportTemplate) {
+    const rows: (string | number)[][] = [template.columns.map((c) => c.header)];
+    entries.forEach((entry) => {
+        entry.parts.forEach((part) => {
+            const item = catalog.get(part.barcode_value);
+            rows.push(template.columns.map((c) => cell(c.field, entry, part, item, template)));
+        });
+    });
+    return rows;
+}
+
+// Excel caps sheet names at 31 characters and rejects a few symbols; amended ROs get a version suffix
+function sheetName(entry: ExportEntry, used: Set<string>) {
+    const base = `${entry.ro_number}${entry.version && entry.version > 1 ? ` v${entry.version}` : ""}`
+        .replace(/[\\/?*[\]:]/g, "_")
+        .slice(0, 28);
+    let name = base;
+    for (let n = 2; used.has(name.toLowerCase()); n++) name = `${base}~${n}`;
+    used.add(name.toLowerCase());
+    return name;
+}
+
+// Writes the file through the browser download; baseName has no extension
+export function writeBatchExport(entries: ExportEntry[], catalog: Map<string, CatalogEntry>, template: ExportTemplate, baseName: string) {
+    if (entries.length === 0) return; // XLSX refuses to write a workbook without sheets
+
+    if (template.layout === "csv") {
+        downloadCSV(exportRows(entries, catalog, template), `${baseName}.csv`, { delimiter: template.delimiter });
+        return;
+    }
+
+    const wb = XLSX.utils.book_new();
+
+    if (template.layout === "sheets") {
+        const used = new Set<string>();
+        entries.forEach((entry) => {
+            XLSX.utils.book_append_sheet(wb, XLSX.utils.aoa_to_sheet(exportRows([entry], catalog, template)), sheetName(entry, used));
+        });
+    } else {
+        XLSX.utils.book_append_sheet(wb, XLSX.utils.aoa_to_sheet(exportRows(entries, catalog, template)), "Final Parts");
+    }
+
+    XLSX.writeFile(wb, `${baseName}.xlsx`);
+}
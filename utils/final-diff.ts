@@ -0,0 +1,28 @@
+// Line-by-line changes between two final snapshots of the same RO
+
+export type PartChange = "added" | "removed" | "changed";
+
+export interface PartDiff {
+    barcode_value: string;
+    before: number; // 0 when added
+    after: number; // 0 when removed
+    change: PartChange;
+}
+
+type SnapshotLine = { barcode_value: string; quantity: number };
+
+// Unchanged lines are left out
+export function diffFinalParts(before: SnapshotLine[], after: SnapshotLine[]): PartDiff[] {
+    const beforeQty = new Map(before.map((p) => [p.barcode_value, p.quantity]));
+    const afterQty = new Map(after.map((p) => [p.barcode_value, p.quantity]));
+    const barcodes = [...new Set([...beforeQty.keys(), ...afterQty.keys()])].sort();
+
+    return barcodes.flatMap((barcode_value) => {
+        const b = beforeQty.get(barcode_value) ?? 0;
+        const a = afterQty.get(barcode_value) ?? 0;
+        if (a === b) return [];
+
+        const change: PartChange = b === 0 ? "added" : a === 0 ? "removed" : "changed";
+        return [{ barcode_value, before: b, after: a, change }];
+    });
+}
@@ -0,0 +1,63 @@
+// Finals page filters, kept in the URL query string so a filtered view can be bookmarked and shared
+
+export const FINALS_PAGE_SIZE = 20;
+
+export type FinalsSort = "newest" | "oldest" | "ro";
+
+export const FINALS_SORTS: { sort: FinalsSort; label: string }[] = [
+    { sort: "newest", label: "Newest first" },
+    { sort: "oldest", label: "Oldest first" },
+    { sort: "ro", label: "RO number" },
+];
+
+export interface FinalsFilters {
+    from?: string; // YYYY-MM-DD, inclusive
+    to?: string; // YYYY-MM-DD, inclusive
+    ro?: string; // part of the RO number
+    finalizedBy?: string; // profile id
+    barcode?: string; // snapshot contains this barcode
+    sort: FinalsSort;
+    page: number; // 1-based
+}
+
+type SearchParams = Record<string, string | string[] | undefined>;
+
+const DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+function param(params: SearchParams, key: string) {
+    const value = params[key];
+    return (Array.isArray(value) ? value[0] : value)?.trim() || undefined;
+}
+
+// Unknown or malformed values fall back to "no filter" instead of an error page
+export function parseFinalsFilters(params: SearchParams): FinalsFilters {
+    const from = param(params, "from");
+    const to = param(params, "to");
+    const sort = param(params, "sort") as FinalsSort | undefined;
+    const page = Number(param(params, "page"));
+
+    return {
+        from: from && DATE.test(from) ? from : undefined,
+        to: to && DATE.test(to) ? to : undefined,
+        ro: param(params, "ro")?.toUpperCase(),
+        finalizedBy: param(params, "by"),
+        barcode: param(params, "barcode")?.toUpperCase(),
+        sort: FINALS_SORTS.some((s) => s.sort === sort) ? sort! : "newest",
+        page: Number.isInteger(page) && page > 1 ? page : 1,
+    };
+}
+
+// Defaults are left out to keep shared links short
+export function finalsQueryString(filters: FinalsFilters) {
+    const params = new URLSearchParams();
+    if (filters.from) params.set("from", filters.from);
+    if (filters.to) params.set("to", filters.to);
+    if (filters.ro) params.set("ro", filters.ro);
+    if (filters.finalizedBy) params.set("by", filters.finalizedBy);
+    if (filters.barcode) params.set("barcode", filters.barcode);
+    if (filters.sort !== "newest") params.set("sort", filters.sort);
+    if (filters.page > 1) params.set("page", String(filters.page));
+
+    const query = params.toString();
+    return query ? `?${query}` : "";
+}
@@ -0,0 +1,105 @@
+import { describe, expect, it } from "vitest";
+import { describeGS1, parseGS1, resolveScan } from "./gs1";
+
+const GS = "\x1d";
+const GTIN = "09506000134352"; // valid check digit
+
+describe("parseGS1", () => {
+    it("leaves plain barcodes alone", () => {
+        expect(parseGS1("ABC-123")).toBeNull();
+        expect(parseGS1("4006381333931")).toBeNull();
+    });
+
+    it("treats an unmarked bare GTIN as a plain barcode", () => {
+        expect(parseGS1(`01${GTIN}`)).toBeNull();
+    });
+
+    it("reads unmarked data that opens with a GTIN and carries more fields", () => {
+        expect(parseGS1(`01${GTIN}10LOT7`)).toEqual({ gtin: GTIN, lot: "LOT7" });
+    });
+
+    it("reads a fixed-length field followed directly by the next AI", () => {
+        expect(parseGS1(`01${GTIN}1727033110A12`)).toEqual({ gtin: GTIN, expiry: "2027-03-31", lot: "A12" });
+    });
+
+    it("ends variable-length fields at a GS separator", () => {
+        expect(parseGS1(`]C101${GTIN}10A12${GS}21SN9${GS}3024`)).toEqual({
+            gtin: GTIN,
+            lot: "A12",
+            serial: "SN9",
+            quantity: 24,
+        });
+    });
+
+    it("strips the ]C1 and ]d2 symbology prefixes", () => {
+        expect(parseGS1(`]C101${GTIN}`)).toEqual({ gtin: GTIN });
+        expect(parseGS1(`]d201${GTIN}`)).toEqual({ gtin: GTIN });
+    });
+
+    it("accepts a leading FNC1 as the GS1 marker", () => {
+        expect(parseGS1(`${GS}01${GTIN}`)).toEqual({ gtin: GTIN });
+    });
+
+    it("reads the human-readable form", () => {
+        expect(parseGS1(`(01)${GTIN}(10)ABC123`)).toEqual({ gtin: GTIN, lot: "ABC123" });
+    });
+
+    it("reads the part number from AI 240 or 241", () => {
+        expect(parseGS1(`]C1240PN-1${GS}302`)).toEqual({ part_number: "PN-1", quantity: 2 });
+        expect(parseGS1(`]C1241CUST-9`)).toEqual({ part_number: "CUST-9" });
+    });
+
+    it("reads dates, day 00 meaning the last day of the month", () => {
+        expect(parseGS1(`]C101${GTIN}17280200`)?.expiry).toBe("2028-02-29");
+        expect(parseGS1(`]C101${GTIN}11250115`)?.production_date).toBe("2025-01-15");
+        expect(parseGS1(`]C101${GTIN}17271301`)).toEqual({ gtin: GTIN }); // month 13
+    });
+
+    it("ignores a zero count", () => {
+        expect(parseGS1(`]C101${GTIN}300`)).toEqual({ gtin: GTIN });
+    });
+
+    it("rejects a GTIN or SSCC with a wrong check digit", () => {
+        expect(parseGS1("]C10109506000134353")).toBeNull();
+        expect(parseGS1("(01)09506000134353")).toBeNull();
+        expect(parseGS1(`]C100106141411234567897240PN-1`)).toEqual({ part_number: "PN-1" });
+        expect(parseGS1(`]C100106141411234567898240PN-1`)).toBeNull();
+    });
+
+    it("needs a GTIN or part number to count the line under", () => {
+        expect(parseGS1(`]C110LOT7`)).toBeNull();
+    });
+
+    it("rejects malformed data", () => {
+        expect(parseGS1("]C199ABC")).toBeNull(); // unknown AI
+        expect(parseGS1("]C1010950600")).toBeNull(); // truncated GTIN
+        expect(parseGS1(`]C101${GTIN}10${GS}`)).toBeNull(); // empty variable field
+        expect(parseGS1(`]C101${GTIN}10${"X".repeat(21)}`)).toBeNull(); // too long
+        expect(parseGS1(`(01)${GTIN}(99)X`)).toBeNull();
+        expect(parseGS1(`(01)${GTIN}junk(`)).toBeNull();
+    });
+});
+
+describe("resolveScan", () => {
+    it("counts plain barcodes once under the raw value", () => {
+        expect(resolveScan("abc-123")).toEqual({ barcode: "abc-123", quantity: 1 });
+    });
+
+    it("prefers the part number and takes the label count", () => {
+        const scan = resolveScan(`]C101${GTIN}240pn-1${GS}306`);
+        expect(scan.barcode).toBe("PN-1");
+        expect(scan.quantity).toBe(6);
+    });
+
+    it("falls back to the GTIN, without the leading zero of an EAN-13", () => {
+        expect(resolveScan(`]C101${GTIN}`).barcode).toBe("9506000134352");
+        expect(resolveScan("]C10110012345678902").barcode).toBe("10012345678902");
+    });
+});
+
+describe("describeGS1", () => {
+    it("lists the fields that are set", () => {
+        expect(describeGS1({ gtin: GTIN, lot: "A12", expiry: "2027-03-31", quantity: 30 })).toBe("Lot A12 · Exp 2027-03-31 · ×30");
+        expect(describeGS1({ gtin: GTIN })).toBe("");
+    });
+});
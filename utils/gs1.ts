@@ -0,0 +1,161 @@
+// GS1 application identifier parsing for GS1-128 and GS1 DataMatrix part labels
+
+import { hasValidGtinCheckDigit } from "@/utils/barcode-rules";
+
+const GS = "\x1d"; // FNC1 as decoders return it, separates variable-length fields
+
+// Symbology identifiers some decoders and wedge scanners put in front of GS1 data
+const GS1_PREFIXES = ["]C1", "]d2", "]Q3", "]e0"];
+
+// Application identifiers we read. length is fixed, maxLength means variable (ends at FNC1 or end of data),
+// checkDigit marks numbers ending in a GS1 mod-10 check digit, the same one as on a GTIN
+const AIS: Record<string, { length?: number; maxLength?: number; checkDigit?: boolean }> = {
+    "00": { length: 18, checkDigit: true }, // SSCC
+    "01": { length: 14, checkDigit: true }, // GTIN
+    "02": { length: 14, checkDigit: true }, // GTIN of contained items
+    "10": { maxLength: 20 }, // batch / lot
+    "11": { length: 6 }, // production date
+    "13": { length: 6 }, // packaging date
+    "15": { length: 6 }, // best before
+    "17": { length: 6 }, // expiry
+    "21": { maxLength: 20 }, // serial
+    "30": { maxLength: 8 }, // variable count
+    "37": { maxLength: 8 }, // count of contained items
+    "240": { maxLength: 30 }, // additional product id, suppliers put the part number here
+    "241": { maxLength: 30 }, // customer part number
+    "250": { maxLength: 30 }, // secondary serial
+    "400": { maxLength: 30 }, // customer purchase order
+};
+
+// What we keep from a label on the scanned line
+export interface GS1Fields {
+    gtin?: string;
+    part_number?: string;
+    lot?: string;
+    serial?: string;
+    expiry?: string; // YYYY-MM-DD
+    production_date?: string; // YYYY-MM-DD
+    quantity?: number;
+}
+
+// A scan after parsing: the key the line is counted under and how much to add
+export interface ResolvedScan {
+    barcode: string;
+    quantity: number;
+    gs1?: GS1Fields;
+}
+
+// YYMMDD, where DD 00 means the last day of the month
+function parseDate(value: string): string | undefined {
+    if (!/^\d{6}$/.test(value)) return undefined;
+    const year = 2000 + Number(value.slice(0, 2));
+    const month = Number(value.slice(2, 4));
+    if (month < 1 || month > 12) return undefined;
+    const day = Number(value.slice(4, 6)) || new Date(Date.UTC(year, month, 0)).getUTCDate();
+    return `${year}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
+}
+
+// Splits raw element strings into AI -> value; null when the data is not well-formed GS1
+function splitElements(data: string): Map<string, string> | null {
+    const elements = new Map<string, string>();
+
+    // Human-readable form: (01)09506000134352(10)ABC123
+    if (data.startsWith("(")) {
+        const pattern = /\((\d{2,4})\)([^(]*)/g;
+        let consumed = 0;
+        for (const [match, ai, value] of data.matchAll(pattern)) {
+            if (!AIS[ai] || !value) return null;
+            if (AIS[ai].checkDigit && !hasValidGtinCheckDigit(value.trim())) return null;
+            elements.set(ai, value.trim());
+            consumed += match.length;
+        }
+        return consumed === data.length && elements.size > 0 ? elements : null;
+    }
+
+    let i = 0;
+    while (i < data.length) {
+        if (data[i] === GS) { i++; continue; }
+
+        const ai = [2, 3, 4].map((n) => data.slice(i, i + n)).find((candidate) => AIS[candidate]);
+        if (!ai) return null;
+        i += ai.length;
+
+        const { length, maxLength, checkDigit } = AIS[ai];
+        let value: string;
+        if (length) {
+            value = data.slice(i, i + length);
+            if (value.length !== length) return null;
+            if (checkDigit && !hasValidGtinCheckDigit(value)) return null; // misread, or not GS1 at all
+        } else {
+            const end = data.indexOf(GS, i);
+            value = data.slice(i, end === -1 ? data.length : end);
+            if (!value || value.length > maxLength!) return null;
+        }
+        elements.set(ai, value);
+        i += value.length;
+    }
+
+    return elements.size > 0 ? elements : null;
+}
+
+// Returns the label fields, or null when the scan is a plain barcode
+export function parseGS1(raw: string): GS1Fields | null {
+    let data = raw;
+    let marked = false;
+
+    const prefix = GS1_PREFIXES.find((p) => data.startsWith(p));
+    if (prefix) {
+        data = data.slice(prefix.length);
+        marked = true;
+    }
+    if (data.startsWith(GS) || data.startsWith("(")) marked = true;
+
+    // Unmarked data only counts as GS1 when it opens with a GTIN and carries more fields,
+    // a bare 14-digit code is just a barcode
+    if (!marked && !/^01\d{14}./.test(data)) return null;
+
+    const elements = splitElements(data);
+    if (!elements) return null;
+
+    const gtin = elements.get("01") || elements.get("02");
+    const count = elements.get("30") || elements.get("37");
+    const quantity = count && /^\d+$/.test(count) ? Number(count) : undefined;
+
+    const fields: GS1Fields = {
+        gtin,
+        part_number: elements.get("240") || elements.get("241"),
+        lot: elements.get("10"),
+        serial: elements.get("21"),
+        expiry: parseDate(elements.get("17") || elements.get("15") || ""),
+        production_date: parseDate(elements.get("11") || ""),
+        quantity: quantity && quantity > 0 ? quantity : undefined,
+    };
+    if (!fields.gtin && !fields.part_number) return null; // Nothing to count the line under
+
+    // Drop empty keys so stored lines stay small
+    return Object.fromEntries(Object.entries(fields).filter(([, v]) => v !== undefined)) as GS1Fields;
+}
+
+// Part number first, then the GTIN. A GTIN-14 with a leading zero is the EAN-13 printed on the box,
+// which is what the catalog holds
+export function resolveScan(raw: string): ResolvedScan {
+    const gs1 = parseGS1(raw);
+    if (!gs1) return { barcode: raw, quantity: 1 };
+
+    const gtin = gs1.gtin?.startsWith("0") ? gs1.gtin.slice(1) : gs1.gtin;
+    return {
+        barcode: (gs1.part_number || gtin)!.toUpperCase(),
+        quantity: gs1.quantity ?? 1,
+        gs1,
+    };
+}
+
+// Short summary for the part line, e.g. "Lot A12 · Exp 2027-03-31 · ×30"
+export function describeGS1(gs1: GS1Fields): string {
+    return [
+        gs1.lot && `Lot ${gs1.lot}`,
+        gs1.serial && `S/N ${gs1.serial}`,
+        gs1.expiry && `Exp ${gs1.expiry}`,
+        gs1.quantity && `×${gs1.quantity}`,
+    ].filter(Boolean).join(" · ");
+}
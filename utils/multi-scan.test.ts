@@ -0,0 +1,91 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { createScanDebouncer, getScanSettings } from "./multi-scan";
+
+const COOLDOWN = 2000;
+
+// Feeds the same result for several frames, 100 ms apart from start; returns what each frame counted
+function frames(debouncer: ReturnType<typeof createScanDebouncer>, code: string | null, count: number, start: number) {
+    return Array.from({ length: count }, (_, i) => debouncer.accept(code, start + i * 100));
+}
+
+describe("createScanDebouncer", () => {
+    it("counts a code once while it stays in view", () => {
+        const debouncer = createScanDebouncer(COOLDOWN);
+        expect(frames(debouncer, "A", 10, 0)).toEqual([true, ...Array(9).fill(false)]);
+    });
+
+    it("counts a code that stays in view again once the cooldown runs out", () => {
+        const debouncer = createScanDebouncer(COOLDOWN);
+        expect(debouncer.accept("A", 0)).toBe(true);
+        expect(debouncer.accept("A", COOLDOWN - 1)).toBe(false);
+        expect(debouncer.accept("A", COOLDOWN)).toBe(true);
+    });
+
+    it("keeps a code that drops out for fewer than five frames", () => {
+        const debouncer = createScanDebouncer(COOLDOWN);
+        debouncer.accept("A", 0);
+        frames(debouncer, null, 4, 100);
+        expect(debouncer.accept("A", 500)).toBe(false);
+    });
+
+    it("counts a code again after it missed five frames, within the cooldown", () => {
+        const debouncer = createScanDebouncer(COOLDOWN);
+        debouncer.accept("A", 0);
+        frames(debouncer, null, 5, 100);
+        expect(debouncer.accept("A", 600)).toBe(true);
+    });
+
+    it("starts the missed frames over whenever the code is seen", () => {
+        const debouncer = createScanDebouncer(COOLDOWN);
+        debouncer.accept("A", 0);
+        frames(debouncer, null, 4, 100);
+        debouncer.accept("A", 500);
+        frames(debouncer, null, 4, 600);
+        expect(debouncer.accept("A", 1000)).toBe(false);
+    });
+
+    it("treats frames showing another code as missed", () => {
+        const debouncer = createScanDebouncer(COOLDOWN);
+        debouncer.accept("A", 0);
+        expect(frames(debouncer, "B", 5, 100)).toEqual([true, false, false, false, false]);
+        expect(debouncer.accept("A", 600)).toBe(true);
+    });
+
+    it("keeps a cooldown per code", () => {
+        const debouncer = createScanDebouncer(COOLDOWN);
+        expect(debouncer.accept("A", 0)).toBe(true);
+        expect(debouncer.accept("B", 100)).toBe(true);
+        expect(debouncer.accept("A", 200)).toBe(false);
+        expect(debouncer.accept("B", 300)).toBe(false);
+        expect(debouncer.accept("A", COOLDOWN)).toBe(true);
+        expect(debouncer.accept("B", COOLDOWN + 50)).toBe(false);
+    });
+
+    it("forgets every code on reset", () => {
+        const debouncer = createScanDebouncer(COOLDOWN);
+        debouncer.accept("A", 0);
+        debouncer.reset();
+        expect(debouncer.accept("A", 100)).toBe(true);
+    });
+});
+
+describe("getScanSettings", () => {
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    const stubStorage = (value: string | null) => {
+        vi.stubGlobal("window", {});
+        vi.stubGlobal("localStorage", { getItem: () => value });
+    };
+
+    it("merges saved settings over the defaults", () => {
+        stubStorage(JSON.stringify({ cooldownMs: 5000 }));
+        expect(getScanSettings()).toEqual({ continuous: true, cooldownMs: 5000 });
+    });
+
+    it("falls back to the defaults when the saved copy is corrupt", () => {
+        stubStorage("{not json");
+        expect(getScanSettings()).toEqual({ continuous: true, cooldownMs: 2000 });
+    });
+});
@@ -0,0 +1,84 @@
+// Continuous scanning: per-barcode cooldown, accept/reject feedback and the saved scanner settings
+
+const SETTINGS_KEY = "ro_scanner_scan_settings";
+
+// A code missing from this many processed frames in a row (nothing decoded, or another code) has
+// left the frame. Counted in frames, not time, so a slow device or a stalled worker can't fake a gap.
+const LEAVE_FRAMES = 5;
+
+export const COOLDOWN_OPTIONS = [1000, 2000, 5000, 10000];
+
+export interface ScanSettings {
+    continuous: boolean; // keep the camera running after a scan
+    cooldownMs: number; // how long a code that stays in view waits before it counts again
+}
+
+const DEFAULT_SETTINGS: ScanSettings = { continuous: true, cooldownMs: 2000 };
+
+export function getScanSettings(): ScanSettings {
+    if (typeof window === "undefined") return DEFAULT_SETTINGS;
+    const raw = localStorage.getItem(SETTINGS_KEY);
+    if (!raw) return DEFAULT_SETTINGS;
+    try {
+        return { ...DEFAULT_SETTINGS, ...(JSON.parse(raw) as Partial<ScanSettings>) };
+    } catch {
+        return DEFAULT_SETTINGS; // Corrupt copy, the next save replaces it
+    }
+}
+
+export function saveScanSettings(settings: ScanSettings) {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+}
+
+// Counts a code once while it stays in view; it counts again after it leaves the frame or the cooldown runs out.
+// Feed it every processed frame, with null when the frame decoded nothing.
+export function createScanDebouncer(cooldownMs: number) {
+    const seen = new Map<string, { acceptedAt: number; missedFrames: number }>();
+
+    return {
+        accept(code: string | null, now = Date.now()) {
+            for (const [key, entry] of seen) {
+                if (key !== code && ++entry.missedFrames >= LEAVE_FRAMES) seen.delete(key);
+            }
+            if (code === null) return false;
+
+            const entry = seen.get(code);
+            if (entry && now - entry.acceptedAt < cooldownMs) {
+                entry.missedFrames = 0;
+                return false;
+            }
+            seen.set(code, { acceptedAt: now, missedFrames: 0 });
+            return true;
+        },
+        reset() {
+            seen.clear();
+        },
+    };
+}
+
+let audioContext: AudioContext | null = null;
+
+function beep(frequency: number, durationMs: number) {
+    try {
+        audioContext = audioContext || new AudioContext();
+        const oscillator = audioContext.createOscillator();
+        const gain = audioContext.createGain();
+        oscillator.frequency.value = frequency;
+        gain.gain.value = 0.1;
+        oscillator.connect(gain).connect(audioContext.destination);
+        oscillator.start();
+        oscillator.stop(audioContext.currentTime + durationMs / 1000);
+    } catch {
+        // No audio (e.g. autoplay blocked), vibration still works
+    }
+}
+
+export function scanFeedback(accepted: boolean) {
+    if (accepted) {
+        beep(1800, 80);
+        navigator.vibrate?.(60);
+    } else {
+        beep(300, 250);
+        navigator.vibrate?.([80, 60, 80]);
+    }
+}
@@ -0,0 +1,39 @@
+// Role -> permission rules, shared by the server actions, the UI and the offline IndexedDB path
+
+export type Role = "technician" | "parts_manager" | "admin";
+
+export type Permission =
+    | "scan"
+    | "editQuantity"
+    | "deletePart"
+    | "setExpected"
+    | "finalize"
+    | "amend"
+    | "export"
+    | "viewReports"
+    | "manageCatalog"
+    | "manageUsers"
+    | "manageIntegrations";
+
+export const ROLES: { role: Role; label: string }[] = [
+    { role: "technician", label: "Technician" },
+    { role: "parts_manager", label: "Parts Manager" },
+    { role: "admin", label: "Admin" },
+];
+
+const TECHNICIAN: Permission[] = ["scan", "editQuantity"];
+const PARTS_MANAGER: Permission[] = [...TECHNICIAN, "deletePart", "setExpected", "finalize", "amend", "export", "viewReports"];
+const ADMIN: Permission[] = [...PARTS_MANAGER, "manageCatalog", "manageUsers", "manageIntegrations"];
+
+const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+    technician: TECHNICIAN,
+    parts_manager: PARTS_MANAGER,
+    admin: ADMIN,
+};
+
+// Unknown or missing roles get nothing
+export function can(role: Role | null | undefined, permission: Permission): boolean {
+    return !!role && (ROLE_PERMISSIONS[role]?.includes(permission) ?? false);
+}
+
+export const PERMISSION_DENIED = "You do not have permission to do this";
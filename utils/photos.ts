@@ -0,0 +1,26 @@
+// Photos are downscaled JPEGs: small enough for IndexedDB and a server action upload
+
+const MAX_SIDE = 1280;
+const JPEG_QUALITY = 0.75;
+
+// A still from the live camera view, or a photo picked / taken through a file input
+export async function compressPhoto(source: HTMLVideoElement | Blob): Promise<Blob> {
+    const image = source instanceof Blob ? await createImageBitmap(source) : source;
+    const width = image instanceof HTMLVideoElement ? image.videoWidth : image.width;
+    const height = image instanceof HTMLVideoElement ? image.videoHeight : image.height;
+    const scale = Math.min(1, MAX_SIDE / Math.max(width, height));
+
+    const canvas = document.createElement("canvas");
+    canvas.width = Math.round(width * scale);
+    canvas.height = Math.round(height * scale);
+    canvas.getContext("2d")!.drawImage(image, 0, 0, canvas.width, canvas.height);
+    if (image instanceof ImageBitmap) image.close();
+
+    return new Promise((resolve, reject) => {
+        canvas.toBlob(
+            (blob) => (blob ? resolve(blob) : reject(new Error("Could not encode photo"))),
+            "image/jpeg",
+            JPEG_QUALITY
+        );
+    });
+}
@@ -0,0 +1,81 @@
+import { describe, expect, it } from "vitest";
+import { reconcile, sameReconciliation } from "./reconcile";
+
+const expected = [
+    { barcode_value: "A", expected_quantity: 2 },
+    { barcode_value: "B", expected_quantity: 1 },
+];
+
+describe("reconcile", () => {
+    it("has no discrepancies when every expected part is scanned exactly", () => {
+        const result = reconcile(expected, [
+            { barcode_value: "A", quantity: 2 },
+            { barcode_value: "B", quantity: 1 },
+        ]);
+        expect(result.lines.map((l) => l.status)).toEqual(["complete", "complete"]);
+        expect(result.unexpected).toEqual([]);
+        expect(result.hasDiscrepancies).toBe(false);
+    });
+
+    it("marks missing, short and over-scanned lines", () => {
+        const result = reconcile(
+            [...expected, { barcode_value: "C", expected_quantity: 3 }],
+            [
+                { barcode_value: "A", quantity: 1 },
+                { barcode_value: "B", quantity: 4 },
+            ]
+        );
+        expect(result.lines).toEqual([
+            { barcode_value: "A", expected_quantity: 2, scanned_quantity: 1, status: "partial" },
+            { barcode_value: "B", expected_quantity: 1, scanned_quantity: 4, status: "over" },
+            { barcode_value: "C", expected_quantity: 3, scanned_quantity: 0, status: "missing" },
+        ]);
+        expect(result.hasDiscrepancies).toBe(true);
+    });
+
+    it("lists scanned parts that were not expected", () => {
+        const result = reconcile(expected, [
+            { barcode_value: "A", quantity: 2 },
+            { barcode_value: "B", quantity: 1 },
+            { barcode_value: "X", quantity: 5 },
+        ]);
+        expect(result.unexpected).toEqual([{ barcode_value: "X", quantity: 5 }]);
+        expect(result.hasDiscrepancies).toBe(true);
+    });
+
+    it("sums scans of the same barcode", () => {
+        const result = reconcile(expected, [
+            { barcode_value: "A", quantity: 1 },
+            { barcode_value: "A", quantity: 1 },
+            { barcode_value: "B", quantity: 1 },
+        ]);
+        expect(result.lines[0].scanned_quantity).toBe(2);
+        expect(result.hasDiscrepancies).toBe(false);
+    });
+
+    it("never finds a discrepancy without an expected list", () => {
+        const scanned = [{ barcode_value: "X", quantity: 5 }];
+        expect(reconcile([], scanned)).toEqual({ lines: [], unexpected: [], hasDiscrepancies: false });
+        expect(reconcile(undefined, scanned).hasDiscrepancies).toBe(false);
+    });
+});
+
+describe("sameReconciliation", () => {
+    const scanned = [
+        { barcode_value: "A", quantity: 1 },
+        { barcode_value: "X", quantity: 2 },
+        { barcode_value: "Y", quantity: 1 },
+    ];
+
+    it("ignores the order of lines and extras", () => {
+        const reordered = reconcile([...expected].reverse(), [...scanned].reverse());
+        expect(sameReconciliation(reconcile(expected, scanned), reordered)).toBe(true);
+    });
+
+    it("notices changed quantities and new extras", () => {
+        const base = reconcile(expected, scanned);
+        expect(sameReconciliation(base, reconcile(expected, [...scanned, { barcode_value: "A", quantity: 1 }]))).toBe(false);
+        expect(sameReconciliation(base, reconcile(expected, [...scanned, { barcode_value: "Z", quantity: 1 }]))).toBe(false);
+        expect(sameReconciliation(base, reconcile([{ barcode_value: "A", expected_quantity: 1 }], scanned))).toBe(false);
+    });
+});
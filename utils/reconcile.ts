@@ -0,0 +1,77 @@
+// Compare an RO's expected bill of materials against what was actually scanned
+
+export interface ExpectedPart {
+    barcode_value: string;
+    expected_quantity: number;
+}
+
+export type LineStatus = "missing" | "partial" | "complete" | "over";
+
+export interface ReconciledLine {
+    barcode_value: string;
+    expected_quantity: number;
+    scanned_quantity: number;
+    status: LineStatus;
+}
+
+export interface Reconciliation {
+    lines: ReconciledLine[];
+    unexpected: { barcode_value: string; quantity: number }[];
+    hasDiscrepancies: boolean;
+}
+
+function lineStatus(expected: number, scanned: number): LineStatus {
+    if (scanned === 0) return "missing";
+    if (scanned < expected) return "partial";
+    if (scanned === expected) return "complete";
+    return "over";
+}
+
+// Without an expected list there is nothing to reconcile and never a discrepancy
+export function reconcile(
+    expected: ExpectedPart[] = [],
+    scanned: { barcode_value: string; quantity: number }[]
+): Reconciliation {
+    const scannedTotals = new Map<string, number>();
+    scanned.forEach((p) => scannedTotals.set(p.barcode_value, (scannedTotals.get(p.barcode_value) || 0) + p.quantity));
+
+    const lines = expected.map((e) => {
+        const scannedQuantity = scannedTotals.get(e.barcode_value) || 0;
+        return {
+            barcode_value: e.barcode_value,
+            expected_quantity: e.expected_quantity,
+            scanned_quantity: scannedQuantity,
+            status: lineStatus(e.expected_quantity, scannedQuantity),
+        };
+    });
+
+    const expectedBarcodes = new Set(expected.map((e) => e.barcode_value));
+    const unexpected = expected.length === 0
+        ? []
+        : [...scannedTotals]
+            .filter(([barcode]) => !expectedBarcodes.has(barcode))
+            .map(([barcode_value, quantity]) => ({ barcode_value, quantity }));
+
+    return {
+        lines,
+        unexpected,
+        hasDiscrepancies: unexpected.length > 0 || lines.some((l) => l.status !== "complete"),
+    };
+}
+
+// A finalize replayed from a device whose reconciliation no longer matches the server's
+export const RECONCILIATION_CHANGED = "The RO changed on the server since it was finalized on this device. Review it and finalize again.";
+
+// Whether two reconciliations show the same lines and extras, in any order; used to check that the
+// server still holds what a device reconciled when it finalized offline
+export function sameReconciliation(a: Reconciliation, b: Reconciliation): boolean {
+    const key = (r: Reconciliation) => JSON.stringify({
+        lines: [...r.lines]
+            .sort((x, y) => x.barcode_value.localeCompare(y.barcode_value))
+            .map((l) => [l.barcode_value, l.expected_quantity, l.scanned_quantity]),
+        unexpected: [...r.unexpected]
+            .sort((x, y) => x.barcode_value.localeCompare(y.barcode_value))
+            .map((u) => [u.barcode_value, u.quantity]),
+    });
+    return key(a) === key(b);
+}
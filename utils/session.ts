@@ -0,0 +1,34 @@
+// Signed-in user cached on the device, so offline writes to IndexedDB can still be attributed
+// and checked against the same role rules as the server
+
+import { Role } from "@/utils/permissions";
+
+export interface SessionUser {
+    id: string;
+    email: string;
+    full_name?: string;
+    role: Role;
+}
+
+const USER_KEY = "ro_scanner_user";
+
+export function displayName(user?: { email?: string; full_name?: string | null } | null) {
+    return user?.full_name || user?.email || "";
+}
+
+export function getCachedUser(): SessionUser | null {
+    if (typeof window === "undefined") return null;
+    const raw = localStorage.getItem(USER_KEY);
+    if (!raw) return null;
+    try {
+        return JSON.parse(raw) as SessionUser;
+    } catch {
+        localStorage.removeItem(USER_KEY); // Corrupt copy, the next sign-in check caches it again
+        return null;
+    }
+}
+
+export function setCachedUser(user: SessionUser | null) {
+    if (user) localStorage.setItem(USER_KEY, JSON.stringify(user));
+    else localStorage.removeItem(USER_KEY);
+}
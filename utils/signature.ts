@@ -0,0 +1,134 @@
+// HMAC signatures for outbound JSON posts. The receiver recomputes the HMAC over "timestamp.body"
+// with the shared secret and rejects old timestamps, so a captured request can't be replayed later.
+
+import { createHmac, timingSafeEqual } from "crypto";
+import { lookup } from "dns";
+import { BlockList, isIP, LookupFunction } from "net";
+import { Agent, fetch } from "undici";
+
+export const SIGNATURE_HEADER = "X-Signature";
+export const TIMESTAMP_HEADER = "X-Signature-Timestamp";
+
+const MAX_AGE_SECONDS = 5 * 60;
+
+export function signPayload(secret: string, body: string, timestamp: number): string {
+    return `sha256=${createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex")}`;
+}
+
+// Headers to send with body, signed now
+export function signatureHeaders(secret: string, body: string): Record<string, string> {
+    const timestamp = Math.floor(Date.now() / 1000);
+    return {
+        [SIGNATURE_HEADER]: signPayload(secret, body, timestamp),
+        [TIMESTAMP_HEADER]: String(timestamp),
+    };
+}
+
+export function verifySignature(secret: string, body: string, signature: string | null, timestamp: string | null): boolean {
+    if (!signature || !timestamp || !/^\d+$/.test(timestamp)) return false;
+    if (Math.abs(Date.now() / 1000 - Number(timestamp)) > MAX_AGE_SECONDS) return false;
+
+    const expected = Buffer.from(signPayload(secret, body, Number(timestamp)));
+    const given = Buffer.from(signature);
+    return expected.length === given.length && timingSafeEqual(expected, given);
+}
+
+export interface PostResult {
+    ok: boolean;
+    status?: number; // HTTP status when there was a response
+    error?: string;
+}
+
+const REQUEST_TIMEOUT_MS = 10_000;
+
+// Loopback, private, link-local and other non-public ranges. IPv4-mapped IPv6 addresses are checked
+// against the IPv4 rules by BlockList itself.
+const BLOCKED_ADDRESSES = new BlockList();
+([
+    ["0.0.0.0", 8],
+    ["10.0.0.0", 8],
+    ["100.64.0.0", 10],
+    ["127.0.0.0", 8],
+    ["169.254.0.0", 16],
+    ["172.16.0.0", 12],
+    ["192.0.0.0", 24],
+    ["192.168.0.0", 16],
+    ["198.18.0.0", 15],
+    ["224.0.0.0", 3], // multicast and reserved, up to 255.255.255.255
+] as const).forEach(([net, prefix]) => BLOCKED_ADDRESSES.addSubnet(net, prefix, "ipv4"));
+([
+    ["::", 128],
+    ["::1", 128],
+    ["64:ff9b::", 96], // NAT64, reaches IPv4 addresses
+    ["fc00::", 7],
+    ["fe80::", 10],
+    ["ff00::", 8],
+] as const).forEach(([net, prefix]) => BLOCKED_ADDRESSES.addSubnet(net, prefix, "ipv6"));
+
+export interface PostOptions {
+    allowPrivate?: boolean; // only for operator-configured URLs, e.g. a DMS on the shop network
+}
+
+const BLOCKED_TARGET = "Target resolves to a private or local address";
+
+function isBlocked(address: string, family: number) {
+    return BLOCKED_ADDRESSES.check(address, family === 6 ? "ipv6" : "ipv4");
+}
+
+// Resolves like the default lookup but fails when any address is blocked. It runs for the connection
+// itself, so a host can't pass a separate check and then resolve to an internal address.
+const publicLookup: LookupFunction = (hostname, options, callback) => {
+    lookup(hostname, options, (err, address, family) => {
+        if (err) return callback(err, address, family);
+        const addresses = typeof address === "string" ? [{ address, family }] : address;
+        if (addresses.some((a) => isBlocked(a.address, a.family))) return callback(new Error(BLOCKED_TARGET), address, family);
+        callback(null, address, family);
+    });
+};
+
+const publicAgent = new Agent({ connect: { lookup: publicLookup } });
+
+// Why the URL may not be posted to, or null. Host names are checked when connecting, see publicLookup;
+// IP literals never go through a lookup, so they are checked here.
+function blockedTarget(url: URL): string | null {
+    if (url.protocol !== "https:" && url.protocol !== "http:") return "Only http and https URLs are allowed";
+
+    const host = url.hostname.replace(/^\[|\]$/g, "");
+    const family = isIP(host);
+    return family !== 0 && isBlocked(host, family) ? BLOCKED_TARGET : null;
+}
+
+// POSTs a JSON body with signature headers; 2xx is ok, anything else comes back as an error, never thrown.
+// Redirects are not followed and response bodies are never read, so a receiver can't bounce the request
+// to an internal address or get its content stored.
+export async function postSigned(
+    url: string,
+    secret: string,
+    body: string,
+    headers: Record<string, string> = {},
+    options: PostOptions = {}
+): Promise<PostResult> {
+    try {
+        if (!options.allowPrivate) {
+            const reason = blockedTarget(new URL(url));
+            if (reason) return { ok: false, error: reason };
+        }
+
+        const res = await fetch(url, {
+            method: "POST",
+            headers: { "Content-Type": "application/json", ...headers, ...signatureHeaders(secret, body) },
+            body,
+            redirect: "manual",
+            signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+            dispatcher: options.allowPrivate ? undefined : publicAgent,
+        });
+        await res.body?.cancel();
+        if (res.ok) return { ok: true, status: res.status };
+        return { ok: false, status: res.status, error: `HTTP ${res.status}` };
+    } catch (err) {
+        // fetch wraps connection errors, including the one from publicLookup
+        const cause = (err as Error).cause;
+        if (cause instanceof Error && cause.message === BLOCKED_TARGET) return { ok: false, error: BLOCKED_TARGET };
+        return { ok: false, error: (err as Error).message };
+    }
+}
@@ -1,5 +1,6 @@
 import { createServerClient } from "@supabase/ssr";
 import { cookies } from "next/headers";
+import { Role } from "@/utils/permissions";
 
 export async function createClient() {
     const cookieStore = await cookies();
@@ -46,3 +47,22 @@ export async function createServiceClient() {
         }
     );
 }
+
+// The signed-in user from the auth cookie, or null. Server actions use the service client
+// for data access, so this is what keeps them from being callable anonymously.
+export async function getSessionUser() {
+    const supabase = await createClient();
+    const { data: { user } } = await supabase.auth.getUser();
+    return user;
+}
+
+export async function getUserRole(userId: string): Promise<Role | null> {
+    const supabase = await createServiceClient();
+    const { data } = await supabase
+        .from("profiles")
+        .select("role")
+        .eq("id", userId)
+        .single();
+
+    return (data?.role as Role) ?? null;
+}
@@ -0,0 +1,495 @@
+// Background sync: replays the IndexedDB outbox against the server actions
+
+import {
+    createRO as createRemoteRO,
+    getRO as getRemoteRO,
+    getScannedParts as getRemoteParts,
+    getExpectedParts as getRemoteExpectedParts,
+    setExpectedParts as setRemoteExpectedParts,
+    scanPart as scanRemotePart,
+    undoScan as undoRemoteScan,
+    setPartTotal as setRemotePartTotal,
+    deletePartLine as deleteRemotePartLine,
+    finalizeRO as finalizeRemoteRO,
+    amendRO as amendRemoteRO,
+    recordEvents as recordRemoteEvents,
+    getEvents as getRemoteEvents,
+} from "@/actions/ro-actions";
+import { getCatalog } from "@/actions/catalog-actions";
+import { getPhotos as getRemotePhotos, uploadPhoto as uploadRemotePhoto } from "@/actions/photo-actions";
+import { getScannerRules } from "@/actions/scanner-actions";
+import {
+    OUTBOX_EVENT,
+    OutboxEntry,
+    getOutbox,
+    updateOutboxEntry,
+    removeOutboxEntries,
+    parkOutboxEntry,
+    setROSyncStatus,
+    markROSynced,
+    saveRemoteRO,
+    applyRemoteParts,
+    addConflict,
+    saveCatalogEntries,
+    removeCatalogEntries,
+    getUnsyncedEvents,
+    saveSyncedEvents,
+    getUnsyncedPhotos,
+    saveSyncedPhotos,
+} from "@/utils/db";
+import { getDeviceId } from "@/utils/device";
+import { displayName } from "@/utils/session";
+import { setBarcodeRules } from "@/utils/barcode-rules";
+import { PERMISSION_DENIED } from "@/utils/permissions";
+import { RECONCILIATION_CHANGED } from "@/utils/reconcile";
+import { GS1Fields } from "@/utils/gs1";
+
+const BASE_RETRY_MS = 2000;
+const MAX_RETRY_MS = 5 * 60 * 1000;
+const POLL_INTERVAL_MS = 15000;
+const CATALOG_SYNCED_KEY = "ro_scanner_catalog_synced_at";
+const CATALOG_DELETIONS_SYNCED_KEY = "ro_scanner_catalog_deletions_synced_at";
+
+type Listener = () => void;
+
+const listeners = new Set<Listener>();
+const watchedROs = new Map<string, number>(); // ro_number -> open views
+let isSyncing = false;
+let syncRequested = false; // asked for during a pass, e.g. by a mutation queued meanwhile
+
+// Exponential backoff: 2s, 4s, 8s ... capped at 5 minutes
+export function getRetryDelay(attempts: number) {
+    return Math.min(BASE_RETRY_MS * 2 ** Math.max(attempts - 1, 0), MAX_RETRY_MS);
+}
+
+export function subscribeSync(listener: Listener) {
+    listeners.add(listener);
+    return () => {
+        listeners.delete(listener);
+    };
+}
+
+function notify() {
+    listeners.forEach((listener) => listener());
+}
+
+// ROs open on screen are pulled from the server on every pass, even without local changes
+export function watchRO(roNumber: string) {
+    watchedROs.set(roNumber, (watchedROs.get(roNumber) || 0) + 1);
+    syncNow();
+    return () => {
+        const count = (watchedROs.get(roNumber) || 1) - 1;
+        if (count > 0) watchedROs.set(roNumber, count);
+        else watchedROs.delete(roNumber);
+    };
+}
+
+// Server ids are UUIDs, locally the RO number is the key
+async function resolveServerRO(roNumber: string, cache: Map<string, string>) {
+    const cached = cache.get(roNumber);
+    if (cached) return cached;
+
+    const res = await getRemoteRO(roNumber);
+    if (!res.data) throw new Error(res.error || "RO not found on server");
+
+    cache.set(roNumber, res.data.id);
+    return res.data.id;
+}
+
+// Sum the per-device rows into one line per barcode and store them locally
+async function pullRO(roNumber: string) {
+    const roRes = await getRemoteRO(roNumber);
+    if (!roRes.data) return; // Not on the server yet
+
+    const [partsRes, expectedRes] = await Promise.all([
+        getRemoteParts(roRes.data.id),
+        getRemoteExpectedParts(roRes.data.id),
+    ]);
+    if (!partsRes.data || !expectedRes.data) return;
+
+    const totals = new Map<string, number>();
+    const scanners = new Map<string, Set<string>>();
+    const labels = new Map<string, GS1Fields>(); // rows come newest first, so the first label seen wins
+    partsRes.data.forEach((p) => {
+        totals.set(p.barcode_value, (totals.get(p.barcode_value) || 0) + p.quantity);
+        const name = displayName(p.scanned_by_profile);
+        if (name) scanners.set(p.barcode_value, (scanners.get(p.barcode_value) || new Set()).add(name));
+        if (p.gs1 && !labels.has(p.barcode_value)) labels.set(p.barcode_value, p.gs1);
+    });
+
+    const merged = [...totals]
+        .filter(([, quantity]) => quantity > 0)
+        .map(([barcode_value, quantity]) => ({
+            barcode_value,
+            quantity,
+            scanned_by: [...(scanners.get(barcode_value) || [])].join(", ") || undefined,
+            gs1: labels.get(barcode_value),
+        }));
+
+    await applyRemoteParts(roNumber, merged, {
+        status: roRes.data.status,
+        finalized_at: roRes.data.finalized_at,
+        amend_reason: roRes.data.amend_reason,
+        expected_parts: expectedRes.data,
+        created_by: displayName(roRes.data.created_by_profile) || undefined,
+        finalized_by: displayName(roRes.data.finalized_by_profile) || undefined,
+    });
+
+    // Audit events from every device, for the timeline
+    const eventsRes = await getRemoteEvents(roRes.data.id);
+    if (!eventsRes.data) return;
+
+    await saveSyncedEvents(eventsRes.data.map((e) => ({
+        id: e.id,
+        ro_number: roNumber,
+        event_type: e.event_type,
+        barcode_value: e.barcode_value,
+        before: e.before ?? undefined,
+        after: e.after ?? undefined,
+        reason: e.reason,
+        user_name: displayName(e.user) || undefined,
+        device_id: e.device_id,
+        created_at: e.occurred_at,
+    })));
+
+    const photosRes = await getRemotePhotos(roRes.data.id);
+    if (!photosRes.data) return;
+
+    await saveSyncedPhotos(photosRes.data.map((p) => ({
+        id: p.id,
+        ro_number: roNumber,
+        barcode_value: p.barcode_value ?? undefined,
+        url: p.url,
+        taken_by: displayName(p.taken_by_profile) || undefined,
+        created_at: p.taken_at,
+    })));
+}
+
+// Upload this device's audit events once the changes they describe are on the server
+async function pushEvents(roNumber: string, roIds: Map<string, string>) {
+    const events = await getUnsyncedEvents(roNumber);
+    if (events.length === 0) return;
+
+    const roId = await resolveServerRO(roNumber, roIds);
+    const res = await recordRemoteEvents(roId, events.map((e) => ({
+        id: e.id,
+        event_type: e.event_type,
+        barcode_value: e.barcode_value,
+        before: e.before,
+        after: e.after,
+        reason: e.reason,
+        device_id: e.device_id,
+        occurred_at: e.created_at,
+    })));
+    if (res.error) throw new Error(res.error);
+
+    await saveSyncedEvents(events);
+}
+
+// Upload photos one at a time; skips ROs whose creation is still queued
+async function pushPhotos(roIds: Map<string, string>, blocked: Set<string>) {
+    const photos = await getUnsyncedPhotos();
+
+    for (const photo of photos) {
+        if (blocked.has(photo.ro_number)) continue;
+        try {
+            const form = new FormData();
+            form.append("id", photo.id);
+            form.append("ro_id", await resolveServerRO(photo.ro_number, roIds));
+            if (photo.barcode_value) form.append("barcode_value", photo.barcode_value);
+            form.append("device_id", getDeviceId());
+            form.append("taken_at", photo.created_at);
+            form.append("file", photo.blob!, `${photo.id}.jpg`);
+
+            const res = await uploadRemotePhoto(form);
+            if (res.error) throw new Error(res.error);
+            await saveSyncedPhotos([photo]);
+        } catch {
+            // Offline or server error: try again next pass
+        }
+    }
+}
+
+// Refusals a retry can't fix. A mutation failing with one of these is parked for the user instead
+// of blocking its RO's queue; anything else (offline, timeouts, "Not signed in") is retried.
+const PERMANENT_ERRORS = new Set([
+    PERMISSION_DENIED,
+    RECONCILIATION_CHANGED,
+    "RO not found",
+    "RO is already finalized",
+    "RO is not finalized",
+    "Part not found",
+    "Quantity must be at least 1",
+    "Cannot finalize empty RO",
+    "An amend reason is required",
+    "Scanned parts do not match the expected list. An override reason is required.",
+    "Every expected part needs a barcode and a quantity of at least 1",
+]);
+
+// Consecutive scans of the same barcode and label are sent as one increment. A scan that was sent
+// before is retried as it was, newer scans go in the next batch.
+function takeScanBatch(entries: OutboxEntry[], start: number, now: number) {
+    const first = entries[start];
+    const batch = [first];
+    if (first.attempts > 0) return batch;
+
+    for (let i = start + 1; i < entries.length; i++) {
+        const next = entries[i];
+        if (next.operation !== "scanPart" || next.payload.barcode_value !== first.payload.barcode_value) break;
+        if (next.attempts > 0) break;
+        if (JSON.stringify(next.payload.gs1) !== JSON.stringify(first.payload.gs1)) break;
+        if (new Date(next.next_attempt_at).getTime() > now) break;
+        batch.push(next);
+    }
+
+    return batch;
+}
+
+async function replay(entry: OutboxEntry, roIds: Map<string, string>, quantity: number) {
+    const { ro_number, payload } = entry;
+
+    switch (entry.operation) {
+        case "createRO": {
+            const res = await createRemoteRO(ro_number);
+            // A retry after a lost response lands here, the RO is already there
+            if (res.error && res.error !== "RO Number already exists") throw new Error(res.error);
+            return;
+        }
+        case "scanPart": {
+            const roId = await resolveServerRO(ro_number, roIds);
+            const res = await scanRemotePart(roId, payload.barcode_value!, getDeviceId(), quantity, payload.gs1, entry.mutation_id);
+            if (res.error) throw new Error(res.error);
+            return;
+        }
+        case "undoScan": {
+            const roId = await resolveServerRO(ro_number, roIds);
+            const res = await undoRemoteScan(roId, payload.barcode_value!, getDeviceId(), payload.quantity);
+            if (res.error) throw new Error(res.error);
+            return;
+        }
+        case "updatePartQuantity": {
+            const roId = await resolveServerRO(ro_number, roIds);
+            const res = await setRemotePartTotal(
+                roId,
+                payload.barcode_value!,
+                getDeviceId(),
+                payload.quantity!,
+                payload.base_quantity ?? payload.quantity!
+            );
+            if (res.error) throw new Error(res.error);
+
+            // Someone else changed the line meanwhile, park it for the user instead of overwriting
+            if (res.conflict) {
+                await addConflict({
+                    ro_number,
+                    barcode_value: payload.barcode_value!,
+                    local_quantity: payload.quantity!,
+                    remote_quantity: res.remoteQuantity!,
+                    base_quantity: payload.base_quantity ?? payload.quantity!,
+                });
+            }
+            return;
+        }
+        case "deletePart": {
+            const roId = await resolveServerRO(ro_number, roIds);
+            const res = await deleteRemotePartLine(roId, payload.barcode_value!);
+            if (res.error) throw new Error(res.error);
+            return;
+        }
+        case "finalizeRO": {
+            const roId = await resolveServerRO(ro_number, roIds);
+            const res = await finalizeRemoteRO(roId, ro_number, payload.override_reason, payload.reconciliation);
+            if (res.error && res.error !== "RO is already finalized") throw new Error(res.error);
+            return;
+        }
+        case "amendRO": {
+            const roId = await resolveServerRO(ro_number, roIds);
+            const res = await amendRemoteRO(roId, payload.amend_reason!);
+            if (res.error && res.error !== "RO is not finalized") throw new Error(res.error);
+            return;
+        }
+        case "setExpectedParts": {
+            const roId = await resolveServerRO(ro_number, roIds);
+            const res = await setRemoteExpectedParts(roId, payload.expected_parts || []);
+            if (res.error) throw new Error(res.error);
+            return;
+        }
+    }
+}
+
+// Brings an RO started on another device onto this one, with its parts, events and photos.
+// Resolves false when the server doesn't have it.
+export async function joinRemoteRO(roNumber: string): Promise<boolean> {
+    const res = await getRemoteRO(roNumber);
+    if (!res.data) return false;
+
+    await saveRemoteRO({
+        id: res.data.ro_number,
+        ro_number: res.data.ro_number,
+        status: res.data.status,
+        created_at: res.data.created_at,
+        finalized_at: res.data.finalized_at,
+        sync_status: "synced",
+    });
+    await pullRO(res.data.ro_number);
+    return true;
+}
+
+export async function syncNow() {
+    if (isSyncing) {
+        syncRequested = true;
+        return;
+    }
+    if (typeof navigator !== "undefined" && !navigator.onLine) return;
+
+    isSyncing = true;
+    syncRequested = false;
+    try {
+        const outbox = await getOutbox();
+
+        // Keep per-RO order: an entry that failed and will be retried blocks everything queued after it for that RO
+        const byRO = new Map<string, OutboxEntry[]>();
+        outbox.forEach((entry) => {
+            byRO.set(entry.ro_number, [...(byRO.get(entry.ro_number) || []), entry]);
+        });
+
+        const roIds = new Map<string, string>();
+        const blocked = new Set<string>(); // ROs with mutations still in the outbox
+        const now = Date.now();
+
+        for (const [roNumber, entries] of byRO) {
+            let drained = true;
+
+            for (let i = 0; i < entries.length;) {
+                const entry = entries[i];
+                if (new Date(entry.next_attempt_at).getTime() > now) {
+                    drained = false;
+                    break;
+                }
+
+                const batch = entry.operation === "scanPart" ? takeScanBatch(entries, i, now) : [entry];
+                const quantity = batch.reduce((sum, e) => sum + (e.payload.quantity ?? 1), 0);
+
+                try {
+                    await replay(entry, roIds, quantity);
+                    await removeOutboxEntries(batch.map((done) => done.id!));
+                    i += batch.length;
+                } catch (err) {
+                    const lastError = err instanceof Error ? err.message : String(err);
+                    const payload = batch.length > 1 ? { ...entry.payload, quantity } : entry.payload;
+                    const mergedIds = batch.slice(1).map((merged) => merged.id!);
+
+                    if (PERMANENT_ERRORS.has(lastError)) {
+                        await parkOutboxEntry({ ...entry, payload, last_error: lastError }, mergedIds, lastError);
+                        i += batch.length;
+                        continue;
+                    }
+
+                    const attempts = entry.attempts + 1;
+                    const nextAttempt = new Date(now + getRetryDelay(attempts)).toISOString();
+                    // The server may have applied it before the response got lost: the retry has to send
+                    // the same mutation id with the same quantity, so the batch becomes its first entry
+                    await updateOutboxEntry(
+                        { ...entry, payload, attempts, next_attempt_at: nextAttempt, last_error: lastError },
+                        mergedIds
+                    );
+                    await setROSyncStatus(roNumber, "failed");
+                    drained = false;
+                    break;
+                }
+            }
+
+            // Entries queued during the pass keep the RO pending, the next pass sends them
+            if (!drained || !(await markROSynced(roNumber))) blocked.add(roNumber);
+        }
+
+        await pushPhotos(roIds, blocked);
+
+        // Bring in what other devices did on drained or open ROs
+        const toPull = new Set([...byRO.keys(), ...watchedROs.keys()]);
+        for (const roNumber of toPull) {
+            try {
+                if (!blocked.has(roNumber)) await pushEvents(roNumber, roIds);
+                await pullRO(roNumber);
+            } catch {
+                // Offline or server error: try again next pass
+            }
+        }
+    } catch (err) {
+        console.error("Sync failed", err);
+    } finally {
+        isSyncing = false;
+        notify();
+    }
+
+    if (syncRequested) syncNow();
+}
+
+// Pull catalog changes and deletions since the last pull into IndexedDB
+export async function syncCatalog() {
+    if (typeof navigator !== "undefined" && !navigator.onLine) return;
+
+    try {
+        const since = localStorage.getItem(CATALOG_SYNCED_KEY) || undefined;
+        // Until a first tombstone comes in, deletions are looked up from the last catalog pull
+        const deletedSince = localStorage.getItem(CATALOG_DELETIONS_SYNCED_KEY) || since;
+        const res = await getCatalog(since, deletedSince);
+        if (!res.data) return;
+
+        // Deletions first, a part deleted and added again comes back with the changes
+        if (res.deleted.length > 0) {
+            const removed = await removeCatalogEntries(res.deleted);
+            if (!removed.success) return;
+            localStorage.setItem(CATALOG_DELETIONS_SYNCED_KEY, res.deleted[res.deleted.length - 1].deleted_at);
+        }
+
+        if (res.data.length > 0) {
+            const saved = await saveCatalogEntries(res.data);
+            if (!saved.success) return;
+            localStorage.setItem(CATALOG_SYNCED_KEY, res.data[res.data.length - 1].updated_at);
+        }
+
+        if (res.deleted.length > 0 || res.data.length > 0) notify();
+    } catch (err) {
+        console.error("Catalog sync failed", err);
+    }
+}
+
+// Keep the device copy of the barcode rules current, scans are checked against it offline
+export async function syncBarcodeRules() {
+    if (typeof navigator !== "undefined" && !navigator.onLine) return;
+
+    try {
+        const res = await getScannerRules();
+        if (res.data) setBarcodeRules(res.data);
+    } catch (err) {
+        console.error("Barcode rules sync failed", err);
+    }
+}
+
+// Starts the engine, returns a cleanup function for useEffect
+export function startSyncEngine() {
+    const trigger = () => {
+        notify(); // Let lists pick up the "pending" state right away
+        syncNow();
+    };
+    const onOnline = () => {
+        trigger();
+        syncCatalog();
+        syncBarcodeRules();
+    };
+
+    window.addEventListener("online", onOnline);
+    window.addEventListener(OUTBOX_EVENT, trigger);
+    const interval = window.setInterval(syncNow, POLL_INTERVAL_MS);
+
+    syncNow();
+    syncCatalog();
+    syncBarcodeRules();
+
+    return () => {
+        window.removeEventListener("online", onOnline);
+        window.removeEventListener(OUTBOX_EVENT, trigger);
+        window.clearInterval(interval);
+    };
+}
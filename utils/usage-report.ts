@@ -0,0 +1,118 @@
+// Parts usage across finalized ROs: totals per part and per week from the latest snapshot lines
+
+import type { CatalogEntry } from "@/actions/catalog-actions";
+
+// One line of the latest final snapshot of an RO
+export interface FinalPartLine {
+    ro_id: string;
+    finalized_at: string;
+    barcode_value: string;
+    quantity: number;
+}
+
+export interface PartUsage {
+    key: string; // part number when the catalog knows the barcode, otherwise the barcode
+    part_number?: string;
+    description?: string;
+    brand?: string;
+    unit_cost?: number;
+    barcodes: string[]; // scanned barcodes that resolved to this part
+    quantity: number;
+    ro_count: number;
+    avg_per_ro: number;
+    by_week: Record<string, number>; // week start -> quantity
+}
+
+export interface WeekUsage {
+    week: string; // Monday, YYYY-MM-DD (UTC)
+    quantity: number;
+    ro_count: number;
+}
+
+export interface UsageReport {
+    from: string;
+    to: string;
+    parts: PartUsage[]; // most used first
+    weeks: WeekUsage[]; // oldest first, weeks without finals included
+    total_quantity: number;
+    ro_count: number;
+}
+
+// Monday of the week, so weeks line up with the shop calendar
+export function weekStart(date: Date): string {
+    const d = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+    d.setUTCDate(d.getUTCDate() - ((d.getUTCDay() + 6) % 7));
+    return d.toISOString().slice(0, 10);
+}
+
+function weeksBetween(from: string, to: string): string[] {
+    const weeks: string[] = [];
+    const end = weekStart(new Date(`${to}T00:00:00Z`));
+    for (let week = weekStart(new Date(`${from}T00:00:00Z`)); week <= end;) {
+        weeks.push(week);
+        const next = new Date(`${week}T00:00:00Z`);
+        next.setUTCDate(next.getUTCDate() + 7);
+        week = next.toISOString().slice(0, 10);
+    }
+    return weeks;
+}
+
+// from / to are the inclusive YYYY-MM-DD range the lines were fetched for
+export function buildUsageReport(lines: FinalPartLine[], catalog: CatalogEntry[], from: string, to: string): UsageReport {
+    const byBarcode = new Map<string, CatalogEntry>();
+    catalog.forEach((c) => [c.barcode, ...(c.alt_barcodes || [])].forEach((b) => byBarcode.set(b, c)));
+
+    const parts = new Map<string, PartUsage & { ros: Set<string> }>();
+    const weeks = new Map(weeksBetween(from, to).map((w) => [w, { quantity: 0, ros: new Set<string>() }]));
+    const ros = new Set<string>();
+
+    lines.forEach((line) => {
+        const item = byBarcode.get(line.barcode_value);
+        const key = item?.part_number ?? line.barcode_value;
+        const week = weekStart(new Date(line.finalized_at));
+
+        let part = parts.get(key);
+        if (!part) {
+            part = {
+                key,
+                part_number: item?.part_number,
+                description: item?.description,
+                brand: item?.brand,
+                unit_cost: item?.unit_cost,
+                barcodes: [],
+                quantity: 0,
+                ro_count: 0,
+                avg_per_ro: 0,
+                by_week: {},
+                ros: new Set(),
+            };
+            parts.set(key, part);
+        }
+        if (!part.barcodes.includes(line.barcode_value)) part.barcodes.push(line.barcode_value);
+        part.quantity += line.quantity;
+        part.ros.add(line.ro_id);
+        part.by_week[week] = (part.by_week[week] || 0) + line.quantity;
+
+        const weekTotal = weeks.get(week);
+        if (weekTotal) {
+            weekTotal.quantity += line.quantity;
+            weekTotal.ros.add(line.ro_id);
+        }
+        ros.add(line.ro_id);
+    });
+
+    return {
+        from,
+        to,
+        parts: [...parts.values()]
+            .map(({ ros: partROs, ...part }) => ({
+                ...part,
+                ro_count: partROs.size,
+                avg_per_ro: Math.round((part.quantity / partROs.size) * 100) / 100,
+            }))
+            .sort((a, b) => b.quantity - a.quantity || a.key.localeCompare(b.key)),
+        weeks: [...weeks].map(([week, w]) => ({ week, quantity: w.quantity, ro_count: w.ros.size })),
+        total_quantity: lines.reduce((sum, l) => sum + l.quantity, 0),
+        ro_count: ros.size,
+    };
+}
@@ -0,0 +1,22 @@
+// RO lifecycle events a webhook can subscribe to, shared by the admin UI and utils/webhooks.ts
+
+export type WebhookEvent = "ro.created" | "part.scanned" | "ro.finalized" | "ro.amended";
+
+export const WEBHOOK_EVENTS: { event: WebhookEvent; label: string }[] = [
+    { event: "ro.created", label: "RO created" },
+    { event: "part.scanned", label: "Part scanned" },
+    { event: "ro.finalized", label: "RO finalized" },
+    { event: "ro.amended", label: "RO reopened" },
+];
+
+export type WebhookDeliveryStatus = "pending" | "delivered" | "dead";
+
+export const WEBHOOK_MAX_ATTEMPTS = 6; // about half an hour of retries, then dead
+
+// What a receiver gets; id is the delivery id, the same on every retry, so receivers can skip repeats
+export interface WebhookPayload {
+    id: string;
+    event: WebhookEvent | "ping";
+    occurred_at: string;
+    data: Record<string, unknown>;
+}
@@ -0,0 +1,125 @@
+// Webhook subscriptions: the server actions emit RO lifecycle events, each matching webhook gets a
+// webhook_deliveries row, and deliveries are posted signed with the webhook's secret. Failures are retried
+// with backoff by /api/webhooks/deliver (run by a cron) until they go dead.
+
+import { randomBytes, randomUUID } from "crypto";
+import { createServiceClient } from "@/utils/supabase/server";
+import { postSigned, PostResult } from "@/utils/signature";
+import { nextAttemptAt } from "@/utils/dms";
+import { WEBHOOK_MAX_ATTEMPTS, WebhookEvent, WebhookPayload } from "@/utils/webhook-events";
+
+const LEASE_SECONDS = 120; // a claimed delivery is hidden from other runs while it is being sent
+const BATCH_SIZE = 50;
+
+export interface WebhookResult extends PostResult {
+    skipped?: boolean; // not due, or another run has it
+}
+
+export function generateWebhookSecret() {
+    return `whsec_${randomBytes(24).toString("hex")}`;
+}
+
+// Queues a delivery per webhook and returns their ids
+export async function queueWebhookDeliveries(webhookIds: string[], event: WebhookPayload["event"], data: Record<string, unknown>) {
+    if (webhookIds.length === 0) return [];
+
+    const supabase = await createServiceClient();
+    const occurredAt = new Date().toISOString();
+    const rows = webhookIds.map((webhookId) => {
+        const id = randomUUID();
+        const payload: WebhookPayload = { id, event, occurred_at: occurredAt, data };
+        return { id, webhook_id: webhookId, event, payload };
+    });
+
+    const { error } = await supabase.from("webhook_deliveries").insert(rows);
+    if (error) throw new Error(error.message);
+    return rows.map((r) => r.id);
+}
+
+type EventData = Record<string, unknown>;
+
+// Fans an event out to the active webhooks subscribed to it and sends right away. data is built only when
+// someone listens. Call it from after() so a slow receiver never holds up the action; errors are logged.
+export async function emitWebhookEvent(event: WebhookEvent, data: EventData | (() => Promise<EventData>)) {
+    try {
+        const supabase = await createServiceClient();
+        const { data: webhooks, error } = await supabase
+            .from("webhooks")
+            .select("id")
+            .eq("active", true)
+            .contains("events", [event]);
+
+        if (error) throw new Error(error.message);
+        if (!webhooks || webhooks.length === 0) return;
+
+        const ids = await queueWebhookDeliveries(webhooks.map((w) => w.id), event, typeof data === "function" ? await data() : data);
+        await Promise.all(ids.map((id) => deliverWebhook(id)));
+    } catch (err) {
+        console.error(`Webhook event ${event} not queued:`, (err as Error).message);
+    }
+}
+
+// Sends one delivery if it is due and nobody else holds it; the outcome is recorded on the row
+export async function deliverWebhook(deliveryId: string): Promise<WebhookResult> {
+    const supabase = await createServiceClient();
+    const now = new Date();
+
+    // Claim: push next_attempt_at out so a concurrent run skips it
+    const { data: claimed, error: claimError } = await supabase
+        .from("webhook_deliveries")
+        .update({ next_attempt_at: new Date(now.getTime() + LEASE_SECONDS * 1000).toISOString() })
+        .eq("id", deliveryId)
+        .eq("status", "pending")
+        .lte("next_attempt_at", now.toISOString())
+        .select("attempts, payload, webhook:webhooks(url, secret, active)")
+        .maybeSingle();
+
+    if (claimError) return { ok: false, error: claimError.message };
+    if (!claimed) return { ok: false, skipped: true };
+
+    const webhook = claimed.webhook as unknown as { url: string; secret: string; active: boolean } | null;
+    const result: PostResult = webhook?.active
+        ? await postSigned(webhook.url, webhook.secret, JSON.stringify(claimed.payload), {
+            "X-Webhook-Event": (claimed.payload as WebhookPayload).event,
+            "X-Webhook-Delivery": deliveryId,
+        })
+        : { ok: false, error: "Webhook is disabled" };
+
+    const attempts = claimed.attempts + 1;
+    const giveUp = attempts >= WEBHOOK_MAX_ATTEMPTS || !webhook?.active;
+    const update = result.ok
+        ? { status: "delivered", attempts, delivered_at: new Date().toISOString(), next_attempt_at: null, last_error: null }
+        : giveUp
+            ? { status: "dead", attempts, next_attempt_at: null, last_error: result.error }
+            : { status: "pending", attempts, next_attempt_at: nextAttemptAt(attempts).toISOString(), last_error: result.error };
+
+    await supabase
+        .from("webhook_deliveries")
+        .update({ ...update, last_response_status: result.status ?? null })
+        .eq("id", deliveryId);
+
+    return result;
+}
+
+// Every delivery that is due, oldest first, a batch at a time
+export async function deliverDueWebhooks(): Promise<{ delivered: number; failed: number; error?: string }> {
+    const supabase = await createServiceClient();
+    const { data, error } = await supabase
+        .from("webhook_deliveries")
+        .select("id")
+        .eq("status", "pending")
+        .lte("next_attempt_at", new Date().toISOString())
+        .order("next_attempt_at")
+        .limit(BATCH_SIZE);
+
+    if (error) return { delivered: 0, failed: 0, error: error.message };
+
+    let delivered = 0;
+    let failed = 0;
+    for (const { id } of data || []) {
+        const result = await deliverWebhook(id);
+        if (result.ok) delivered++;
+        else if (!result.skipped) failed++;
+    }
+    return { delivered, failed };
+}
@@ -0,0 +1,118 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { attachWedgeScanner, DEFAULT_WEDGE_SETTINGS, WedgeSettings } from "./wedge";
+
+// The test environment is node: window only needs to hand over the keydown listener, and
+// events carry no timeStamp so the scanner reads the fake clock through Date.now()
+let listener: ((e: KeyboardEvent) => void) | null = null;
+const fakeDocument: { activeElement: { tagName: string } | null } = { activeElement: null };
+
+beforeEach(() => {
+    vi.useFakeTimers();
+    listener = null;
+    fakeDocument.activeElement = null;
+    vi.stubGlobal("window", {
+        addEventListener: (_type: string, fn: (e: KeyboardEvent) => void) => { listener = fn; },
+        removeEventListener: () => { listener = null; },
+    });
+    vi.stubGlobal("document", fakeDocument);
+});
+
+afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+});
+
+// Sends keys gapMs apart, returns the events so preventDefault can be checked
+function type(keys: string[], gapMs = 10, ctrlKey = false) {
+    return keys.map((key) => {
+        vi.advanceTimersByTime(gapMs);
+        const event = { key, ctrlKey, timeStamp: 0, preventDefault: vi.fn() } as unknown as KeyboardEvent;
+        listener!(event);
+        return event;
+    });
+}
+
+function attach(settings: Partial<WedgeSettings> = {}) {
+    const onScan = vi.fn();
+    const detach = attachWedgeScanner(onScan, { ...DEFAULT_WEDGE_SETTINGS, ...settings });
+    return { onScan, detach };
+}
+
+describe("attachWedgeScanner", () => {
+    it("reports a fast burst ended by the suffix", () => {
+        const { onScan } = attach();
+        type([..."ABC123", "Enter"]);
+        expect(onScan).toHaveBeenCalledWith("ABC123");
+    });
+
+    it("ignores bursts shorter than the minimum length", () => {
+        const { onScan } = attach();
+        type(["A", "B", "Enter"]);
+        expect(onScan).not.toHaveBeenCalled();
+    });
+
+    it("starts over after a gap longer than the timeout", () => {
+        const { onScan } = attach({ timeoutMs: 100 });
+        type([..."SLOW"], 150);
+        type([..."FAST", "Enter"]);
+        expect(onScan).toHaveBeenCalledWith("WFAST"); // the last slow key starts the new burst
+        expect(onScan).toHaveBeenCalledTimes(1);
+    });
+
+    it("accepts a gap equal to the timeout", () => {
+        const { onScan } = attach({ timeoutMs: 100 });
+        type([..."ABCD", "Enter"], 100);
+        expect(onScan).toHaveBeenCalledWith("ABCD");
+    });
+
+    it("ignores keys while a field has focus and no prefix is set", () => {
+        const { onScan } = attach();
+        fakeDocument.activeElement = { tagName: "INPUT" };
+        type([..."ABC123", "Enter"]);
+        expect(onScan).not.toHaveBeenCalled();
+    });
+
+    it("with a prefix, only reads what follows it, even while a field has focus", () => {
+        const { onScan } = attach({ prefix: "\x02", suffix: "\x03" });
+        fakeDocument.activeElement = { tagName: "INPUT" };
+
+        // Plain b and c are letters, not STX and ETX
+        const typed = type([..."bNOISEc"]);
+        type(["c"], 10, true);
+        expect(onScan).not.toHaveBeenCalled();
+        typed.forEach((e) => expect(e.preventDefault).not.toHaveBeenCalled());
+
+        type(["b"], 200, true); // Ctrl+B arrives as STX
+        const scanned = type([..."PART-9"]);
+        type(["c"], 10, true);
+        expect(onScan).toHaveBeenCalledWith("PART-9");
+        expect(onScan).toHaveBeenCalledTimes(1);
+        scanned.forEach((e) => expect(e.preventDefault).toHaveBeenCalled()); // kept out of the focused field
+    });
+
+    it("drops Enter and Tab inside a code when they are not the suffix", () => {
+        const { onScan } = attach({ prefix: "\x02", suffix: "\x03" });
+        type(["b"], 10, true);
+        type(["A", "Enter", "B", "Tab", "C"]);
+        type(["c"], 10, true);
+        expect(onScan).toHaveBeenCalledWith("ABC");
+    });
+
+    it("can use Tab as the suffix", () => {
+        const { onScan } = attach({ suffix: "Tab" });
+        type([..."XYZ", "Enter", "Tab"]);
+        expect(onScan).toHaveBeenCalledWith("XYZ");
+    });
+
+    it("ignores keys that stand for no character", () => {
+        const { onScan } = attach();
+        type(["A", "Shift", "B", "ArrowLeft", "C", "Enter"]);
+        expect(onScan).toHaveBeenCalledWith("ABC");
+    });
+
+    it("stops listening once detached", () => {
+        const { detach } = attach();
+        detach();
+        expect(listener).toBeNull();
+    });
+});
@@ -0,0 +1,102 @@
+// Keyboard-wedge scanners: USB / Bluetooth scanners that type the barcode as keystrokes
+
+const SETTINGS_KEY = "ro_scanner_wedge_settings";
+
+// Keys a scanner can be set to send around the code. Ctrl+letter arrives as the matching control character
+export const WEDGE_KEYS: { key: string; label: string }[] = [
+    { key: "", label: "None" },
+    { key: "Enter", label: "Enter" },
+    { key: "Tab", label: "Tab" },
+    { key: "\x02", label: "STX (Ctrl+B)" },
+    { key: "\x03", label: "ETX (Ctrl+C)" },
+];
+
+export interface WedgeSettings {
+    prefix: string; // "" when the scanner sends none; with a prefix, scans are caught even while an input has focus
+    suffix: string; // ends the code, never ""
+    timeoutMs: number; // a longer gap between keys means a person is typing, the buffer starts over
+    minLength: number; // shorter bursts are ignored
+}
+
+export const DEFAULT_WEDGE_SETTINGS: WedgeSettings = { prefix: "", suffix: "Enter", timeoutMs: 100, minLength: 3 };
+
+export function getWedgeSettings(): WedgeSettings {
+    if (typeof window === "undefined") return DEFAULT_WEDGE_SETTINGS;
+    const raw = localStorage.getItem(SETTINGS_KEY);
+    if (!raw) return DEFAULT_WEDGE_SETTINGS;
+    try {
+        return { ...DEFAULT_WEDGE_SETTINGS, ...(JSON.parse(raw) as Partial<WedgeSettings>) };
+    } catch {
+        return DEFAULT_WEDGE_SETTINGS;
+    }
+}
+
+export function saveWedgeSettings(settings: WedgeSettings) {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+}
+
+// The character a keystroke stands for; control characters come in as Ctrl+letter (Ctrl+] is the GS1 separator).
+// Enter and Tab come back by name, as WEDGE_KEYS stores them.
+function keyValue(e: KeyboardEvent): string | null {
+    if (e.key === "Enter" || e.key === "Tab") return e.key;
+    if (e.key.length !== 1) return null;
+    if (e.ctrlKey && /^[a-z@[\\\]^_]$/i.test(e.key)) {
+        return String.fromCharCode(e.key.toUpperCase().charCodeAt(0) - 64);
+    }
+    return e.key;
+}
+
+function isTyping() {
+    const tag = document.activeElement?.tagName;
+    return tag === "INPUT" || tag === "TEXTAREA" || tag === "SELECT";
+}
+
+// Listens on window and calls onScan with each complete code. The buffer lives here rather than in
+// React state so fast scanners don't lose keys between renders. Returns the detach function.
+export function attachWedgeScanner(onScan: (code: string) => void, settings: WedgeSettings = getWedgeSettings()) {
+    let buffer = "";
+    let lastKeyAt = 0;
+    let started = !settings.prefix; // without a prefix every burst is a candidate
+
+    const reset = () => {
+        buffer = "";
+        started = !settings.prefix;
+    };
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+        const key = keyValue(e);
+        if (key === null) return;
+
+        const now = e.timeStamp || Date.now();
+        if (now - lastKeyAt > settings.timeoutMs) reset();
+        lastKeyAt = now;
+
+        if (settings.prefix && key === settings.prefix) {
+            e.preventDefault();
+            buffer = "";
+            started = true;
+            return;
+        }
+
+        // Without a prefix we can't tell a scanner from a person typing into a field
+        if (!started || (!settings.prefix && isTyping())) return;
+
+        if (key === settings.suffix) {
+            if (buffer.length >= settings.minLength) {
+                e.preventDefault();
+                onScan(buffer);
+            }
+            reset();
+            return;
+        }
+
+        // Enter and Tab only mean something as the prefix or suffix, they are never part of a code
+        if (key === "Enter" || key === "Tab") return;
+
+        if (settings.prefix) e.preventDefault(); // Keep prefixed scans out of focused fields
+        buffer += key;
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+}
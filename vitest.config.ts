@@ -0,0 +1,9 @@
+import { fileURLToPath } from "url";
+import { defineConfig } from "vitest/config";
+
+// Same "@/" alias as tsconfig.json
+export default defineConfig({
+    resolve: {
+        alias: { "@": fileURLToPath(new URL(".", import.meta.url)) },
+    },
+});
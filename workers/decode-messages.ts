@@ -0,0 +1,22 @@
+// Messages between Scanner and the decode worker
+
+import type { Symbology } from "@/utils/barcode-rules";
+
+export type DecodeStage = "Native" | "Normal" | "Grayscale" | "Contrast" | "Threshold";
+
+export type OpenCVStatus = "idle" | "loading" | "ready" | "failed";
+
+export type DecodeRequest =
+    | { type: "init" }
+    | { type: "frame"; id: number; image: ImageBitmap | ImageData };
+
+export type DecodeResponse =
+    | { type: "engine"; native: boolean; opencv: OpenCVStatus }
+    | {
+        type: "result";
+        id: number;
+        text?: string;
+        format?: Symbology;
+        stage?: DecodeStage; // the stage that decoded it
+        timings: Partial<Record<DecodeStage, number>>; // ms per stage that ran
+    };
@@ -0,0 +1,245 @@
+// Runs the Native -> Normal -> Grayscale -> Contrast -> Threshold decode pipeline off the main thread.
+// Frames arrive already cropped to the target box. The native BarcodeDetector is used when the browser
+// has one; OpenCV (~8MB) is only fetched the first time a frame gets past the native and ZXing stages.
+
+import { BarcodeFormat, BinaryBitmap, HybridBinarizer, MultiFormatReader, RGBLuminanceSource } from "@zxing/library";
+import type { DecodeRequest, DecodeResponse, DecodeStage, OpenCVStatus } from "@/workers/decode-messages";
+import type { Symbology } from "@/utils/barcode-rules";
+
+const OPENCV_URL = "/lib/opencv.js";
+
+// Not in the TypeScript DOM lib yet
+interface NativeBarcodeDetector {
+    detect: (image: ImageBitmapSource) => Promise<{ rawValue: string; format: Symbology }[]>;
+}
+
+interface NativeBarcodeDetectorClass {
+    new (options?: { formats: string[] }): NativeBarcodeDetector;
+    getSupportedFormats: () => Promise<string[]>;
+}
+
+// The part of opencv.js used by the Grayscale, Contrast and Threshold stages
+interface OpenCVMat {
+    data: Uint8Array;
+    delete: () => void;
+}
+
+interface OpenCV {
+    Mat: new () => OpenCVMat;
+    matFromImageData: (image: ImageData) => OpenCVMat;
+    cvtColor: (src: OpenCVMat, dst: OpenCVMat, code: number, dstCn: number) => void;
+    equalizeHist: (src: OpenCVMat, dst: OpenCVMat) => void;
+    adaptiveThreshold: (
+        src: OpenCVMat,
+        dst: OpenCVMat,
+        maxValue: number,
+        adaptiveMethod: number,
+        thresholdType: number,
+        blockSize: number,
+        c: number
+    ) => void;
+    getBuildInformation?: () => string; // set once the WASM runtime is ready
+    COLOR_RGBA2GRAY: number;
+    ADAPTIVE_THRESH_GAUSSIAN_C: number;
+    THRESH_BINARY: number;
+}
+
+interface WorkerScope {
+    importScripts: (...urls: string[]) => void;
+    postMessage: (message: DecodeResponse) => void;
+    onmessage: ((event: MessageEvent<DecodeRequest>) => void) | null;
+    cv?: OpenCV;
+    BarcodeDetector?: NativeBarcodeDetectorClass;
+}
+
+const ZXING_FORMATS: Partial<Record<BarcodeFormat, Symbology>> = {
+    [BarcodeFormat.AZTEC]: "aztec",
+    [BarcodeFormat.CODABAR]: "codabar",
+    [BarcodeFormat.CODE_39]: "code_39",
+    [BarcodeFormat.CODE_93]: "code_93",
+    [BarcodeFormat.CODE_128]: "code_128",
+    [BarcodeFormat.DATA_MATRIX]: "data_matrix",
+    [BarcodeFormat.EAN_8]: "ean_8",
+    [BarcodeFormat.EAN_13]: "ean_13",
+    [BarcodeFormat.ITF]: "itf",
+    [BarcodeFormat.PDF_417]: "pdf417",
+    [BarcodeFormat.QR_CODE]: "qr_code",
+    [BarcodeFormat.UPC_A]: "upc_a",
+    [BarcodeFormat.UPC_E]: "upc_e",
+};
+
+type Decoded = { text: string; format?: Symbology };
+
+const scope = self as unknown as WorkerScope;
+const reader = new MultiFormatReader();
+
+let detector: NativeBarcodeDetector | null = null;
+let opencv: OpenCVStatus = "idle";
+
+function reportEngine() {
+    scope.postMessage({ type: "engine", native: detector !== null, opencv });
+}
+
+async function initNativeDetector() {
+    if (!scope.BarcodeDetector) return;
+    try {
+        const formats = await scope.BarcodeDetector.getSupportedFormats();
+        if (formats.length > 0) detector = new scope.BarcodeDetector({ formats });
+    } catch {
+        detector = null; // Declared but not usable, e.g. desktop Chrome without the platform service
+    }
+}
+
+// opencv.js sets `cv` right away but the WASM runtime is ready a bit later
+function waitForOpenCV(): Promise<void> {
+    return new Promise((resolve) => {
+        const check = () => {
+            if (scope.cv?.getBuildInformation) resolve();
+            else setTimeout(check, 50);
+        };
+        check();
+    });
+}
+
+// Fetch first so the download doesn't block the worker, importScripts then reads it from the HTTP cache
+async function loadOpenCV() {
+    if (opencv !== "idle") return;
+    opencv = "loading";
+    reportEngine();
+
+    try {
+        const res = await fetch(OPENCV_URL);
+        if (!res.ok) throw new Error(`HTTP ${res.status}`);
+        await res.blob();
+        scope.importScripts(OPENCV_URL);
+        await waitForOpenCV();
+        opencv = "ready";
+    } catch (err) {
+        console.error("Could not load OpenCV", err);
+        opencv = "failed";
+    }
+    reportEngine();
+}
+
+async function detectNative(image: ImageBitmap | ImageData) {
+    try {
+        const [barcode] = await detector!.detect(image);
+        return barcode ? { text: barcode.rawValue, format: barcode.format } : null;
+    } catch {
+        return null;
+    }
+}
+
+function decode(luminances: Uint8ClampedArray, width: number, height: number): Decoded | null {
+    try {
+        const bitmap = new BinaryBitmap(new HybridBinarizer(new RGBLuminanceSource(luminances, width, height)));
+        const result = reader.decode(bitmap);
+        return { text: result.getText(), format: ZXING_FORMATS[result.getBarcodeFormat()] };
+    } catch {
+        return null; // NotFoundException is normal
+    } finally {
+        reader.reset();
+    }
+}
+
+// Same weighting ZXing uses for canvas frames
+function toLuminance({ data, width, height }: ImageData) {
+    const luminances = new Uint8ClampedArray(width * height);
+    for (let i = 0; i < luminances.length; i++) {
+        const o = i * 4;
+        luminances[i] = (data[o] * 306 + data[o + 1] * 601 + data[o + 2] * 117) >> 10;
+    }
+    return luminances;
+}
+
+function toImageData(image: ImageBitmap | ImageData): ImageData {
+    if (!(image instanceof ImageBitmap)) return image;
+
+    const canvas = new OffscreenCanvas(image.width, image.height);
+    const ctx = canvas.getContext("2d")!;
+    ctx.drawImage(image, 0, 0);
+    image.close();
+    return ctx.getImageData(0, 0, canvas.width, canvas.height);
+}
+
+async function processFrame(id: number, image: ImageBitmap | ImageData): Promise<DecodeResponse> {
+    const timings: Partial<Record<DecodeStage, number>> = {};
+
+    // 0. Native detector, reads the bitmap directly
+    if (detector) {
+        const start = performance.now();
+        const native = await detectNative(image);
+        timings.Native = performance.now() - start;
+        if (native) {
+            if (image instanceof ImageBitmap) image.close();
+            return { type: "result", id, ...native, stage: "Native", timings };
+        }
+    }
+
+    const frame = toImageData(image);
+    const { width, height } = frame;
+
+    const run = (stage: DecodeStage, luminances: () => Uint8ClampedArray) => {
+        const start = performance.now();
+        const result = decode(luminances(), width, height);
+        timings[stage] = performance.now() - start;
+        return result;
+    };
+
+    // 1. Try Normal Decode First (Fastest)
+    let decoded = run("Normal", () => toLuminance(frame));
+    if (decoded) return { type: "result", id, ...decoded, stage: "Normal", timings };
+
+    // The remaining stages need OpenCV; until it has loaded, frames stop here
+    if (opencv !== "ready") {
+        loadOpenCV();
+        return { type: "result", id, timings };
+    }
+
+    const cv = scope.cv!;
+    const src = cv.matFromImageData(frame);
+    const dst = new cv.Mat();
+    try {
+        // 2. Grayscale
+        decoded = run("Grayscale", () => {
+            cv.cvtColor(src, dst, cv.COLOR_RGBA2GRAY, 0);
+            return new Uint8ClampedArray(dst.data);
+        });
+        if (decoded) return { type: "result", id, ...decoded, stage: "Grayscale", timings };
+
+        // 3. High Contrast (Histogram Equalization)
+        decoded = run("Contrast", () => {
+            cv.equalizeHist(dst, dst);
+            return new Uint8ClampedArray(dst.data);
+        });
+        if (decoded) return { type: "result", id, ...decoded, stage: "Contrast", timings };
+
+        // 4. Binarization (Threshold)
+        // block size 11, C 2
+        decoded = run("Threshold", () => {
+            cv.adaptiveThreshold(dst, dst, 255, cv.ADAPTIVE_THRESH_GAUSSIAN_C, cv.THRESH_BINARY, 11, 2);
+            return new Uint8ClampedArray(dst.data);
+        });
+        if (decoded) return { type: "result", id, ...decoded, stage: "Threshold", timings };
+    } finally {
+        src.delete();
+        dst.delete();
+    }
+
+    return { type: "result", id, timings };
+}
+
+scope.onmessage = async ({ data: message }) => {
+    if (message.type === "init") {
+        await initNativeDetector();
+        reportEngine();
+        return;
+    }
+
+    try {
+        scope.postMessage(await processFrame(message.id, message.image));
+    } catch (err) {
+        console.error("CV Error", err);
+        scope.postMessage({ type: "result", id: message.id, timings: {} });
+    }
+};